@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, varchar, smallint, boolean, json, index, uniqueIndex, foreignKey, unique, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, varchar, smallint, integer, boolean, json, index, uniqueIndex, foreignKey, unique, pgEnum } from 'drizzle-orm/pg-core';
 
 import { sql } from 'drizzle-orm';
 
@@ -35,12 +35,27 @@ export const messageType = pgEnum('MessageType', [
 // NEW Enums for WhatsApp
 export const whatsappAccountStatus = pgEnum('WhatsappAccountStatus', ['active', 'inactive']);
 
+// Lifecycle of a persisted inbound webhook payload
+export const webhookEventStatus = pgEnum('WebhookEventStatus', [
+  'pending',      // waiting for (another) processing attempt
+  'processing',   // claimed by a worker
+  'completed',    // processed successfully
+  'dead_letter',  // gave up after max attempts, needs replay
+]);
+
 // Minimal chatbot table - only what's needed for webhook service
 export const chatBots = pgTable('chatbot', {
   id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
   apiKey: varchar('api_key', { length: 255 }),
 });
 
+// Per-chatbot WhatsApp behaviour (context building, etc.) - JSON merged over service defaults
+export const whatsappChatbotSettings = pgTable('whatsapp_chatbot_settings', {
+  chatbotId: text('chatbot_id').primaryKey().notNull().references(() => chatBots.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+  settings: json('settings').notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+});
+
 // Messages table - for storing WhatsApp messages
 export const messages = pgTable('messages', {
   id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
@@ -66,6 +81,8 @@ export const messages = pgTable('messages', {
   ),
   index('messages_chatbot_channel_idx').on(table.chatbotId, table.channel),
   index('messages_chatbot_feedback_idx').on(table.chatbotId, table.feedback),
+  // Inbound dedup and feedback lookups by WhatsApp message ID
+  index('messages_chatbot_wa_message_id_idx').on(table.chatbotId, sql`(${table.channelMessageMetadata}->>'waMessageId')`),
   foreignKey({
     columns: [table.chatbotId],
     foreignColumns: [chatBots.id],
@@ -75,6 +92,175 @@ export const messages = pgTable('messages', {
   // Note: topicId foreign key constraint is managed by another service
 ]);
 
+// Delivery status timeline of outbound WhatsApp messages (sent -> delivered -> read, or failed)
+export const messageStatusEvents = pgTable('message_status_events', {
+  id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
+  chatbotId: text('chatbot_id').notNull(),
+  waMessageId: varchar('wa_message_id', { length: 255 }).notNull(),
+  recipientId: varchar('recipient_id', { length: 255 }).notNull(),
+  status: varchar('status', { length: 50 }).notNull(),
+  statusTimestamp: timestamp('status_timestamp', { mode: 'date', withTimezone: true, precision: 6 }).notNull(),
+  errorCode: integer('error_code'),
+  errorTitle: text('error_title'),
+  errorMessage: text('error_message'),
+  errorDetails: text('error_details'),
+  conversation: json('conversation'),  // { id, origin: { type }, expiration_timestamp }
+  pricing: json('pricing'),            // { billable, pricing_model, category }
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+}, (table) => [
+  // Redelivered status webhooks are recorded once
+  uniqueIndex('message_status_events_message_status_unique').on(table.chatbotId, table.waMessageId, table.status),
+  index('message_status_events_recipient_idx').on(table.chatbotId, table.recipientId, table.statusTimestamp.desc()),
+  foreignKey({
+    columns: [table.chatbotId],
+    foreignColumns: [chatBots.id],
+  })
+    .onUpdate('cascade')
+    .onDelete('cascade'),
+]);
+
+// Inbound webhook events - every accepted POST /webhook payload is stored here
+// before processing so nothing is lost on crash/deploy/DB blips
+export const webhookEvents = pgTable('webhook_events', {
+  id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
+  payload: json('payload').notNull(),
+  status: webhookEventStatus('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(8).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow().notNull(),
+  lockedAt: timestamp('locked_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+  updatedAt: timestamp('updated_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+  processedAt: timestamp('processed_at', { mode: 'date', withTimezone: true, precision: 6 }),
+}, (table) => [
+  // Worker poll: pending events that are due
+  index('webhook_events_status_next_attempt_idx').on(table.status, table.nextAttemptAt),
+  index('webhook_events_created_idx').on(table.createdAt.desc()),
+  // Retention purge: completed events by processing time
+  index('webhook_events_completed_processed_idx').on(table.processedAt).where(sql`${table.status} = 'completed'`),
+]);
+
+// Who currently owns a WhatsApp conversation
+export const handoffStatus = pgEnum('HandoffStatus', [
+  'bot',    // AI replies normally
+  'human',  // a human agent owns the thread, AI replies suppressed
+]);
+
+// Per-conversation human handoff state (keyed on messages.unique_conv_id)
+export const conversationHandoffs = pgTable('conversation_handoffs', {
+  uniqueConvId: text('unique_conv_id').primaryKey().notNull(),
+  chatbotId: text('chatbot_id').notNull(),
+  phoneNumber: varchar('phone_number', { length: 255 }).notNull(),
+  status: handoffStatus('status').default('bot').notNull(),
+  reason: text('reason'),
+  triggeredBy: varchar('triggered_by', { length: 50 }),  // keyword | api
+  agentId: text('agent_id'),
+  startedAt: timestamp('started_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  lastActivityAt: timestamp('last_activity_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  endedAt: timestamp('ended_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  endReason: varchar('end_reason', { length: 50 }),  // api | idle_timeout
+  updatedAt: timestamp('updated_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+}, (table) => [
+  index('conversation_handoffs_chatbot_status_idx').on(table.chatbotId, table.status),
+  index('conversation_handoffs_status_activity_idx').on(table.status, table.lastActivityAt),
+  foreignKey({
+    columns: [table.chatbotId],
+    foreignColumns: [chatBots.id],
+  })
+    .onUpdate('cascade')
+    .onDelete('cascade'),
+]);
+
+// Conversations whose AI reply failed while the response API was unavailable - one row per
+// conversation, answered by the follow-up worker once the API recovers, then deleted
+export const responseFollowUps = pgTable('response_follow_ups', {
+  uniqueConvId: text('unique_conv_id').primaryKey().notNull(),
+  chatbotId: text('chatbot_id').notNull(),
+  phoneNumber: varchar('phone_number', { length: 255 }).notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  // Set while a worker answers it; claims older than RESPONSE_FOLLOW_UP_CLAIM_TIMEOUT_MS are taken over
+  claimedAt: timestamp('claimed_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  // First failure; follow-ups expire after RESPONSE_FOLLOW_UP_MAX_AGE_MS
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+}, (table) => [
+  index('response_follow_ups_created_idx').on(table.createdAt),
+  foreignKey({
+    columns: [table.chatbotId],
+    foreignColumns: [chatBots.id],
+  })
+    .onUpdate('cascade')
+    .onDelete('cascade'),
+]);
+
+// Inbound message receipts - one row per (chatbot, WhatsApp message id) so that
+// redelivered webhooks are stored and answered exactly once across instances
+// Reply owed to a conversation once its burst of customer messages is over (message aggregation)
+export const pendingReplies = pgTable('pending_replies', {
+  uniqueConvId: text('unique_conv_id').primaryKey().notNull(),
+  chatbotId: text('chatbot_id').notNull(),
+  phoneNumber: varchar('phone_number', { length: 255 }).notNull(),
+  // Bumped by every customer message; only the latest message's timer sends the reply
+  revision: integer('revision').default(1).notNull(),
+  dueAt: timestamp('due_at', { mode: 'date', withTimezone: true, precision: 6 }).notNull(),
+  // Set while an instance answers it
+  claimedAt: timestamp('claimed_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+}, (table) => [
+  // Sweeper: replies whose timer was lost
+  index('pending_replies_due_idx').on(table.dueAt),
+  foreignKey({
+    columns: [table.chatbotId],
+    foreignColumns: [chatBots.id],
+  })
+    .onUpdate('cascade')
+    .onDelete('cascade'),
+]);
+
+export const inboundMessageReceiptStatus = pgEnum('InboundMessageReceiptStatus', ['processing', 'completed']);
+
+export const inboundMessageReceipts = pgTable('inbound_message_receipts', {
+  chatbotId: text('chatbot_id').notNull(),
+  waMessageId: varchar('wa_message_id', { length: 255 }).notNull(),
+  status: inboundMessageReceiptStatus('status').default('processing').notNull(),
+  duplicateCount: integer('duplicate_count').default(0).notNull(),
+  claimedAt: timestamp('claimed_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow().notNull(),
+  completedAt: timestamp('completed_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow(),
+}, (table) => [
+  uniqueIndex('inbound_message_receipts_chatbot_wa_message_unique').on(table.chatbotId, table.waMessageId),
+  index('inbound_message_receipts_created_idx').on(table.createdAt),
+]);
+
+// Opt-in / opt-out audit trail per contact (current state lives in whatsapp_user_metadata.opt_in_status)
+export const contactConsentStatus = pgEnum('ContactConsentStatus', ['opted_in', 'opted_out']);
+
+export const contactConsentEvents = pgTable('contact_consent_events', {
+  id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
+  chatbotId: text('chatbot_id').notNull(),
+  contactId: text('contact_id'),
+  phoneNumber: varchar('phone_number', { length: 255 }).notNull(),
+  status: contactConsentStatus('status').notNull(),
+  source: varchar('source', { length: 50 }).notNull(),  // keyword | api
+  keyword: text('keyword'),
+  waMessageId: varchar('wa_message_id', { length: 255 }),  // inbound message carrying the keyword
+  actor: text('actor'),  // agent / system that changed the state via the API
+  reason: text('reason'),
+  createdAt: timestamp('created_at', { mode: 'date', withTimezone: true, precision: 6 }).defaultNow().notNull(),
+}, (table) => [
+  index('contact_consent_events_chatbot_created_idx').on(table.chatbotId, table.createdAt),
+  index('contact_consent_events_chatbot_phone_idx').on(table.chatbotId, table.phoneNumber),
+  foreignKey({
+    columns: [table.chatbotId],
+    foreignColumns: [chatBots.id],
+  })
+    .onUpdate('cascade')
+    .onDelete('cascade'),
+]);
+
 // WhatsApp Tables (with webhook secrets and all required details)
 export const whatsappAccounts = pgTable('whatsapp_accounts', {
   id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
@@ -82,12 +268,14 @@ export const whatsappAccounts = pgTable('whatsapp_accounts', {
   phoneNumber: varchar('phone_number', { length: 20 }).notNull().unique(),
   wabaId: varchar('waba_id', { length: 255 }).notNull(),
   phoneNumberId: varchar('phone_number_id', { length: 255 }).notNull(),
-  accessToken: text('access_token').notNull(),
+  accessToken: text('access_token').notNull(), // Envelope-encrypted (enc:v1:...), see src/utils/secrets.ts
   verifiedName: varchar('verified_name', { length: 255 }).notNull(),
   status: whatsappAccountStatus('status').default('active').notNull(),
   whatsappBusinessId: varchar('whatsapp_business_id', { length: 255 }).notNull(),
   webhookUrl: text('webhook_url'),
-  verifyToken: varchar('verify_token', { length: 255 }), // Webhook verification token
+  verifyToken: varchar('verify_token', { length: 255 }), // Legacy plaintext verify token, cleared by secrets re-encryption
+  verifyTokenHash: varchar('verify_token_hash', { length: 64 }), // SHA-256 of the webhook verification token
+  appSecret: text('app_secret'), // Meta app secret used to sign this account's webhooks (falls back to FACEBOOK_APP_SECRET), envelope-encrypted
   createdAt: timestamp('created_at', { mode: 'date', precision: 6 }).defaultNow(),
   updatedAt: timestamp('updated_at', { mode: 'date', precision: 6 }).defaultNow(),
 }, (table) => [
@@ -101,15 +289,37 @@ export const whatsappAccounts = pgTable('whatsapp_accounts', {
   index('whatsapp_accounts_phone_number_id_status_idx').on(table.phoneNumberId, table.status),
   // Composite index for webhook verification: verify_token + status
   index('whatsapp_accounts_verify_token_status_idx').on(table.verifyToken, table.status),
+  index('whatsapp_accounts_verify_token_hash_status_idx').on(table.verifyTokenHash, table.status),
   unique('whatsapp_accounts_chatbot_id_unique').on(table.chatbotId), // One WhatsApp account per chatbot
 ]);
 
+// Message templates per WhatsApp Business Account, kept in sync from
+// message_template_status_update / template_category_update webhooks
+export const whatsappTemplates = pgTable('whatsapp_templates', {
+  id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
+  wabaId: varchar('waba_id', { length: 255 }).notNull(),
+  metaTemplateId: varchar('meta_template_id', { length: 255 }),
+  name: varchar('name', { length: 512 }).notNull(),
+  language: varchar('language', { length: 15 }).notNull(),
+  category: varchar('category', { length: 50 }),  // MARKETING | UTILITY | AUTHENTICATION
+  status: varchar('status', { length: 50 }).notNull(),  // APPROVED | PENDING | REJECTED | PAUSED | DISABLED ...
+  rejectedReason: text('rejected_reason'),
+  components: json('components'),
+  // When the stored status took effect, so an older status update arriving late is ignored
+  statusUpdatedAt: timestamp('status_updated_at', { mode: 'date', withTimezone: true, precision: 6 }),
+  createdAt: timestamp('created_at', { mode: 'date', precision: 6 }).defaultNow(),
+  updatedAt: timestamp('updated_at', { mode: 'date', precision: 6 }).defaultNow(),
+}, (table) => [
+  uniqueIndex('whatsapp_templates_waba_name_language_unique').on(table.wabaId, table.name, table.language),
+  index('whatsapp_templates_meta_template_id_idx').on(table.metaTemplateId),
+]);
+
 export const whatsappContacts = pgTable('whatsapp_contacts', {
   id: text('id').primaryKey().notNull().$defaultFn(() => createId()),
   chatbotId: text('chatbot_id').notNull(),
   phoneNumber: varchar('phone_number', { length: 255 }).notNull(),
   displayName: varchar('display_name', { length: 255 }),
-  // Detailed metadata: { wa_id, profile, first_seen_at, last_seen_at, last_inbound_message_id, waba_id, phone_number_id, display_phone_number, source, opt_in_status, etc }
+  // Detailed metadata: { wa_id, profile, first_seen_at, last_seen_at, last_inbound_message_id, waba_id, phone_number_id, display_phone_number, source, opt_in_status, opt_in_status_updated_at, opt_in_source, etc }
   userMetadata: json('whatsapp_user_metadata').notNull(),
   createdAt: timestamp('created_at', { mode: 'date', precision: 6 }).defaultNow(),
   updatedAt: timestamp('updated_at', { mode: 'date', precision: 6 }).defaultNow(),
@@ -0,0 +1,166 @@
+import express, { Request, Response } from 'express';
+import { getDbClient } from './config/database';
+import logger from './config/logger';
+import { webhooksReceivedTotal } from './config/metrics';
+import { RawBodyRequest, verifyWebhookRequest } from './middleware/webhook-signature';
+import { parseWebhookPayload } from './utils/webhook-payload';
+import { errorMessage, WebhookPayloadError } from './utils/errors';
+import { handleWebhookVerify, handleWebhookMessage } from './services/webhook-handler';
+import { enqueueWebhookEvent } from './services/webhook-queue';
+import { trackInFlight } from './services/in-flight';
+import webhookEventsRouter from './routes/webhook-events';
+import accountsRouter from './routes/accounts';
+import mediaRouter from './routes/media';
+import messagesRouter from './routes/messages';
+import handoffRouter from './routes/handoff';
+import templatesRouter from './routes/templates';
+import conversationsRouter from './routes/conversations';
+import settingsRouter from './routes/settings';
+import consentRouter from './routes/consent';
+import metricsRouter from './routes/metrics';
+import healthRouter from './routes/health';
+
+/**
+ * HTTP API of the service; src/index.ts starts it (database, workers, listener), tests mount it directly
+ */
+const app = express();
+
+// Middleware to parse JSON and capture raw body for signature verification
+app.use(
+  express.json({
+    verify: (req: Request, res: Response, buf: Buffer) => {
+      // Keep the exact bytes - signatures are computed over the raw body, not a re-serialization
+      (req as RawBodyRequest).rawBody = Buffer.from(buf);
+    },
+  })
+);
+
+// Liveness and readiness probes
+app.use('/health', healthRouter);
+
+// Webhook verification endpoint (GET request from WhatsApp)
+app.get('/webhook', async (req: Request, res: Response) => {
+  const mode = req.query['hub.mode'] as string;
+  const verifyToken = req.query['hub.verify_token'] as string;
+  const challenge = req.query['hub.challenge'] as string;
+
+  logger.info('GET /webhook - Verification attempt:', {
+    mode,
+    token: verifyToken ? 'present' : 'missing',
+    challenge: challenge ? 'present' : 'missing',
+  });
+
+  if (mode !== 'subscribe') {
+    logger.warn('Webhook verification failed: mode is not "subscribe"');
+    return res.status(403).send('Forbidden');
+  }
+
+  try {
+    const challengeResponse = await handleWebhookVerify(verifyToken, challenge);
+    logger.info('Webhook verified successfully');
+    res.status(200).send(challengeResponse);
+  } catch (error) {
+    logger.warn('Webhook verification failed:', errorMessage(error));
+    res.status(403).send('Forbidden');
+  }
+});
+
+// Webhook message handler (POST request from WhatsApp)
+// Signature is verified (per-account app secret) before anything is persisted or processed
+app.post('/webhook', verifyWebhookRequest, async (req: Request, res: Response) => {
+  const payload = req.body;
+
+  logger.info('POST /webhook - Received:', JSON.stringify(payload, null, 2));
+
+  // Verify it's a WhatsApp webhook
+  if (payload.object !== 'whatsapp_business_account') {
+    logger.warn('POST /webhook - Not a WhatsApp webhook event. Body object:', payload.object);
+    webhooksReceivedTotal.inc({ outcome: 'ignored' });
+    return res.status(200).json({
+      success: true,
+      message: 'Not a WhatsApp webhook event',
+    });
+  }
+
+  try {
+    // Reject malformed envelopes up front - they would fail on every retry
+    parseWebhookPayload(payload);
+
+    const pool = await getDbClient();
+
+    if (pool) {
+      // Persist before acknowledging - the worker processes it with retries
+      try {
+        await enqueueWebhookEvent(payload);
+      } catch (error) {
+        logger.error('Failed to persist webhook event:', error);
+        webhooksReceivedTotal.inc({ outcome: 'persist_failed' });
+        // Non-2xx makes WhatsApp redeliver the webhook later
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to persist webhook event',
+        });
+      }
+    } else {
+      // No database - process asynchronously in-process; shutdown waits for it to finish
+      trackInFlight('webhook', handleWebhookMessage(payload)).catch((error) => {
+        logger.error('Error processing webhook message:', error);
+      });
+    }
+
+    webhooksReceivedTotal.inc({ outcome: 'accepted' });
+
+    // Respond immediately to WhatsApp
+    res.status(200).json({
+      success: true,
+      message: 'Webhook received',
+    });
+  } catch (error) {
+    if (error instanceof WebhookPayloadError) {
+      logger.warn('POST /webhook - Malformed payload rejected:', { issues: error.issues });
+      webhooksReceivedTotal.inc({ outcome: 'invalid' });
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid webhook payload',
+        code: error.code,
+        issues: error.issues,
+      });
+    }
+
+    // Express 4 does not catch rejected async handlers - answer here so WhatsApp redelivers
+    logger.error('POST /webhook - Failed to accept webhook:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Prometheus metrics
+app.use('/metrics', metricsRouter);
+
+// Webhook event queue administration (dead-letter inspection and replay)
+app.use('/admin/webhook-events', webhookEventsRouter);
+
+// Account onboarding and credential management
+app.use('/admin/accounts', accountsRouter);
+
+// Stored inbound media (images, audio, video, documents)
+app.use('/media', mediaRouter);
+
+// Outbound messaging API for agents and other services
+app.use('/accounts/:chatbotId/messages', messagesRouter);
+
+// Human handoff per conversation
+app.use('/accounts/:chatbotId/conversations/:phoneNumber/handoff', handoffRouter);
+
+// Conversation-level queries (delivery status history, consent)
+app.use('/accounts/:chatbotId/conversations/:phoneNumber', conversationsRouter);
+
+// Message templates (approval status synced from webhooks / Graph API)
+app.use('/accounts/:chatbotId/templates', templatesRouter);
+
+// Per-chatbot WhatsApp settings (AI context window)
+app.use('/accounts/:chatbotId/settings', settingsRouter);
+
+// Opt-in / opt-out audit trail export
+app.use('/accounts/:chatbotId/consent', consentRouter);
+
+export default app;
@@ -0,0 +1,21 @@
+// WhatsApp Cloud API (Meta Graph API) host and version
+const DEFAULT_GRAPH_API_HOST = 'https://graph.facebook.com';
+const DEFAULT_GRAPH_API_VERSION = 'v18.0';
+
+export type GraphApiOperation = 'send_message' | 'get_media' | 'download_media' | 'list_templates' | 'get_phone_number';
+
+/**
+ * Graph API version, e.g. `v19.0` (GRAPH_API_VERSION)
+ */
+export function getGraphApiVersion(): string {
+  return process.env.GRAPH_API_VERSION || DEFAULT_GRAPH_API_VERSION;
+}
+
+/**
+ * Graph API base URL including the version. GRAPH_API_BASE_URL points the service at another host
+ * (e.g. the local simulator); a base URL that already ends in a version is used as is.
+ */
+export function getGraphApiBaseUrl(): string {
+  const baseUrl = (process.env.GRAPH_API_BASE_URL || DEFAULT_GRAPH_API_HOST).replace(/\/+$/, '');
+  return /\/v\d+\.\d+$/.test(baseUrl) ? baseUrl : `${baseUrl}/${getGraphApiVersion()}`;
+}
@@ -3,7 +3,7 @@ import winston from 'winston';
 const logLevel = process.env.LOG_LEVEL || 'info';
 
 // Safe JSON stringify that handles circular references
-const safeStringify = (obj: any): string => {
+const safeStringify = (obj: unknown): string => {
   const seen = new WeakSet();
   return JSON.stringify(obj, (key, value) => {
     if (typeof value === 'object' && value !== null) {
@@ -20,9 +20,63 @@ const safeStringify = (obj: any): string => {
   }, 2);
 };
 
+// Keys whose values are never logged
+const SENSITIVE_KEY = /^(authorization|x-api-key|x-hub-signature-256|access_?token|app_?secret|verify_?token|api_?key|password|secret|converslyWebId)$/i;
+
+// Secrets embedded in strings (headers, query strings, serialized JSON, Meta access tokens)
+const SENSITIVE_PATTERNS: Array<[RegExp, string]> = [
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, '$1[REDACTED]'],
+  [/((?:access_token|hub\.verify_token|verify_token|app_secret|appsecret_proof)=)[^&\s"']+/gi, '$1[REDACTED]'],
+  [/("(?:access_?token|accessToken|app_?secret|appSecret|verify_?token|verifyToken|authorization|api_?key|apiKey)"\s*:\s*)"[^"]*"/gi, '$1"[REDACTED]"'],
+  [/\bEAA[A-Za-z0-9]{20,}\b/g, '[REDACTED]'],
+];
+
+const redactString = (value: string): string =>
+  SENSITIVE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+
+// Copy of a log value with secrets redacted (never mutates the caller's objects)
+const redactValue = (key: string, value: unknown, seen: WeakSet<object>, depth: number): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (SENSITIVE_KEY.test(key)) {
+    return '[REDACTED]';
+  }
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value !== 'object' || value instanceof Error || value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (seen.has(value) || depth > 8) {
+    return value;
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue('', item, seen, depth + 1));
+  }
+  const result: Record<string, unknown> = {};
+  for (const [childKey, childValue] of Object.entries(value)) {
+    result[childKey] = redactValue(childKey, childValue, seen, depth + 1);
+  }
+  return result;
+};
+
+// Redact access tokens, app secrets, verify tokens and API keys from every log entry
+const redactSecrets = winston.format((info) => {
+  const seen = new WeakSet<object>();
+  for (const key of Object.keys(info)) {
+    if (key === 'level') continue;
+    info[key] = redactValue(key, info[key], seen, 0);
+  }
+  return info;
+});
+
 const logger = winston.createLogger({
   level: logLevel,
   format: winston.format.combine(
+    redactSecrets(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -34,7 +88,8 @@ const logger = winston.createLogger({
         winston.format.colorize(),
         winston.format.printf(({ timestamp, level, message, ...meta }) => {
           // Remove service from meta to avoid duplication
-          const { service, ...restMeta } = meta;
+          const restMeta = { ...meta };
+          delete restMeta.service;
           return `${timestamp} [${level}]: ${message} ${
             Object.keys(restMeta).length ? safeStringify(restMeta) : ''
           }`;
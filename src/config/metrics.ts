@@ -0,0 +1,184 @@
+import client from 'prom-client';
+import { pool } from './database';
+
+// Prometheus metrics registry for the service
+export const register = new client.Registry();
+
+register.setDefaultLabels({ service: 'whatsapp-webhook-service' });
+
+// Inbound WhatsApp messages skipped because the same message ID was already handled
+export const duplicateMessagesTotal = new client.Counter({
+  name: 'whatsapp_duplicate_messages_total',
+  help: 'Inbound WhatsApp messages dropped as duplicate deliveries',
+  labelNames: ['chatbot_id'] as const,
+  registers: [register],
+});
+
+// POST /webhook requests rejected before processing
+export const webhookRejectedTotal = new client.Counter({
+  name: 'whatsapp_webhook_rejected_total',
+  help: 'Webhook requests rejected by signature verification',
+  labelNames: ['reason'] as const,
+  registers: [register],
+});
+
+// Process CPU, memory, event loop lag and GC
+client.collectDefaultMetrics({ register });
+
+// POST /webhook requests that passed signature verification, by outcome
+// (accepted, ignored = not a WhatsApp event, invalid = malformed payload, persist_failed)
+export const webhooksReceivedTotal = new client.Counter({
+  name: 'whatsapp_webhooks_received_total',
+  help: 'Webhook requests received, by outcome',
+  labelNames: ['outcome'] as const,
+  registers: [register],
+});
+
+// Inbound messages processed (after deduplication)
+export const messagesReceivedTotal = new client.Counter({
+  name: 'whatsapp_messages_received_total',
+  help: 'Inbound WhatsApp messages, by chatbot and message type',
+  labelNames: ['chatbot_id', 'type'] as const,
+  registers: [register],
+});
+
+export const statusUpdatesTotal = new client.Counter({
+  name: 'whatsapp_status_updates_total',
+  help: 'Delivery status updates received, by chatbot and status',
+  labelNames: ['chatbot_id', 'status'] as const,
+  registers: [register],
+});
+
+// Outcome of each AI turn: sent, send_failed (Graph API), response_failed (no answer from the response API),
+// error (response API unreachable or processing failed)
+export const aiRepliesTotal = new client.Counter({
+  name: 'whatsapp_ai_replies_total',
+  help: 'AI replies attempted, by chatbot and outcome',
+  labelNames: ['chatbot_id', 'outcome'] as const,
+  registers: [register],
+});
+
+export const responseApiDuration = new client.Histogram({
+  name: 'whatsapp_response_api_duration_seconds',
+  help: 'Latency of response API calls, by chatbot and outcome',
+  labelNames: ['chatbot_id', 'outcome'] as const,
+  buckets: [0.25, 0.5, 1, 2, 3, 5, 8, 13, 20, 30],
+  registers: [register],
+});
+
+// reason: timeout, network, http_<status>, unsuccessful (success: false or no response text),
+// circuit_open (refused without calling)
+export const responseApiErrorsTotal = new client.Counter({
+  name: 'whatsapp_response_api_errors_total',
+  help: 'Failed response API calls, by chatbot and reason',
+  labelNames: ['chatbot_id', 'reason'] as const,
+  registers: [register],
+});
+
+export const responseApiRetriesTotal = new client.Counter({
+  name: 'whatsapp_response_api_retries_total',
+  help: 'Response API calls retried after a transient error, by chatbot',
+  labelNames: ['chatbot_id'] as const,
+  registers: [register],
+});
+
+// 0 = closed (calls go through), 1 = half open (one trial call), 2 = open (calls refused)
+export const responseApiCircuitState = new client.Gauge({
+  name: 'whatsapp_response_api_circuit_state',
+  help: 'Response API circuit breaker state per chatbot (0 closed, 1 half open, 2 open)',
+  labelNames: ['chatbot_id'] as const,
+  registers: [register],
+});
+
+// kind: error (no answer), unavailable (no answer, follow-up queued), holding (answer is slow)
+export const fallbackRepliesTotal = new client.Counter({
+  name: 'whatsapp_fallback_replies_total',
+  help: 'Fallback messages sent instead of or ahead of an AI answer, by chatbot and kind',
+  labelNames: ['chatbot_id', 'kind'] as const,
+  registers: [register],
+});
+
+// outcome: queued, sent, requeued, expired, dropped (answered meanwhile, handed off or opted out)
+export const responseFollowUpsTotal = new client.Counter({
+  name: 'whatsapp_response_follow_ups_total',
+  help: 'Follow-up replies for turns the response API could not answer, by outcome',
+  labelNames: ['outcome'] as const,
+  registers: [register],
+});
+
+export const graphApiDuration = new client.Histogram({
+  name: 'whatsapp_graph_api_duration_seconds',
+  help: 'Latency of Graph API calls, by operation and outcome',
+  labelNames: ['operation', 'outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+  registers: [register],
+});
+
+// code: Graph error code when Meta returned one, otherwise http_<status>, timeout or network
+export const graphApiErrorsTotal = new client.Counter({
+  name: 'whatsapp_graph_api_errors_total',
+  help: 'Failed Graph API calls, by operation and error code',
+  labelNames: ['operation', 'code'] as const,
+  registers: [register],
+});
+
+// Graph API calls retried after a throttling or transient error, by operation and error kind
+export const graphApiRetriesTotal = new client.Counter({
+  name: 'whatsapp_graph_api_retries_total',
+  help: 'Graph API calls retried, by operation and error kind',
+  labelNames: ['operation', 'kind'] as const,
+  registers: [register],
+});
+
+// Time sends waited for the per-phone-number rate limit
+export const graphApiThrottleWait = new client.Histogram({
+  name: 'whatsapp_graph_api_throttle_wait_seconds',
+  help: 'Time Graph API sends waited for the per-phone-number rate limit',
+  buckets: [0, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5],
+  registers: [register],
+});
+
+// Stages of answering an inbound message: media_download, context_build, reply_send, total
+export const messageStageDuration = new client.Histogram({
+  name: 'whatsapp_message_stage_duration_seconds',
+  help: 'Time spent per stage of processing an inbound message',
+  labelNames: ['stage'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60],
+  registers: [register],
+});
+
+export const dbPoolConnections = new client.Gauge({
+  name: 'whatsapp_db_pool_connections',
+  help: 'Database pool clients (total, idle) and queued requests waiting for one (waiting)',
+  labelNames: ['state'] as const,
+  registers: [register],
+  collect() {
+    this.set({ state: 'total' }, pool?.totalCount ?? 0);
+    this.set({ state: 'idle' }, pool?.idleCount ?? 0);
+    this.set({ state: 'waiting' }, pool?.waitingCount ?? 0);
+  },
+});
+
+// Updated from the webhook_events table when metrics are scraped
+export const webhookQueueDepth = new client.Gauge({
+  name: 'whatsapp_webhook_queue_depth',
+  help: 'Queued webhook events, by status (pending, processing, dead_letter)',
+  labelNames: ['status'] as const,
+  registers: [register],
+});
+
+// Background processing tasks running right now (in-process webhooks, queued webhook events)
+export const inFlightTasks = new client.Gauge({
+  name: 'whatsapp_in_flight_tasks',
+  help: 'Background processing tasks in flight, by kind',
+  labelNames: ['kind'] as const,
+  registers: [register],
+});
+
+// Tasks still running when the shutdown drain timeout expired
+export const shutdownAbandonedTasksTotal = new client.Counter({
+  name: 'whatsapp_shutdown_abandoned_tasks_total',
+  help: 'Background processing tasks abandoned at shutdown, by kind',
+  labelNames: ['kind'] as const,
+  registers: [register],
+});
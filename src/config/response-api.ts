@@ -0,0 +1,9 @@
+// lightning-response service base URL
+const DEFAULT_RESPONSE_API_BASE_URL = 'http://localhost:8030';
+
+/**
+ * Response API base URL (RESPONSE_API_BASE_URL)
+ */
+export function getResponseApiBaseUrl(): string {
+  return (process.env.RESPONSE_API_BASE_URL || DEFAULT_RESPONSE_API_BASE_URL).replace(/\/+$/, '');
+}
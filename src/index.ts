@@ -1,118 +1,77 @@
-import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
-import { initializeDatabase, closeDatabaseConnection } from './config/database';
-import logger from './config/logger';
-import { verifyWebhookSignature } from './utils/webhook';
-import { handleWebhookVerify, handleWebhookMessage } from './services/webhook-handler';
 
-// Load environment variables
+// Load environment variables before any module reads its configuration
 dotenv.config();
 
-const app = express();
-const PORT = process.env.PORT || 3000;
+import http from 'http';
+import { initializeDatabase, closeDatabaseConnection } from './config/database';
+import logger from './config/logger';
+import app from './app';
+import { startWebhookWorker, stopWebhookWorker } from './services/webhook-queue';
+import { startHandoffSweeper, stopHandoffSweeper } from './services/handoff';
+import { startFollowUpWorker, stopFollowUpWorker } from './services/follow-up-worker';
+import { startReceiptPurger, stopReceiptPurger } from './services/idempotency';
+import { isShuttingDown, markShuttingDown } from './services/health';
+import { drainInFlight } from './services/in-flight';
+import { flushAggregatedReplies, startAggregatedReplySweeper, stopAggregatedReplySweeper } from './services/message-aggregation';
+import { answerAggregatedReply } from './services/webhook-handler';
 
-// Middleware to parse JSON and capture raw body for signature verification
-app.use(
-  express.json({
-    verify: (req: Request, res: Response, buf: Buffer) => {
-      try {
-        (req as any).rawBody = buf.toString('utf8');
-      } catch (err) {
-        (req as any).rawBody = '';
-        logger.error('Error capturing raw body:', err);
-      }
-    },
-  })
-);
-
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'OK',
-    message: 'WhatsApp Webhook Service is running',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-  });
-});
-
-// Webhook verification endpoint (GET request from WhatsApp)
-app.get('/webhook', async (req: Request, res: Response) => {
-  const mode = req.query['hub.mode'] as string;
-  const verifyToken = req.query['hub.verify_token'] as string;
-  const challenge = req.query['hub.challenge'] as string;
-
-  logger.info('GET /webhook - Verification attempt:', {
-    mode,
-    token: verifyToken ? 'present' : 'missing',
-    challenge: challenge ? 'present' : 'missing',
-  });
-
-  if (mode !== 'subscribe') {
-    logger.warn('Webhook verification failed: mode is not "subscribe"');
-    return res.status(403).send('Forbidden');
-  }
+const PORT = process.env.PORT || 3000;
+// How long shutdown waits for open requests and in-flight processing before abandoning them
+// (keep below the platform's kill timeout, e.g. Kubernetes terminationGracePeriodSeconds)
+const SHUTDOWN_DRAIN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS || '25000', 10);
+
+let server: http.Server | null = null;
+
+/**
+ * Stop accepting connections and wait (up to timeoutMs) for open requests to complete
+ */
+async function closeServer(httpServer: http.Server, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  httpServer.closeIdleConnections();
+
+  await Promise.race([closed, new Promise<void>((resolve) => (timer = setTimeout(resolve, timeoutMs)))]);
+  clearTimeout(timer);
+  httpServer.closeAllConnections();
+}
 
-  try {
-    const challengeResponse = await handleWebhookVerify(verifyToken, challenge);
-    logger.info('Webhook verified successfully');
-    res.status(200).send(challengeResponse);
-  } catch (error: any) {
-    logger.warn('Webhook verification failed:', error.message);
-    res.status(403).send('Forbidden');
+// Graceful shutdown handler
+const shutdown = async (signal: string) => {
+  if (isShuttingDown()) {
+    logger.warn(`${signal} received, shutdown already in progress`);
+    return;
   }
-});
-
-// Webhook message handler (POST request from WhatsApp)
-app.post('/webhook', async (req: Request, res: Response) => {
-  const payload = req.body;
 
-  logger.info('POST /webhook - Received:', JSON.stringify(payload, null, 2));
-
-  // Verify webhook signature (recommended for production)
-  const signature = req.get('x-hub-signature-256');
-  const appSecret = process.env.FACEBOOK_APP_SECRET;
+  logger.info(`${signal} received, closing server gracefully...`);
 
-  if (signature && appSecret) {
-    const rawBody = (req as any).rawBody || JSON.stringify(payload);
-    const isValid = verifyWebhookSignature(rawBody, signature, appSecret);
+  // Readiness fails from here on, so no new traffic is routed here while webhooks drain
+  markShuttingDown();
 
-    if (!isValid) {
-      logger.error('Invalid webhook signature');
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid signature',
-      });
+  try {
+    const deadline = Date.now() + SHUTDOWN_DRAIN_TIMEOUT_MS;
+
+    stopHandoffSweeper();
+    stopFollowUpWorker();
+    stopAggregatedReplySweeper();
+    stopWebhookWorker();
+    stopReceiptPurger();
+
+    // Requests still open may start in-process webhook processing, so they finish first
+    if (server) {
+      await closeServer(server, deadline - Date.now());
+      logger.info('HTTP server closed');
     }
-  } else if (signature && !appSecret) {
-    logger.warn('Webhook signature present but FACEBOOK_APP_SECRET not configured');
-  }
-
-  // Verify it's a WhatsApp webhook
-  if (payload.object !== 'whatsapp_business_account') {
-    logger.warn('POST /webhook - Not a WhatsApp webhook event. Body object:', payload.object);
-    return res.status(200).json({
-      success: true,
-      message: 'Not a WhatsApp webhook event',
-    });
-  }
 
-  // Process webhook asynchronously
-  handleWebhookMessage(payload).catch((error) => {
-    logger.error('Error processing webhook message:', error);
-  });
+    // Bursts still waiting for their quiet period are answered now rather than dropped
+    flushAggregatedReplies();
 
-  // Respond immediately to WhatsApp
-  res.status(200).json({
-    success: true,
-    message: 'Webhook received',
-  });
-});
-
-// Graceful shutdown handler
-const shutdown = async (signal: string) => {
-  logger.info(`${signal} received, closing server gracefully...`);
+    const { drained, abandoned } = await drainInFlight(deadline - Date.now());
+    if (!drained) {
+      // Queued webhook events are reclaimed by another worker once their lock expires
+      logger.error(`Drain timeout of ${SHUTDOWN_DRAIN_TIMEOUT_MS}ms reached, abandoning ${abandoned.length} task(s)`);
+    }
 
-  try {
     await closeDatabaseConnection();
     logger.info('All connections closed successfully');
     process.exit(0);
@@ -126,11 +85,27 @@ const shutdown = async (signal: string) => {
 async function startServer() {
   try {
     // Initialize database connection
-    await initializeDatabase();
+    const pool = await initializeDatabase();
     logger.info('Database connection established');
 
+    // Process queued webhook events in the background
+    if (pool) {
+      startWebhookWorker();
+      // Forget handled message IDs once Meta can no longer redeliver them
+      startReceiptPurger();
+    }
+
+    // Return idle human handoffs to the bot
+    startHandoffSweeper();
+
+    // Answer turns the response API could not answer once it recovers
+    startFollowUpWorker();
+
+    // Send aggregated replies whose timer was lost with a crashed or restarted instance
+    startAggregatedReplySweeper(answerAggregatedReply);
+
     // Start server
-    const server = app.listen(PORT, () => {
+    server = app.listen(PORT, () => {
       logger.info(`🚀 WhatsApp Webhook Service running on port ${PORT}`);
       logger.info(`📡 Webhook endpoint: http://localhost:${PORT}/webhook`);
       logger.info(`❤️  Health check: http://localhost:${PORT}/health`);
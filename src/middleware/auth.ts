@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { getRepositories } from '../repositories';
+
+/**
+ * Extract API key from `Authorization: Bearer <key>` or `x-api-key` header
+ */
+function extractApiKey(req: Request): string | undefined {
+  const authorization = req.get('authorization');
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.get('x-api-key') || undefined;
+}
+
+/**
+ * Constant-time comparison of a provided key with the expected one
+ */
+function keysMatch(providedKey: string | undefined, expectedKey: string): boolean {
+  const providedBuf = Buffer.from(providedKey || '');
+  const expectedBuf = Buffer.from(expectedKey);
+  return providedBuf.length === expectedBuf.length && crypto.timingSafeEqual(providedBuf, expectedBuf);
+}
+
+function rejectUnauthorized(req: Request, res: Response) {
+  logger.warn(`${req.method} ${req.originalUrl} rejected: invalid API key`);
+  return res.status(401).json({
+    success: false,
+    error: 'Unauthorized',
+  });
+}
+
+/**
+ * Require the service API key (ADMIN_API_KEY) for internal/admin endpoints
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const expectedKey = process.env.ADMIN_API_KEY;
+
+  if (!expectedKey) {
+    logger.warn(`${req.method} ${req.originalUrl} rejected: ADMIN_API_KEY not configured`);
+    return res.status(503).json({
+      success: false,
+      error: 'API key authentication not configured',
+    });
+  }
+
+  if (!keysMatch(extractApiKey(req), expectedKey)) {
+    return rejectUnauthorized(req, res);
+  }
+
+  next();
+}
+
+/**
+ * Require the service API key (ADMIN_API_KEY) or the API key of the chatbot the requested resource
+ * belongs to - the key the response API receives with each turn
+ */
+export function requireChatbotOrApiKey(chatbotIdOf: (req: Request) => string | undefined) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const providedKey = extractApiKey(req);
+    if (!providedKey) {
+      return rejectUnauthorized(req, res);
+    }
+
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (adminKey && keysMatch(providedKey, adminKey)) {
+      return next();
+    }
+
+    const chatbotId = chatbotIdOf(req);
+    try {
+      const { accounts } = await getRepositories();
+      const chatbotKey = chatbotId ? await accounts.findChatbotApiKey(chatbotId) : null;
+      if (!chatbotKey || !keysMatch(providedKey, chatbotKey)) {
+        return rejectUnauthorized(req, res);
+      }
+    } catch (error) {
+      logger.error(`${req.method} ${req.originalUrl}: failed to check chatbot API key:`, error);
+      return res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+
+    next();
+  };
+}
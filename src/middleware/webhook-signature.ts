@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { webhookRejectedTotal } from '../config/metrics';
+import { verifyWebhookSignature } from '../utils/webhook';
+import { findAppSecretsForWebhook } from '../services/accounts';
+
+type RejectionReason = 'missing_raw_body' | 'missing_signature' | 'missing_secret' | 'ambiguous_secret' | 'invalid_signature';
+
+/**
+ * strict: every webhook must carry a valid x-hub-signature-256 for its account's app secret.
+ * permissive (default): unsigned webhooks and webhooks without a configured secret are accepted,
+ * but a present signature must still be valid.
+ */
+function isStrictMode(): boolean {
+  return (process.env.WEBHOOK_SIGNATURE_MODE || 'permissive').toLowerCase() === 'strict';
+}
+
+function reject(res: Response, reason: RejectionReason, message: string) {
+  webhookRejectedTotal.inc({ reason });
+  logger.error(`Webhook rejected (${reason}): ${message}`);
+  return res.status(401).json({
+    success: false,
+    error: 'Invalid signature',
+  });
+}
+
+/**
+ * Request with the raw body captured by the JSON parser (see app.ts)
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// The payload is not validated yet: anything missing or of the wrong shape reads as empty
+function field(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+function items(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Phone number IDs and WABA IDs a webhook payload refers to
+ */
+function collectAccountIdentifiers(payload: unknown): { phoneNumberIds: string[]; wabaIds: string[] } {
+  const phoneNumberIds = new Set<string>();
+  const wabaIds = new Set<string>();
+
+  for (const entry of items(field(payload, 'entry'))) {
+    const wabaId = field(entry, 'id');
+    if (typeof wabaId === 'string') {
+      wabaIds.add(wabaId);
+    }
+    for (const change of items(field(entry, 'changes'))) {
+      const phoneNumberId = field(field(field(change, 'value'), 'metadata'), 'phone_number_id');
+      if (typeof phoneNumberId === 'string') {
+        phoneNumberIds.add(phoneNumberId);
+      }
+    }
+  }
+
+  return { phoneNumberIds: [...phoneNumberIds], wabaIds: [...wabaIds] };
+}
+
+/**
+ * Resolve the app secret(s) the payload must be signed with: each referenced account's own
+ * app_secret, or FACEBOOK_APP_SECRET for accounts without one (and for unknown accounts)
+ */
+async function resolveExpectedSecrets(payload: unknown): Promise<string[]> {
+  const globalSecret = process.env.FACEBOOK_APP_SECRET || null;
+  const { phoneNumberIds, wabaIds } = collectAccountIdentifiers(payload);
+
+  const accountSecrets = await findAppSecretsForWebhook(phoneNumberIds, wabaIds);
+  const secrets = accountSecrets.length > 0
+    ? accountSecrets.map((secret) => secret || globalSecret)
+    : [globalSecret];
+
+  return [...new Set(secrets.filter((secret): secret is string => !!secret))];
+}
+
+/**
+ * Verify the x-hub-signature-256 header of POST /webhook against the exact raw request bytes
+ */
+export async function verifyWebhookRequest(req: Request, res: Response, next: NextFunction) {
+  const strict = isStrictMode();
+  const signature = req.get('x-hub-signature-256');
+  const { rawBody } = req as RawBodyRequest;
+
+  if (!signature) {
+    if (strict) {
+      return reject(res, 'missing_signature', 'x-hub-signature-256 header missing');
+    }
+    return next();
+  }
+
+  // Never fall back to a re-serialized body - it would not match the signed bytes
+  if (!rawBody || rawBody.length === 0) {
+    return reject(res, 'missing_raw_body', 'raw request body unavailable');
+  }
+
+  let secrets: string[];
+  try {
+    secrets = await resolveExpectedSecrets(req.body);
+  } catch (error) {
+    logger.error('Error resolving webhook app secret:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify signature',
+    });
+  }
+
+  if (secrets.length === 0) {
+    if (strict) {
+      return reject(res, 'missing_secret', 'no app secret configured for this webhook');
+    }
+    logger.warn('Webhook signature present but no app secret configured');
+    return next();
+  }
+
+  // A single Meta app signs each delivery, so all referenced accounts must share one secret
+  if (secrets.length > 1) {
+    return reject(res, 'ambiguous_secret', 'payload refers to accounts with different app secrets');
+  }
+
+  if (!verifyWebhookSignature(rawBody, signature, secrets[0])) {
+    return reject(res, 'invalid_signature', 'signature does not match');
+  }
+
+  next();
+}
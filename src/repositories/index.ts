@@ -0,0 +1,46 @@
+import { Pool } from 'pg';
+import { getDbClient } from '../config/database';
+import { getEnvAccount } from '../services/accounts';
+import { createInMemoryRepositories } from './memory';
+import { createPostgresRepositories } from './postgres';
+import { Repositories } from './types';
+
+export * from './types';
+export { createInMemoryRepositories, InMemoryAccount } from './memory';
+export { createPostgresRepositories } from './postgres';
+
+let override: Repositories | null = null;
+let postgres: { pool: Pool; repositories: Repositories } | null = null;
+let memory: Repositories | null = null;
+
+/**
+ * Storage for accounts, contacts and messages: Postgres when DATABASE_URL is configured, otherwise
+ * in memory with the single account from environment variables
+ */
+export async function getRepositories(): Promise<Repositories> {
+  if (override) {
+    return override;
+  }
+
+  const pool = await getDbClient();
+  if (pool) {
+    if (postgres?.pool !== pool) {
+      postgres = { pool, repositories: createPostgresRepositories(pool) };
+    }
+    return postgres.repositories;
+  }
+
+  if (!memory) {
+    memory = createInMemoryRepositories([
+      { ...getEnvAccount(), api_key: process.env.CHATBOT_API_KEY },
+    ]);
+  }
+  return memory;
+}
+
+/**
+ * Override the storage backend (e.g. in-memory repositories in tests); null restores the default
+ */
+export function setRepositories(repositories: Repositories | null): void {
+  override = repositories;
+}
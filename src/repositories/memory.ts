@@ -0,0 +1,271 @@
+import { createId } from '@paralleldrive/cuid2';
+import { WhatsAppAccount } from '../services/accounts';
+import { ContactConsent } from '../services/consent';
+import {
+  AccountRepository,
+  ContactRepository,
+  InboundContactParams,
+  MessageRepository,
+  NewMessage,
+  Repositories,
+  StoredMessage,
+} from './types';
+
+// Oldest messages of a conversation are dropped beyond this (the process keeps everything in memory)
+const MAX_MESSAGES_PER_CONVERSATION = 500;
+
+/**
+ * Account held in memory, with the secrets the database would store alongside it
+ */
+export interface InMemoryAccount extends WhatsAppAccount {
+  verify_token?: string;
+  app_secret?: string;
+  // Chatbot API key sent to the response API
+  api_key?: string;
+}
+
+// The fields of whatsappContacts.metadata read back here
+interface ContactMetadata {
+  last_seen_at?: string;
+  last_inbound_message_id?: string;
+  opt_in_status?: boolean;
+  opt_in_status_updated_at?: string;
+  opt_in_source?: string;
+  [key: string]: unknown;
+}
+
+interface InMemoryContact {
+  id: string;
+  chatbot_id: string;
+  phone_number: string;
+  display_name: string | null;
+  metadata: ContactMetadata;
+}
+
+function publicAccount(account: InMemoryAccount): WhatsAppAccount {
+  const { id, chatbot_id, phone_number_id, access_token, waba_id, phone_number } = account;
+  return { id, chatbot_id, phone_number_id, access_token, waba_id, phone_number };
+}
+
+export class InMemoryAccountRepository implements AccountRepository {
+  constructor(private readonly accounts: InMemoryAccount[]) {}
+
+  async findActiveByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount[]> {
+    return this.accounts.filter((account) => account.phone_number_id === phoneNumberId).map(publicAccount);
+  }
+
+  async findActiveByChatbotId(chatbotId: string): Promise<WhatsAppAccount | null> {
+    const account = this.accounts.find((item) => item.chatbot_id === chatbotId);
+    return account ? publicAccount(account) : null;
+  }
+
+  async findActiveByVerifyToken(
+    verifyToken: string
+  ): Promise<Pick<WhatsAppAccount, 'id' | 'chatbot_id' | 'phone_number_id'> | null> {
+    const account = this.accounts.find((item) => item.verify_token && item.verify_token === verifyToken);
+    return account ? { id: account.id, chatbot_id: account.chatbot_id, phone_number_id: account.phone_number_id } : null;
+  }
+
+  async findAppSecrets(phoneNumberIds: string[], wabaIds: string[]): Promise<Array<string | null>> {
+    return this.accounts
+      .filter((account) => phoneNumberIds.includes(account.phone_number_id) || wabaIds.includes(account.waba_id))
+      .map((account) => account.app_secret || null);
+  }
+
+  async findChatbotApiKey(chatbotId: string): Promise<string | null> {
+    return this.accounts.find((account) => account.chatbot_id === chatbotId)?.api_key || null;
+  }
+}
+
+export class InMemoryContactRepository implements ContactRepository {
+  private readonly contacts = new Map<string, InMemoryContact>();
+
+  private key(chatbotId: string, phoneNumber: string): string {
+    return `${chatbotId}:${phoneNumber}`;
+  }
+
+  private getOrCreate(
+    account: WhatsAppAccount,
+    phoneNumber: string,
+    displayName: string | null,
+    metadata: ContactMetadata
+  ): InMemoryContact {
+    const key = this.key(account.chatbot_id, phoneNumber);
+    let contact = this.contacts.get(key);
+    if (!contact) {
+      contact = {
+        id: createId(),
+        chatbot_id: account.chatbot_id,
+        phone_number: phoneNumber,
+        display_name: displayName,
+        metadata: {
+          wa_id: phoneNumber,
+          waba_id: account.waba_id,
+          phone_number_id: account.phone_number_id,
+          display_phone_number: account.phone_number || '',
+          opt_in_status: true,
+          ...metadata,
+        },
+      };
+      this.contacts.set(key, contact);
+    }
+    return contact;
+  }
+
+  async upsertInbound(account: WhatsAppAccount, params: InboundContactParams): Promise<string> {
+    const { phoneNumber, displayName, timestamp, messageId } = params;
+    const contact = this.getOrCreate(account, phoneNumber, displayName, {
+      profile: { name: displayName },
+      first_seen_at: timestamp.toISOString(),
+      source: 'organic',
+    });
+
+    contact.display_name = displayName;
+    contact.metadata.last_seen_at = timestamp.toISOString();
+    contact.metadata.last_inbound_message_id = messageId;
+    return contact.id;
+  }
+
+  async ensure(account: WhatsAppAccount, phoneNumber: string): Promise<string> {
+    return this.getOrCreate(account, phoneNumber, null, { source: 'outbound' }).id;
+  }
+
+  async getLastInboundAt(chatbotId: string, phoneNumber: string): Promise<Date | null> {
+    const lastSeenAt = this.contacts.get(this.key(chatbotId, phoneNumber))?.metadata.last_seen_at;
+    return lastSeenAt ? new Date(lastSeenAt) : null;
+  }
+
+  async getConsent(chatbotId: string, phoneNumber: string): Promise<ContactConsent> {
+    const metadata = this.contacts.get(this.key(chatbotId, phoneNumber))?.metadata;
+    return {
+      optedIn: metadata?.opt_in_status !== false,
+      updatedAt: metadata?.opt_in_status_updated_at || null,
+      source: metadata?.opt_in_source || null,
+    };
+  }
+
+  async setConsent(contactId: string, consent: { optedIn: boolean; updatedAt: Date; source: string }): Promise<void> {
+    for (const contact of this.contacts.values()) {
+      if (contact.id === contactId) {
+        contact.metadata.opt_in_status = consent.optedIn;
+        contact.metadata.opt_in_status_updated_at = consent.updatedAt.toISOString();
+        contact.metadata.opt_in_source = consent.source;
+        return;
+      }
+    }
+  }
+}
+
+export class InMemoryMessageRepository implements MessageRepository {
+  // Per conversation (chatbotId:uniqueConvId), in insertion order
+  private readonly conversations = new Map<string, StoredMessage[]>();
+
+  private conversation(chatbotId: string, uniqueConvId: string): StoredMessage[] {
+    return this.conversations.get(`${chatbotId}:${uniqueConvId}`) || [];
+  }
+
+  // Same order as created_at in the database: the time each message was stored
+  private sorted(chatbotId: string, uniqueConvId: string): StoredMessage[] {
+    return [...this.conversation(chatbotId, uniqueConvId)];
+  }
+
+  private findAssistantMessage(chatbotId: string, waMessageId: string): StoredMessage | undefined {
+    for (const messages of this.conversations.values()) {
+      const message = messages.find(
+        (item) =>
+          item.chatbot_id === chatbotId && item.type === 'assistant' && item.channel_message_metadata.waMessageId === waMessageId
+      );
+      if (message) return message;
+    }
+    return undefined;
+  }
+
+  async insert(message: NewMessage): Promise<string> {
+    const key = `${message.chatbotId}:${message.uniqueConvId}`;
+    const messages = this.conversations.get(key) || [];
+    const id = createId();
+
+    messages.push({
+      id,
+      chatbot_id: message.chatbotId,
+      type: message.type,
+      content: message.content,
+      unique_conv_id: message.uniqueConvId,
+      citations: message.citations || [],
+      channel_message_metadata: { ...message.metadata },
+      feedback: 0,
+      feedback_comment: null,
+      created_at: new Date(),
+    });
+    if (messages.length > MAX_MESSAGES_PER_CONVERSATION) {
+      messages.splice(0, messages.length - MAX_MESSAGES_PER_CONVERSATION);
+    }
+    this.conversations.set(key, messages);
+    return id;
+  }
+
+  async insertInbound(message: NewMessage & { waMessageId: string }): Promise<boolean> {
+    const duplicate = this.conversation(message.chatbotId, message.uniqueConvId).some(
+      (item) => item.type === message.type && item.channel_message_metadata.waMessageId === message.waMessageId
+    );
+    if (duplicate) return false;
+
+    await this.insert(message);
+    return true;
+  }
+
+  async listRecent(
+    chatbotId: string,
+    uniqueConvId: string,
+    options: { limit: number; includeAgentMessages: boolean }
+  ): Promise<StoredMessage[]> {
+    return this.sorted(chatbotId, uniqueConvId)
+      .filter((message) => !message.channel_message_metadata.feedbackFlow)
+      .filter((message) => options.includeAgentMessages || message.type !== 'agent')
+      .reverse()
+      .slice(0, options.limit);
+  }
+
+  async listPendingUserTurn(chatbotId: string, uniqueConvId: string): Promise<StoredMessage[]> {
+    const messages = this.sorted(chatbotId, uniqueConvId);
+    // By position: a reply stored within the same millisecond as a customer message still follows it
+    let lastReply = messages.length - 1;
+    while (lastReply >= 0 && messages[lastReply].type === 'user') {
+      lastReply--;
+    }
+    return messages
+      .slice(lastReply + 1)
+      .filter((message) => !message.channel_message_metadata.feedbackFlow);
+  }
+
+  async findLatestOutbound(chatbotId: string, uniqueConvId: string): Promise<StoredMessage | null> {
+    const outbound = this.sorted(chatbotId, uniqueConvId).filter((message) => message.type !== 'user');
+    return outbound[outbound.length - 1] || null;
+  }
+
+  async setFeedback(chatbotId: string, waMessageId: string, feedback: number): Promise<boolean> {
+    const message = this.findAssistantMessage(chatbotId, waMessageId);
+    if (!message) return false;
+    message.feedback = feedback;
+    return true;
+  }
+
+  async setFeedbackComment(chatbotId: string, waMessageId: string, comment: string): Promise<void> {
+    const message = this.findAssistantMessage(chatbotId, waMessageId);
+    if (message) {
+      message.feedback_comment = comment;
+    }
+  }
+}
+
+/**
+ * Repositories kept in process memory: single-account mode without a database, and tests
+ */
+export function createInMemoryRepositories(accounts: InMemoryAccount[]): Repositories {
+  return {
+    name: 'memory',
+    accounts: new InMemoryAccountRepository(accounts),
+    contacts: new InMemoryContactRepository(),
+    messages: new InMemoryMessageRepository(),
+  };
+}
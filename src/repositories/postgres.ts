@@ -0,0 +1,397 @@
+import { Pool } from 'pg';
+import { and, asc, desc, eq, gt, inArray, isNull, max, ne, or, sql, SQL } from 'drizzle-orm';
+import { drizzle, NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { createId } from '@paralleldrive/cuid2';
+import { chatBots, messages, whatsappAccounts, whatsappContacts } from '../../schema';
+import { WhatsAppAccount } from '../services/accounts';
+import { ContactConsent } from '../services/consent';
+import { decryptSecret, hashVerifyToken } from '../utils/secrets';
+import {
+  AccountRepository,
+  ContactRepository,
+  InboundContactParams,
+  MessageMetadata,
+  MessageRepository,
+  NewMessage,
+  Repositories,
+  StoredMessage,
+} from './types';
+
+const ACCOUNT_COLUMNS = {
+  id: whatsappAccounts.id,
+  chatbot_id: whatsappAccounts.chatbotId,
+  phone_number_id: whatsappAccounts.phoneNumberId,
+  access_token: whatsappAccounts.accessToken,
+  waba_id: whatsappAccounts.wabaId,
+  phone_number: whatsappAccounts.phoneNumber,
+};
+
+// Text value of a top-level field of a json column (field names are constants, never user input)
+function jsonField(column: AnyPgColumn, field: string): SQL<string | null> {
+  return sql<string | null>`${column}->>${sql.raw(`'${field}'`)}`;
+}
+
+// Access tokens are stored encrypted - decrypt right after reading
+function toAccount(row: WhatsAppAccount): WhatsAppAccount {
+  return { ...row, access_token: decryptSecret(row.access_token) };
+}
+
+// channel_message_metadata is nullable; unique_conv_id and created_at are always set on WhatsApp messages
+function toMessage(row: typeof messages.$inferSelect): StoredMessage {
+  return {
+    id: row.id,
+    chatbot_id: row.chatbotId,
+    type: row.type,
+    content: row.content,
+    unique_conv_id: row.uniqueConvId ?? '',
+    citations: row.citations || [],
+    channel_message_metadata: (row.channelMessageMetadata || {}) as MessageMetadata,
+    feedback: row.feedback,
+    feedback_comment: row.feedbackComment,
+    created_at: row.createdAt ?? new Date(),
+  };
+}
+
+/**
+ * whatsapp_accounts (and the chatbot table for API keys)
+ */
+export class PostgresAccountRepository implements AccountRepository {
+  constructor(private readonly db: NodePgDatabase) {}
+
+  async findActiveByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount[]> {
+    const rows = await this.db
+      .select(ACCOUNT_COLUMNS)
+      .from(whatsappAccounts)
+      .where(and(eq(whatsappAccounts.phoneNumberId, phoneNumberId), eq(whatsappAccounts.status, 'active')));
+    return rows.map(toAccount);
+  }
+
+  async findActiveByChatbotId(chatbotId: string): Promise<WhatsAppAccount | null> {
+    const [row] = await this.db
+      .select(ACCOUNT_COLUMNS)
+      .from(whatsappAccounts)
+      .where(and(eq(whatsappAccounts.chatbotId, chatbotId), eq(whatsappAccounts.status, 'active')))
+      .limit(1);
+    return row ? toAccount(row) : null;
+  }
+
+  // Compares hashes; accounts not yet migrated still match on the legacy plaintext column
+  async findActiveByVerifyToken(
+    verifyToken: string
+  ): Promise<Pick<WhatsAppAccount, 'id' | 'chatbot_id' | 'phone_number_id'> | null> {
+    const [row] = await this.db
+      .select({
+        id: whatsappAccounts.id,
+        chatbot_id: whatsappAccounts.chatbotId,
+        phone_number_id: whatsappAccounts.phoneNumberId,
+      })
+      .from(whatsappAccounts)
+      .where(
+        and(
+          eq(whatsappAccounts.status, 'active'),
+          or(
+            eq(whatsappAccounts.verifyTokenHash, hashVerifyToken(verifyToken)),
+            and(isNull(whatsappAccounts.verifyTokenHash), eq(whatsappAccounts.verifyToken, verifyToken))
+          )
+        )
+      )
+      .limit(1);
+    return row || null;
+  }
+
+  async findAppSecrets(phoneNumberIds: string[], wabaIds: string[]): Promise<Array<string | null>> {
+    const matches = [
+      phoneNumberIds.length > 0 ? inArray(whatsappAccounts.phoneNumberId, phoneNumberIds) : undefined,
+      wabaIds.length > 0 ? inArray(whatsappAccounts.wabaId, wabaIds) : undefined,
+    ].filter((condition) => condition !== undefined);
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({ appSecret: whatsappAccounts.appSecret })
+      .from(whatsappAccounts)
+      .where(and(eq(whatsappAccounts.status, 'active'), or(...matches)));
+    return rows.map((row) => (row.appSecret ? decryptSecret(row.appSecret) : null));
+  }
+
+  async findChatbotApiKey(chatbotId: string): Promise<string | null> {
+    const [row] = await this.db
+      .select({ apiKey: chatBots.apiKey })
+      .from(chatBots)
+      .where(eq(chatBots.id, chatbotId))
+      .limit(1);
+    return row?.apiKey || null;
+  }
+}
+
+/**
+ * whatsapp_contacts
+ */
+export class PostgresContactRepository implements ContactRepository {
+  constructor(private readonly db: NodePgDatabase) {}
+
+  private async findId(chatbotId: string, phoneNumber: string): Promise<string | null> {
+    const [row] = await this.db
+      .select({ id: whatsappContacts.id })
+      .from(whatsappContacts)
+      .where(and(eq(whatsappContacts.chatbotId, chatbotId), eq(whatsappContacts.phoneNumber, phoneNumber)))
+      .limit(1);
+    return row?.id || null;
+  }
+
+  private async insert(
+    account: WhatsAppAccount,
+    phoneNumber: string,
+    displayName: string | null,
+    metadata: Record<string, unknown>
+  ): Promise<string> {
+    const [row] = await this.db
+      .insert(whatsappContacts)
+      .values({
+        id: createId(),
+        chatbotId: account.chatbot_id,
+        phoneNumber,
+        displayName,
+        userMetadata: {
+          wa_id: phoneNumber,
+          waba_id: account.waba_id,
+          phone_number_id: account.phone_number_id,
+          display_phone_number: account.phone_number || '',
+          opt_in_status: true,
+          ...metadata,
+        },
+      })
+      .onConflictDoUpdate({
+        target: [whatsappContacts.chatbotId, whatsappContacts.phoneNumber],
+        set: { updatedAt: sql`NOW()` },
+      })
+      .returning({ id: whatsappContacts.id });
+    return row.id;
+  }
+
+  async upsertInbound(account: WhatsAppAccount, params: InboundContactParams): Promise<string> {
+    const { phoneNumber, displayName, timestamp, messageId } = params;
+
+    const contactId = await this.findId(account.chatbot_id, phoneNumber);
+    if (!contactId) {
+      return this.insert(account, phoneNumber, displayName, {
+        profile: { name: displayName },
+        first_seen_at: timestamp.toISOString(),
+        last_seen_at: timestamp.toISOString(),
+        last_inbound_message_id: messageId,
+        source: 'organic',
+      });
+    }
+
+    // Cast json to jsonb for jsonb_set operation, then cast back to json
+    await this.db
+      .update(whatsappContacts)
+      .set({
+        displayName,
+        userMetadata: sql`(
+          jsonb_set(
+            jsonb_set(
+              COALESCE(${whatsappContacts.userMetadata}::jsonb, '{}'::jsonb),
+              '{last_seen_at}',
+              to_jsonb(${timestamp.toISOString()}::text)
+            ),
+            '{last_inbound_message_id}',
+            to_jsonb(${messageId}::text)
+          )
+        )::json`,
+        updatedAt: sql`NOW()`,
+      })
+      .where(eq(whatsappContacts.id, contactId));
+    return contactId;
+  }
+
+  async ensure(account: WhatsAppAccount, phoneNumber: string): Promise<string> {
+    const contactId = await this.findId(account.chatbot_id, phoneNumber);
+    return contactId || this.insert(account, phoneNumber, null, { source: 'outbound' });
+  }
+
+  async getLastInboundAt(chatbotId: string, phoneNumber: string): Promise<Date | null> {
+    const [row] = await this.db
+      .select({ lastSeenAt: jsonField(whatsappContacts.userMetadata, 'last_seen_at') })
+      .from(whatsappContacts)
+      .where(and(eq(whatsappContacts.chatbotId, chatbotId), eq(whatsappContacts.phoneNumber, phoneNumber)))
+      .limit(1);
+
+    return row?.lastSeenAt ? new Date(row.lastSeenAt) : null;
+  }
+
+  async getConsent(chatbotId: string, phoneNumber: string): Promise<ContactConsent> {
+    const [row] = await this.db
+      .select({
+        optInStatus: jsonField(whatsappContacts.userMetadata, 'opt_in_status'),
+        updatedAt: jsonField(whatsappContacts.userMetadata, 'opt_in_status_updated_at'),
+        source: jsonField(whatsappContacts.userMetadata, 'opt_in_source'),
+      })
+      .from(whatsappContacts)
+      .where(and(eq(whatsappContacts.chatbotId, chatbotId), eq(whatsappContacts.phoneNumber, phoneNumber)))
+      .limit(1);
+
+    return {
+      optedIn: row?.optInStatus !== 'false',
+      updatedAt: row?.updatedAt || null,
+      source: row?.source || null,
+    };
+  }
+
+  async setConsent(contactId: string, consent: { optedIn: boolean; updatedAt: Date; source: string }): Promise<void> {
+    await this.db
+      .update(whatsappContacts)
+      .set({
+        userMetadata: sql`(
+          COALESCE(${whatsappContacts.userMetadata}::jsonb, '{}'::jsonb)
+          || jsonb_build_object(
+            'opt_in_status', ${consent.optedIn}::boolean,
+            'opt_in_status_updated_at', ${consent.updatedAt.toISOString()}::text,
+            'opt_in_source', ${consent.source}::text
+          )
+        )::json`,
+        updatedAt: sql`NOW()`,
+      })
+      .where(eq(whatsappContacts.id, contactId));
+  }
+}
+
+/**
+ * messages (WHATSAPP channel only)
+ */
+export class PostgresMessageRepository implements MessageRepository {
+  constructor(private readonly db: NodePgDatabase) {}
+
+  private conversation(chatbotId: string, uniqueConvId: string): SQL | undefined {
+    return and(
+      eq(messages.chatbotId, chatbotId),
+      eq(messages.uniqueConvId, uniqueConvId),
+      eq(messages.channel, 'WHATSAPP')
+    );
+  }
+
+  async insert(message: NewMessage): Promise<string> {
+    const id = createId();
+    await this.db.insert(messages).values({
+      id,
+      chatbotId: message.chatbotId,
+      channel: 'WHATSAPP',
+      type: message.type,
+      content: message.content,
+      uniqueConvId: message.uniqueConvId,
+      citations: message.citations || [],
+      channelMessageMetadata: message.metadata,
+    });
+    return id;
+  }
+
+  // Guarded insert: a re-claimed (previously abandoned) message may already be stored
+  async insertInbound(message: NewMessage & { waMessageId: string }): Promise<boolean> {
+    const [stored] = await this.db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(
+        and(
+          eq(messages.chatbotId, message.chatbotId),
+          eq(messages.channel, 'WHATSAPP'),
+          eq(messages.type, message.type),
+          eq(jsonField(messages.channelMessageMetadata, 'waMessageId'), message.waMessageId)
+        )
+      )
+      .limit(1);
+    if (stored) {
+      return false;
+    }
+
+    await this.insert(message);
+    return true;
+  }
+
+  async listRecent(
+    chatbotId: string,
+    uniqueConvId: string,
+    options: { limit: number; includeAgentMessages: boolean }
+  ): Promise<StoredMessage[]> {
+    // Newest first, so the limit keeps the most recent messages
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          this.conversation(chatbotId, uniqueConvId),
+          isNull(jsonField(messages.channelMessageMetadata, 'feedbackFlow')),
+          options.includeAgentMessages ? undefined : ne(messages.type, 'agent')
+        )
+      )
+      .orderBy(desc(messages.createdAt))
+      .limit(options.limit);
+    return rows.map(toMessage);
+  }
+
+  async listPendingUserTurn(chatbotId: string, uniqueConvId: string): Promise<StoredMessage[]> {
+    const lastOutboundAt = this.db
+      .select({ createdAt: max(messages.createdAt) })
+      .from(messages)
+      .where(and(this.conversation(chatbotId, uniqueConvId), ne(messages.type, 'user')));
+
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          this.conversation(chatbotId, uniqueConvId),
+          eq(messages.type, 'user'),
+          isNull(jsonField(messages.channelMessageMetadata, 'feedbackFlow')),
+          gt(messages.createdAt, sql`COALESCE((${lastOutboundAt}), '-infinity'::timestamptz)`)
+        )
+      )
+      .orderBy(asc(messages.createdAt));
+    return rows.map(toMessage);
+  }
+
+  async findLatestOutbound(chatbotId: string, uniqueConvId: string): Promise<StoredMessage | null> {
+    const [row] = await this.db
+      .select()
+      .from(messages)
+      .where(and(this.conversation(chatbotId, uniqueConvId), ne(messages.type, 'user')))
+      .orderBy(desc(messages.createdAt))
+      .limit(1);
+    return row ? toMessage(row) : null;
+  }
+
+  private assistantMessage(chatbotId: string, waMessageId: string): SQL | undefined {
+    return and(
+      eq(messages.chatbotId, chatbotId),
+      eq(messages.channel, 'WHATSAPP'),
+      eq(messages.type, 'assistant'),
+      eq(jsonField(messages.channelMessageMetadata, 'waMessageId'), waMessageId)
+    );
+  }
+
+  async setFeedback(chatbotId: string, waMessageId: string, feedback: number): Promise<boolean> {
+    const result = await this.db
+      .update(messages)
+      .set({ feedback })
+      .where(this.assistantMessage(chatbotId, waMessageId));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async setFeedbackComment(chatbotId: string, waMessageId: string, comment: string): Promise<void> {
+    await this.db
+      .update(messages)
+      .set({ feedbackComment: comment })
+      .where(this.assistantMessage(chatbotId, waMessageId));
+  }
+}
+
+export function createPostgresRepositories(pool: Pool): Repositories {
+  const db = drizzle(pool);
+  return {
+    name: 'postgres',
+    accounts: new PostgresAccountRepository(db),
+    contacts: new PostgresContactRepository(db),
+    messages: new PostgresMessageRepository(db),
+  };
+}
@@ -0,0 +1,109 @@
+import { WhatsAppAccount } from '../services/accounts';
+import { ContactConsent } from '../services/consent';
+import { InteractiveReply } from '../services/context-builder';
+import { FailedMediaReference, MediaReference } from '../services/media';
+import { ReplyOption } from '../utils/interactive-reply';
+import { InteractiveContent } from '../utils/whatsapp-payload';
+
+export type MessageSenderType = 'user' | 'assistant' | 'agent';
+
+/**
+ * channel_message_metadata of a WhatsApp message. Fields this service reads back are typed; the
+ * others (delivery status, type-specific details...) are kept for consumers of the messages table.
+ */
+export interface MessageMetadata {
+  // WhatsApp message ID (wamid)
+  waMessageId?: string;
+  phoneNumber?: string;
+  contactId?: string | null;
+  media?: MediaReference | FailedMediaReference;
+  // Option picked by the customer
+  interactiveReply?: InteractiveReply;
+  // Choices offered by an assistant message (interactive, or as text when the message had to fall back)
+  interactive?: InteractiveContent;
+  options?: ReplyOption[];
+  // Feedback prompts and answers, kept out of the AI conversation
+  feedbackFlow?: boolean;
+  feedbackCommentFor?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Row of the messages table (WhatsApp channel)
+ */
+export interface StoredMessage {
+  id: string;
+  chatbot_id: string;
+  type: MessageSenderType;
+  content: string;
+  unique_conv_id: string;
+  citations: string[];
+  channel_message_metadata: MessageMetadata;
+  feedback: number;
+  feedback_comment: string | null;
+  created_at: Date;
+}
+
+export interface NewMessage {
+  chatbotId: string;
+  type: MessageSenderType;
+  content: string;
+  uniqueConvId: string;
+  metadata: MessageMetadata;
+  citations?: string[];
+}
+
+export interface InboundContactParams {
+  phoneNumber: string;
+  displayName: string;
+  timestamp: Date;
+  messageId: string;
+}
+
+export interface AccountRepository {
+  // Multiple chatbots may share a phone number
+  findActiveByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount[]>;
+  findActiveByChatbotId(chatbotId: string): Promise<WhatsAppAccount | null>;
+  findActiveByVerifyToken(verifyToken: string): Promise<Pick<WhatsAppAccount, 'id' | 'chatbot_id' | 'phone_number_id'> | null>;
+  // App secrets of the accounts matching a phone number ID or WABA ID (null = no secret of its own)
+  findAppSecrets(phoneNumberIds: string[], wabaIds: string[]): Promise<Array<string | null>>;
+  // Key the response API identifies the chatbot with
+  findChatbotApiKey(chatbotId: string): Promise<string | null>;
+}
+
+export interface ContactRepository {
+  // Get or create the contact of an inbound message and record when it was last seen; returns the contact ID
+  upsertInbound(account: WhatsAppAccount, params: InboundContactParams): Promise<string>;
+  // Get or create a contact we message first; returns the contact ID
+  ensure(account: WhatsAppAccount, phoneNumber: string): Promise<string>;
+  getLastInboundAt(chatbotId: string, phoneNumber: string): Promise<Date | null>;
+  // Unknown contacts count as opted in
+  getConsent(chatbotId: string, phoneNumber: string): Promise<ContactConsent>;
+  setConsent(contactId: string, consent: { optedIn: boolean; updatedAt: Date; source: string }): Promise<void>;
+}
+
+export interface MessageRepository {
+  insert(message: NewMessage): Promise<string>;
+  // Insert a customer message unless one with the same waMessageId is stored; returns false for duplicates
+  insertInbound(message: NewMessage & { waMessageId: string }): Promise<boolean>;
+  // Newest first, without feedback-flow messages
+  listRecent(
+    chatbotId: string,
+    uniqueConvId: string,
+    options: { limit: number; includeAgentMessages: boolean }
+  ): Promise<StoredMessage[]>;
+  // Customer messages since the last assistant/agent message, oldest first
+  listPendingUserTurn(chatbotId: string, uniqueConvId: string): Promise<StoredMessage[]>;
+  // Newest assistant/agent message, including feedback-flow messages
+  findLatestOutbound(chatbotId: string, uniqueConvId: string): Promise<StoredMessage | null>;
+  // Both only apply to assistant messages; setFeedback returns false when none matched
+  setFeedback(chatbotId: string, waMessageId: string, feedback: number): Promise<boolean>;
+  setFeedbackComment(chatbotId: string, waMessageId: string, comment: string): Promise<void>;
+}
+
+export interface Repositories {
+  readonly name: string;
+  accounts: AccountRepository;
+  contacts: ContactRepository;
+  messages: MessageRepository;
+}
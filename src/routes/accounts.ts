@@ -0,0 +1,154 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { ApiError } from '../utils/errors';
+import { validateAccountCredentials } from '../services/account-validation';
+import {
+  AccountStatus,
+  activateAccount,
+  createAccount,
+  deactivateAccount,
+  deleteAccount,
+  getAccount,
+  listAccounts,
+  regenerateVerifyToken,
+  rotateAccessToken,
+  updateAccount,
+} from '../services/account-management';
+
+const STATUSES: AccountStatus[] = ['active', 'inactive'];
+
+const router = Router();
+
+router.use(requireApiKey);
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof ApiError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+  }
+  logger.error(`Error ${action}:`, error);
+  res.status(500).json({ success: false, error: 'Internal server error' });
+}
+
+// List accounts (?status=active|inactive, ?chatbotId=...)
+router.get('/', async (req: Request, res: Response) => {
+  const status = req.query.status as AccountStatus | undefined;
+  if (status !== undefined && !STATUSES.includes(status)) {
+    return res.status(400).json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}` });
+  }
+
+  try {
+    const accounts = await listAccounts({
+      status,
+      chatbotId: typeof req.query.chatbotId === 'string' ? req.query.chatbotId : undefined,
+    });
+    res.status(200).json({ success: true, accounts });
+  } catch (error) {
+    handleError(res, error, 'listing accounts');
+  }
+});
+
+// Check an access token / phone number ID pair without storing anything
+router.post('/validate', async (req: Request, res: Response) => {
+  const { accessToken, phoneNumberId } = req.body || {};
+
+  try {
+    const validation = await validateAccountCredentials(accessToken, phoneNumberId);
+    res.status(200).json({ success: true, validation });
+  } catch (error) {
+    handleError(res, error, 'validating account credentials');
+  }
+});
+
+// Onboard an account - the verify token is only returned here
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { account, verifyToken } = await createAccount(req.body || {});
+    res.status(201).json({ success: true, account, verifyToken });
+  } catch (error) {
+    handleError(res, error, 'creating account');
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const account = await getAccount(req.params.id);
+    res.status(200).json({ success: true, account });
+  } catch (error) {
+    handleError(res, error, `reading account ${req.params.id}`);
+  }
+});
+
+// Update profile fields, webhook URL or app secret (credentials have their own endpoints)
+router.patch('/:id', async (req: Request, res: Response) => {
+  const body = req.body || {};
+
+  try {
+    const account = await updateAccount(req.params.id, {
+      phoneNumber: body.phoneNumber,
+      verifiedName: body.verifiedName,
+      wabaId: body.wabaId,
+      whatsappBusinessId: body.whatsappBusinessId,
+      webhookUrl: body.webhookUrl,
+      appSecret: body.appSecret,
+    });
+    res.status(200).json({ success: true, account });
+  } catch (error) {
+    handleError(res, error, `updating account ${req.params.id}`);
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteAccount(req.params.id);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    handleError(res, error, `deleting account ${req.params.id}`);
+  }
+});
+
+router.post('/:id/activate', async (req: Request, res: Response) => {
+  try {
+    const account = await activateAccount(req.params.id);
+    res.status(200).json({ success: true, account });
+  } catch (error) {
+    handleError(res, error, `activating account ${req.params.id}`);
+  }
+});
+
+router.post('/:id/deactivate', async (req: Request, res: Response) => {
+  try {
+    const account = await deactivateAccount(req.params.id);
+    res.status(200).json({ success: true, account });
+  } catch (error) {
+    handleError(res, error, `deactivating account ${req.params.id}`);
+  }
+});
+
+// New webhook verify token - returned once, the previous token stops working
+router.post('/:id/verify-token', async (req: Request, res: Response) => {
+  try {
+    const verifyToken = await regenerateVerifyToken(req.params.id);
+    res.status(200).json({ success: true, verifyToken });
+  } catch (error) {
+    handleError(res, error, `regenerating verify token for account ${req.params.id}`);
+  }
+});
+
+// Replace the access token (optionally with a new phone number ID) after validating it
+router.post('/:id/access-token', async (req: Request, res: Response) => {
+  const { accessToken, phoneNumberId } = req.body || {};
+
+  try {
+    const account = await rotateAccessToken(req.params.id, { accessToken, phoneNumberId });
+    res.status(200).json({ success: true, account });
+  } catch (error) {
+    handleError(res, error, `rotating access token for account ${req.params.id}`);
+  }
+});
+
+export default router;
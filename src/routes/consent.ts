@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { consentEventsToCsv, listConsentEvents } from '../services/consent';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Consent audit trail of a chatbot (JSON, or CSV with ?format=csv)
+router.get('/events', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to);
+
+  if (from === null || to === null) {
+    return res.status(400).json({ success: false, error: 'from and to must be ISO dates' });
+  }
+
+  try {
+    const events = await listConsentEvents(chatbotId, {
+      from,
+      to,
+      phoneNumber: typeof req.query.phoneNumber === 'string' ? req.query.phoneNumber.replace(/[^\d]/g, '') : undefined,
+    });
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="consent-${chatbotId}.csv"`);
+      return res.status(200).send(consentEventsToCsv(events));
+    }
+
+    res.status(200).json({ success: true, events });
+  } catch (error) {
+    logger.error(`Error exporting consent events for chatbot ${chatbotId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
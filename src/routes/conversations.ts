@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { getConversationStatusHistory } from '../services/message-status';
+import { findActiveAccountByChatbotId } from '../services/accounts';
+import { getContactConsent, recordConsentChange } from '../services/consent';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+// Delivery status events of all messages sent to a contact (most recent first)
+router.get('/statuses', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+  const phoneNumber = req.params.phoneNumber.replace(/[^\d]/g, '');
+  const limit = Math.min(parseInt((req.query.limit as string) || '100', 10) || 100, 1000);
+
+  try {
+    const events = await getConversationStatusHistory(chatbotId, phoneNumber, limit);
+    res.status(200).json({ success: true, events });
+  } catch (error) {
+    logger.error(`Error getting status history for conversation ${phoneNumber}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Opt-in / opt-out state of the contact
+router.get('/consent', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+  const phoneNumber = req.params.phoneNumber.replace(/[^\d]/g, '');
+
+  try {
+    const consent = await getContactConsent(chatbotId, phoneNumber);
+    res.status(200).json({ success: true, phoneNumber, ...consent });
+  } catch (error) {
+    logger.error(`Error getting consent for contact ${phoneNumber}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Record an opt-in / opt-out obtained outside WhatsApp (e.g. by an agent or a web form)
+router.put('/consent', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+  const phoneNumber = req.params.phoneNumber.replace(/[^\d]/g, '');
+  const { optedIn, actor, reason } = req.body || {};
+
+  if (typeof optedIn !== 'boolean') {
+    return res.status(400).json({ success: false, error: 'optedIn (boolean) is required' });
+  }
+
+  try {
+    const account = await findActiveAccountByChatbotId(chatbotId);
+    if (!account) {
+      return res.status(404).json({ success: false, error: `No active WhatsApp account for chatbot ${chatbotId}` });
+    }
+
+    const event = await recordConsentChange(account, {
+      phoneNumber,
+      optedIn,
+      source: 'api',
+      actor: typeof actor === 'string' ? actor : undefined,
+      reason: typeof reason === 'string' ? reason : undefined,
+    });
+    res.status(200).json({ success: true, phoneNumber, optedIn, event });
+  } catch (error) {
+    logger.error(`Error updating consent for contact ${phoneNumber}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
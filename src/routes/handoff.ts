@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { buildUniqueConvId } from '../services/contacts';
+import { endHandoff, getActiveHandoff, getHandoff, startHandoff } from '../services/handoff';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+function conversationParams(req: Request) {
+  const { chatbotId } = req.params;
+  const phoneNumber = req.params.phoneNumber.replace(/[^\d]/g, '');
+  return { chatbotId, phoneNumber, uniqueConvId: buildUniqueConvId(phoneNumber, chatbotId) };
+}
+
+// Get the handoff state of a conversation
+router.get('/', async (req: Request, res: Response) => {
+  const { uniqueConvId } = conversationParams(req);
+
+  try {
+    // Resolves idle timeouts before reporting
+    const active = await getActiveHandoff(uniqueConvId);
+    const handoff = active || (await getHandoff(uniqueConvId));
+    res.status(200).json({
+      success: true,
+      status: active ? 'human' : 'bot',
+      handoff,
+    });
+  } catch (error) {
+    logger.error(`Error getting handoff for ${uniqueConvId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Hand the conversation over to a human agent (AI replies are suppressed)
+router.post('/', async (req: Request, res: Response) => {
+  const { chatbotId, phoneNumber, uniqueConvId } = conversationParams(req);
+
+  try {
+    const handoff = await startHandoff({
+      chatbotId,
+      uniqueConvId,
+      phoneNumber,
+      triggeredBy: 'api',
+      reason: typeof req.body?.reason === 'string' ? req.body.reason : undefined,
+      agentId: typeof req.body?.agentId === 'string' ? req.body.agentId : undefined,
+    });
+    res.status(200).json({ success: true, status: 'human', handoff });
+  } catch (error) {
+    logger.error(`Error starting handoff for ${uniqueConvId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Return the conversation to the bot
+router.delete('/', async (req: Request, res: Response) => {
+  const { uniqueConvId } = conversationParams(req);
+
+  try {
+    const ended = await endHandoff(uniqueConvId, 'api');
+    res.status(200).json({ success: true, status: 'bot', ended });
+  } catch (error) {
+    logger.error(`Error ending handoff for ${uniqueConvId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
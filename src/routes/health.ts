@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { getReadiness } from '../services/health';
+
+const router = Router();
+
+// Basic status, kept for existing monitors
+router.get('/', (req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'OK',
+    message: 'WhatsApp Webhook Service is running',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+});
+
+// Liveness: the process is up and serving requests; never checks dependencies, so outages do not cause restarts
+router.get('/live', (req: Request, res: Response) => {
+  res.status(200).json({ status: 'alive', uptime: process.uptime() });
+});
+
+// Readiness: critical dependencies reachable and not shutting down; 503 takes the instance out of rotation
+router.get('/ready', async (req: Request, res: Response) => {
+  try {
+    const readiness = await getReadiness();
+    res.status(readiness.ready ? 200 : 503).json({ ...readiness, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Error checking readiness:', error);
+    res.status(503).json({ ready: false, status: 'not_ready', error: 'Failed to check readiness' });
+  }
+});
+
+export default router;
@@ -0,0 +1,41 @@
+import path from 'path';
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireChatbotOrApiKey } from '../middleware/auth';
+import { getMediaStorage } from '../services/media-storage';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+// Storage keys start with the chatbot the media was received for: <chatbotId>/<year>/<month>/<file>
+const isValidKey = (key: string): boolean =>
+  !!key && key.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+
+const chatbotIdOf = (req: Request): string | undefined => req.params[0].split('/')[0];
+
+// Serve stored inbound media by storage key (used by the response API to fetch attachments)
+router.get('/*', (req: Request, res: Response, next) => {
+  // Checked before authorization, so a key cannot climb out of its chatbot's prefix
+  if (!isValidKey(req.params[0])) {
+    return res.status(400).json({ success: false, error: 'Invalid media key' });
+  }
+  next();
+}, requireChatbotOrApiKey(chatbotIdOf), async (req: Request, res: Response) => {
+  const key = req.params[0];
+
+  try {
+    const data = await getMediaStorage().read(key);
+    res.type(path.extname(key) || 'application/octet-stream').send(data);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ success: false, error: 'Media not found' });
+    }
+    logger.error(`Error reading media ${key}:`, error);
+    res.status(500).json({ success: false, error: 'Failed to read media' });
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { ApiError, ValidationError } from '../utils/errors';
+import { parseOutboundMessage } from '../utils/whatsapp-payload';
+import { sendOutboundMessage, OutboundSenderType } from '../services/outbound-messages';
+import { currentStatus, getMessageStatusHistory } from '../services/message-status';
+
+const SENDER_TYPES: OutboundSenderType[] = ['agent', 'assistant'];
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+// Send a message to a contact (text, media, template, interactive or location)
+router.post('/', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+  const body = req.body || {};
+
+  try {
+    const to = typeof body.to === 'string' ? body.to.replace(/[^\d]/g, '') : '';
+    if (!to) {
+      throw new ValidationError('to must be the contact phone number');
+    }
+
+    const senderType: OutboundSenderType = body.senderType || 'agent';
+    if (!SENDER_TYPES.includes(senderType)) {
+      throw new ValidationError(`senderType must be one of: ${SENDER_TYPES.join(', ')}`);
+    }
+
+    const message = parseOutboundMessage(body);
+
+    let fallbackTemplate;
+    if (body.fallbackTemplate !== undefined) {
+      const parsed = parseOutboundMessage({ type: 'template', template: body.fallbackTemplate });
+      fallbackTemplate = parsed.type === 'template' ? parsed.template : undefined;
+    }
+
+    const result = await sendOutboundMessage({
+      chatbotId,
+      to,
+      message,
+      senderType,
+      senderId: typeof body.senderId === 'string' ? body.senderId : undefined,
+      replyToMessageId: typeof body.replyToMessageId === 'string' ? body.replyToMessageId : undefined,
+      fallbackTemplate,
+    });
+
+    res.status(200).json({
+      success: true,
+      messageId: result.messageId,
+      id: result.id,
+      usedFallbackTemplate: result.usedFallbackTemplate,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+    }
+    logger.error(`Error sending outbound message for chatbot ${chatbotId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delivery status timeline of a message (by WhatsApp message ID)
+router.get('/:waMessageId/statuses', async (req: Request, res: Response) => {
+  const { chatbotId, waMessageId } = req.params;
+
+  try {
+    const events = await getMessageStatusHistory(chatbotId, waMessageId);
+    res.status(200).json({
+      success: true,
+      messageId: waMessageId,
+      status: currentStatus(events),
+      events,
+    });
+  } catch (error) {
+    logger.error(`Error getting status history for message ${waMessageId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { register } from '../config/metrics';
+import { refreshWebhookQueueDepth } from '../services/webhook-queue';
+import { errorMessage } from '../utils/errors';
+import { safeEqual } from '../utils/secrets';
+
+const router = Router();
+
+// Prometheus scrape endpoint; protected by METRICS_API_KEY (Authorization: Bearer <key>) when it is set
+router.get('/', async (req: Request, res: Response) => {
+  const expectedKey = process.env.METRICS_API_KEY;
+  if (expectedKey) {
+    const providedKey = req.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+    if (!safeEqual(providedKey, expectedKey)) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+  }
+
+  // A failing queue query must not hide the other metrics
+  try {
+    await refreshWebhookQueueDepth();
+  } catch (error) {
+    logger.warn('Failed to refresh webhook queue depth:', { message: errorMessage(error) });
+  }
+
+  try {
+    res.set('Content-Type', register.contentType);
+    res.status(200).send(await register.metrics());
+  } catch (error) {
+    logger.error('Error collecting metrics:', error);
+    res.status(500).json({ success: false, error: 'Failed to collect metrics' });
+  }
+});
+
+export default router;
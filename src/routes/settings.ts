@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { getChatbotSettings, updateChatbotSettings } from '../services/chatbot-settings';
+import { ValidationError } from '../utils/errors';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+// Effective WhatsApp settings of a chatbot (stored overrides merged over the service defaults)
+router.get('/', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+
+  try {
+    const settings = await getChatbotSettings(chatbotId);
+    res.status(200).json({ success: true, settings });
+  } catch (error) {
+    logger.error(`Error loading settings for chatbot ${chatbotId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Partially update settings, e.g. { "context": { "maxMessages": 30 } }
+router.put('/', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+
+  try {
+    const settings = await updateChatbotSettings(chatbotId, req.body);
+    res.status(200).json({ success: true, settings });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error(`Error updating settings for chatbot ${chatbotId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { findActiveAccountByChatbotId } from '../services/accounts';
+import { listTemplates, syncTemplates } from '../services/templates';
+import { errorMessage } from '../utils/errors';
+
+const router = Router({ mergeParams: true });
+
+router.use(requireApiKey);
+
+// List message templates of the chatbot's WhatsApp Business Account
+router.get('/', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+
+  try {
+    const account = await findActiveAccountByChatbotId(chatbotId);
+    if (!account) {
+      return res.status(404).json({ success: false, error: `No active WhatsApp account for chatbot ${chatbotId}` });
+    }
+
+    const templates = await listTemplates(account.waba_id, req.query.status as string | undefined);
+    res.status(200).json({ success: true, templates });
+  } catch (error) {
+    logger.error(`Error listing templates for chatbot ${chatbotId}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Pull templates (and their approval status) from the Graph API
+router.post('/sync', async (req: Request, res: Response) => {
+  const { chatbotId } = req.params;
+
+  try {
+    const account = await findActiveAccountByChatbotId(chatbotId);
+    if (!account) {
+      return res.status(404).json({ success: false, error: `No active WhatsApp account for chatbot ${chatbotId}` });
+    }
+
+    const synced = await syncTemplates(account);
+    res.status(200).json({ success: true, synced });
+  } catch (error) {
+    logger.error(`Error syncing templates for chatbot ${chatbotId}:`, { message: errorMessage(error) });
+    res.status(502).json({ success: false, error: 'Failed to sync templates from WhatsApp' });
+  }
+});
+
+export default router;
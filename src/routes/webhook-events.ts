@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import logger from '../config/logger';
+import { requireApiKey } from '../middleware/auth';
+import { errorMessage } from '../utils/errors';
+import { listWebhookEvents, replayDeadLetterEvents, WebhookEventStatus } from '../services/webhook-queue';
+
+const EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'completed', 'dead_letter'];
+
+const router = Router();
+
+router.use(requireApiKey);
+
+// List webhook events by status (defaults to dead-lettered events)
+router.get('/', async (req: Request, res: Response) => {
+  const status = (req.query.status as WebhookEventStatus) || 'dead_letter';
+  const limit = Math.min(parseInt((req.query.limit as string) || '50', 10) || 50, 500);
+
+  if (!EVENT_STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid status, expected one of: ${EVENT_STATUSES.join(', ')}`,
+    });
+  }
+
+  try {
+    const events = await listWebhookEvents(status, limit);
+    res.status(200).json({ success: true, events });
+  } catch (error) {
+    logger.error('Error listing webhook events:', error);
+    res.status(500).json({ success: false, error: errorMessage(error) });
+  }
+});
+
+// Replay dead-lettered events: the given `eventIds`, or all of them with `all: true`
+router.post('/replay', async (req: Request, res: Response) => {
+  const eventIds = req.body?.eventIds;
+  const all = req.body?.all === true;
+
+  if (all === (eventIds !== undefined)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Provide either eventIds or all: true',
+    });
+  }
+
+  if (!all && (!Array.isArray(eventIds) || eventIds.length === 0 || !eventIds.every((id) => typeof id === 'string'))) {
+    return res.status(400).json({
+      success: false,
+      error: 'eventIds must be a non-empty array of strings',
+    });
+  }
+
+  try {
+    const replayed = await replayDeadLetterEvents(all ? { all: true } : { eventIds });
+    res.status(200).json({ success: true, replayed });
+  } catch (error) {
+    logger.error('Error replaying webhook events:', error);
+    res.status(500).json({ success: false, error: errorMessage(error) });
+  }
+});
+
+export default router;
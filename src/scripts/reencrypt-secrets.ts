@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before anything reads them
+dotenv.config();
+
+import logger from '../config/logger';
+import { initializeDatabase, closeDatabaseConnection } from '../config/database';
+import { reencryptAccountSecrets } from '../services/secret-rotation';
+
+/**
+ * Re-encrypt all account secrets with the active key (run after adding/rotating a master key)
+ */
+async function main() {
+  await initializeDatabase();
+
+  try {
+    const result = await reencryptAccountSecrets();
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+main().catch((error) => {
+  logger.error('Secrets re-encryption failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before anything reads them
+dotenv.config();
+
+import crypto from 'crypto';
+import logger from '../config/logger';
+import { FIXTURE_MEDIA, startSimulator } from '../simulator';
+
+/**
+ * Run the Graph API / response API simulator for local development (SIMULATOR_PORT, default 4010)
+ */
+async function main() {
+  const simulator = await startSimulator(parseInt(process.env.SIMULATOR_PORT || '4010', 10));
+
+  // Make the fixture media messages downloadable
+  for (const media of Object.values(FIXTURE_MEDIA)) {
+    simulator.addMedia(media.id, crypto.randomBytes(1024), media.mimeType);
+  }
+
+  logger.info(`WhatsApp simulator running on ${simulator.url}`);
+  logger.info(`Start the service with GRAPH_API_BASE_URL=${simulator.graphApiBaseUrl} RESPONSE_API_BASE_URL=${simulator.responseApiBaseUrl}`);
+  logger.info(`Recorded sends: ${simulator.url}/__simulator/sent-messages`);
+
+  const shutdown = () => {
+    simulator
+      .stop()
+      .then(() => process.exit(0))
+      .catch(() => process.exit(1));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch((error) => {
+  logger.error('Simulator failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,351 @@
+import crypto from 'crypto';
+import { DatabaseError, Pool } from 'pg';
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { createId } from '@paralleldrive/cuid2';
+import { ApiError, NotFoundError, ValidationError } from '../utils/errors';
+import { decryptSecret, encryptSecret, getKeyVersion, hashVerifyToken, isEncryptionConfigured } from '../utils/secrets';
+import { validateAccountCredentials } from './account-validation';
+
+export type AccountStatus = 'active' | 'inactive';
+
+/**
+ * Account as returned by the admin API - secrets are never included
+ */
+export interface AccountSummary {
+  id: string;
+  chatbot_id: string;
+  phone_number: string;
+  phone_number_id: string;
+  waba_id: string;
+  whatsapp_business_id: string;
+  verified_name: string;
+  status: AccountStatus;
+  webhook_url: string | null;
+  has_app_secret: boolean;
+  has_verify_token: boolean;
+  // Master key version the access token is encrypted with (null = stored in plaintext)
+  access_token_key_version: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAccountInput {
+  chatbotId: string;
+  phoneNumberId: string;
+  wabaId: string;
+  accessToken: string;
+  phoneNumber?: string;
+  verifiedName?: string;
+  whatsappBusinessId?: string;
+  webhookUrl?: string;
+  appSecret?: string;
+  verifyToken?: string;
+  // Validate the credentials and activate right away (default), or store the account inactive
+  activate?: boolean;
+}
+
+export interface UpdateAccountInput {
+  phoneNumber?: string;
+  verifiedName?: string;
+  wabaId?: string;
+  whatsappBusinessId?: string;
+  webhookUrl?: string | null;
+  // null removes the account's own secret (FACEBOOK_APP_SECRET is used instead)
+  appSecret?: string | null;
+}
+
+const SUMMARY_COLUMNS = `id, chatbot_id, phone_number, phone_number_id, waba_id, whatsapp_business_id, verified_name,
+  status, webhook_url, access_token, app_secret IS NOT NULL AS has_app_secret,
+  (verify_token_hash IS NOT NULL OR verify_token IS NOT NULL) AS has_verify_token, created_at, updated_at`;
+
+// SUMMARY_COLUMNS as selected: the (encrypted) access token instead of its key version
+type AccountSummaryRow = Omit<AccountSummary, 'access_token_key_version'> & { access_token: string | null };
+
+function toSummary(row: AccountSummaryRow): AccountSummary {
+  const { access_token: accessToken, ...rest } = row;
+  return { ...rest, access_token_key_version: getKeyVersion(accessToken || '') };
+}
+
+/**
+ * Encrypt a secret for storage. Without configured keys it is stored as-is until
+ * `npm run secrets:reencrypt` runs.
+ */
+function protectSecret(value: string): string {
+  if (isEncryptionConfigured()) {
+    return encryptSecret(value);
+  }
+  logger.warn('TOKEN_ENCRYPTION_KEYS not configured, storing account secret unencrypted');
+  return value;
+}
+
+function generateVerifyToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function requireField(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ValidationError(`${field} is required`);
+  }
+  return value.trim();
+}
+
+function optionalField(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return requireField(value, field);
+}
+
+async function requirePool(): Promise<Pool> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new ApiError(503, 'Account management requires a database', 'database_unavailable');
+  }
+  return pool;
+}
+
+/**
+ * Map unique-constraint violations (one account per chatbot / phone number) to 409
+ */
+function mapConstraintError(error: unknown): never {
+  if (error instanceof DatabaseError && error.code === '23505') {
+    throw new ApiError(409, `An account with this ${error.constraint?.includes('chatbot') ? 'chatbot' : 'phone number'} already exists`, 'conflict');
+  }
+  throw error;
+}
+
+async function requireValidCredentials(accessToken: string, phoneNumberId: string) {
+  const validation = await validateAccountCredentials(accessToken, phoneNumberId);
+  if (!validation.valid) {
+    throw new ApiError(422, `Access token rejected for phone number ID ${phoneNumberId}: ${validation.error}`, 'invalid_credentials');
+  }
+  return validation;
+}
+
+async function fetchAccountRow(
+  pool: Pool,
+  id: string
+): Promise<{ id: string; phone_number_id: string; access_token: string }> {
+  const result = await pool.query(
+    `SELECT id, phone_number_id, access_token FROM whatsapp_accounts WHERE id = $1`,
+    [id]
+  );
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Account ${id} not found`);
+  }
+  return result.rows[0];
+}
+
+export async function listAccounts(filters: { status?: AccountStatus; chatbotId?: string } = {}): Promise<AccountSummary[]> {
+  const pool = await requirePool();
+
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`status = $${values.length}`);
+  }
+  if (filters.chatbotId) {
+    values.push(filters.chatbotId);
+    conditions.push(`chatbot_id = $${values.length}`);
+  }
+
+  const result = await pool.query<AccountSummaryRow>(
+    `SELECT ${SUMMARY_COLUMNS} FROM whatsapp_accounts
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY created_at DESC`,
+    values
+  );
+  return result.rows.map(toSummary);
+}
+
+export async function getAccount(id: string): Promise<AccountSummary> {
+  const pool = await requirePool();
+
+  const result = await pool.query<AccountSummaryRow>(`SELECT ${SUMMARY_COLUMNS} FROM whatsapp_accounts WHERE id = $1`, [id]);
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Account ${id} not found`);
+  }
+  return toSummary(result.rows[0]);
+}
+
+/**
+ * Onboard a WhatsApp account. Returns the webhook verify token once - only its hash is stored.
+ */
+export async function createAccount(input: CreateAccountInput): Promise<{ account: AccountSummary; verifyToken: string }> {
+  const pool = await requirePool();
+
+  const chatbotId = requireField(input.chatbotId, 'chatbotId');
+  const phoneNumberId = requireField(input.phoneNumberId, 'phoneNumberId');
+  const wabaId = requireField(input.wabaId, 'wabaId');
+  const accessToken = requireField(input.accessToken, 'accessToken');
+  const activate = input.activate !== false;
+
+  let phoneNumber = optionalField(input.phoneNumber, 'phoneNumber')?.replace(/[^\d]/g, '');
+  let verifiedName = optionalField(input.verifiedName, 'verifiedName');
+
+  if (activate) {
+    const validation = await requireValidCredentials(accessToken, phoneNumberId);
+    phoneNumber = phoneNumber || validation.displayPhoneNumber;
+    verifiedName = verifiedName || validation.verifiedName;
+  }
+
+  if (!phoneNumber || !verifiedName) {
+    throw new ValidationError('phoneNumber and verifiedName are required when they cannot be read from the Graph API');
+  }
+
+  const verifyToken = optionalField(input.verifyToken, 'verifyToken') || generateVerifyToken();
+  const appSecret = optionalField(input.appSecret, 'appSecret');
+  const id = createId();
+
+  try {
+    await pool.query(
+      `INSERT INTO whatsapp_accounts
+       (id, chatbot_id, phone_number, waba_id, phone_number_id, access_token, verified_name, status,
+        whatsapp_business_id, webhook_url, verify_token_hash, app_secret, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())`,
+      [
+        id,
+        chatbotId,
+        phoneNumber,
+        wabaId,
+        phoneNumberId,
+        protectSecret(accessToken),
+        verifiedName,
+        activate ? 'active' : 'inactive',
+        optionalField(input.whatsappBusinessId, 'whatsappBusinessId') || wabaId,
+        optionalField(input.webhookUrl, 'webhookUrl') || null,
+        hashVerifyToken(verifyToken),
+        appSecret ? protectSecret(appSecret) : null,
+      ]
+    );
+  } catch (error) {
+    mapConstraintError(error);
+  }
+
+  logger.info(`Created WhatsApp account ${id} for chatbot ${chatbotId} (${activate ? 'active' : 'inactive'})`);
+  return { account: await getAccount(id), verifyToken };
+}
+
+export async function updateAccount(id: string, input: UpdateAccountInput): Promise<AccountSummary> {
+  const pool = await requirePool();
+
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  const set = (column: string, value: unknown) => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  };
+
+  if (input.phoneNumber !== undefined) set('phone_number', requireField(input.phoneNumber, 'phoneNumber').replace(/[^\d]/g, ''));
+  if (input.verifiedName !== undefined) set('verified_name', requireField(input.verifiedName, 'verifiedName'));
+  if (input.wabaId !== undefined) set('waba_id', requireField(input.wabaId, 'wabaId'));
+  if (input.whatsappBusinessId !== undefined) set('whatsapp_business_id', requireField(input.whatsappBusinessId, 'whatsappBusinessId'));
+  if (input.webhookUrl !== undefined) set('webhook_url', input.webhookUrl === null ? null : requireField(input.webhookUrl, 'webhookUrl'));
+  if (input.appSecret !== undefined) {
+    set('app_secret', input.appSecret === null ? null : protectSecret(requireField(input.appSecret, 'appSecret')));
+  }
+
+  if (assignments.length === 0) {
+    throw new ValidationError('No updatable fields provided');
+  }
+
+  values.push(id);
+  try {
+    const result = await pool.query(
+      `UPDATE whatsapp_accounts SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $${values.length}`,
+      values
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError(`Account ${id} not found`);
+    }
+  } catch (error) {
+    mapConstraintError(error);
+  }
+
+  return getAccount(id);
+}
+
+/**
+ * Activate an account after checking its stored credentials against the Graph API
+ */
+export async function activateAccount(id: string): Promise<AccountSummary> {
+  const pool = await requirePool();
+  const row = await fetchAccountRow(pool, id);
+
+  await requireValidCredentials(decryptSecret(row.access_token), row.phone_number_id);
+  await pool.query(`UPDATE whatsapp_accounts SET status = 'active', updated_at = NOW() WHERE id = $1`, [id]);
+
+  logger.info(`Activated WhatsApp account ${id}`);
+  return getAccount(id);
+}
+
+/**
+ * Stop routing webhooks and sending messages for an account (the row is kept)
+ */
+export async function deactivateAccount(id: string): Promise<AccountSummary> {
+  const pool = await requirePool();
+
+  const result = await pool.query(
+    `UPDATE whatsapp_accounts SET status = 'inactive', updated_at = NOW() WHERE id = $1`,
+    [id]
+  );
+  if (result.rowCount === 0) {
+    throw new NotFoundError(`Account ${id} not found`);
+  }
+
+  logger.info(`Deactivated WhatsApp account ${id}`);
+  return getAccount(id);
+}
+
+export async function deleteAccount(id: string): Promise<void> {
+  const pool = await requirePool();
+
+  const result = await pool.query(`DELETE FROM whatsapp_accounts WHERE id = $1`, [id]);
+  if (result.rowCount === 0) {
+    throw new NotFoundError(`Account ${id} not found`);
+  }
+
+  logger.info(`Deleted WhatsApp account ${id}`);
+}
+
+/**
+ * Replace the webhook verify token. The new token is returned once - only its hash is stored.
+ */
+export async function regenerateVerifyToken(id: string): Promise<string> {
+  const pool = await requirePool();
+  const verifyToken = generateVerifyToken();
+
+  const result = await pool.query(
+    `UPDATE whatsapp_accounts SET verify_token_hash = $1, verify_token = NULL, updated_at = NOW() WHERE id = $2`,
+    [hashVerifyToken(verifyToken), id]
+  );
+  if (result.rowCount === 0) {
+    throw new NotFoundError(`Account ${id} not found`);
+  }
+
+  logger.info(`Regenerated verify token for WhatsApp account ${id}`);
+  return verifyToken;
+}
+
+/**
+ * Replace the access token (and optionally the phone number ID) after validating the new pair
+ */
+export async function rotateAccessToken(
+  id: string,
+  input: { accessToken: string; phoneNumberId?: string }
+): Promise<AccountSummary> {
+  const pool = await requirePool();
+  const row = await fetchAccountRow(pool, id);
+
+  const accessToken = requireField(input.accessToken, 'accessToken');
+  const phoneNumberId = optionalField(input.phoneNumberId, 'phoneNumberId') || row.phone_number_id;
+
+  await requireValidCredentials(accessToken, phoneNumberId);
+  await pool.query(
+    `UPDATE whatsapp_accounts SET access_token = $1, phone_number_id = $2, updated_at = NOW() WHERE id = $3`,
+    [protectSecret(accessToken), phoneNumberId, id]
+  );
+
+  logger.info(`Rotated access token for WhatsApp account ${id}`);
+  return getAccount(id);
+}
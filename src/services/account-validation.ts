@@ -0,0 +1,55 @@
+import logger from '../config/logger';
+import { errorMessage } from '../utils/errors';
+import { graphRequest } from './graph-client';
+
+export interface AccountValidationResult {
+  valid: boolean;
+  // Digits only, as in webhook metadata
+  displayPhoneNumber?: string;
+  verifiedName?: string;
+  qualityRating?: string;
+  error?: string;
+}
+
+/**
+ * graph (default): ask the Graph API whether the token can read the phone number.
+ * stub: accept any non-empty credentials without a network call (local development).
+ */
+function validationMode(): 'graph' | 'stub' {
+  return process.env.ACCOUNT_VALIDATION_MODE === 'stub' ? 'stub' : 'graph';
+}
+
+/**
+ * Check that an access token is valid for a phone_number_id before it is activated
+ */
+export async function validateAccountCredentials(accessToken: string, phoneNumberId: string): Promise<AccountValidationResult> {
+  if (!accessToken || !phoneNumberId) {
+    return { valid: false, error: 'accessToken and phoneNumberId are required' };
+  }
+
+  if (validationMode() === 'stub') {
+    logger.warn(`Account validation stubbed for phone number ID ${phoneNumberId}`);
+    return { valid: true };
+  }
+
+  try {
+    const phoneNumber = await graphRequest<{ display_phone_number?: string; verified_name?: string; quality_rating?: string } | null>({
+      operation: 'get_phone_number',
+      path: `/${phoneNumberId}`,
+      accessToken,
+      params: { fields: 'display_phone_number,verified_name,quality_rating' },
+      timeoutMs: 15000,
+    });
+
+    return {
+      valid: true,
+      displayPhoneNumber: phoneNumber?.display_phone_number?.replace(/[^\d]/g, ''),
+      verifiedName: phoneNumber?.verified_name,
+      qualityRating: phoneNumber?.quality_rating,
+    };
+  } catch (error) {
+    const message = errorMessage(error);
+    logger.warn(`Graph API rejected credentials for phone number ID ${phoneNumberId}: ${message}`);
+    return { valid: false, error: message };
+  }
+}
@@ -0,0 +1,64 @@
+import { getRepositories } from '../repositories';
+
+// WhatsApp account row (snake_case, as selected from whatsapp_accounts)
+export interface WhatsAppAccount {
+  id: string;
+  chatbot_id: string;
+  phone_number_id: string;
+  access_token: string;
+  waba_id: string;
+  phone_number: string;
+}
+
+/**
+ * Single-account configuration from environment variables (no-database mode)
+ */
+export function getEnvAccount(): WhatsAppAccount {
+  return {
+    id: 'env-account',
+    chatbot_id: process.env.CHATBOT_ID || 'test-chatbot',
+    phone_number_id: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
+    access_token: process.env.WHATSAPP_ACCESS_TOKEN || '',
+    waba_id: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
+    phone_number: process.env.WHATSAPP_PHONE_NUMBER || process.env.WHATSAPP_DISPLAY_PHONE_NUMBER || 'Unknown',
+  };
+}
+
+/**
+ * Find all active accounts for a phone number ID (multiple chatbots may share a number)
+ */
+export async function findActiveAccountsByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount[]> {
+  return (await getRepositories()).accounts.findActiveByPhoneNumberId(phoneNumberId);
+}
+
+/**
+ * Find the active account for a chatbot (one WhatsApp account per chatbot)
+ */
+export async function findActiveAccountByChatbotId(chatbotId: string): Promise<WhatsAppAccount | null> {
+  return (await getRepositories()).accounts.findActiveByChatbotId(chatbotId);
+}
+
+/**
+ * App secrets configured for the accounts a webhook payload refers to.
+ * Matches by phone number ID and by WABA ID (template webhooks have no phone number).
+ * Returns null for accounts without their own secret.
+ */
+export async function findAppSecretsForWebhook(
+  phoneNumberIds: string[],
+  wabaIds: string[]
+): Promise<Array<string | null>> {
+  if (phoneNumberIds.length === 0 && wabaIds.length === 0) {
+    return [];
+  }
+  return (await getRepositories()).accounts.findAppSecrets(phoneNumberIds, wabaIds);
+}
+
+/**
+ * Find the active account whose webhook verify token matches.
+ * Compares hashes; accounts not yet migrated still match on the legacy plaintext column.
+ */
+export async function findActiveAccountByVerifyToken(
+  verifyToken: string
+): Promise<Pick<WhatsAppAccount, 'id' | 'chatbot_id' | 'phone_number_id'> | null> {
+  return (await getRepositories()).accounts.findActiveByVerifyToken(verifyToken);
+}
@@ -0,0 +1,270 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { ValidationError } from '../utils/errors';
+import { FALLBACK_LANGUAGES } from './fallback-replies';
+
+const CACHE_TTL_MS = parseInt(process.env.CHATBOT_SETTINGS_CACHE_TTL_MS || '60000', 10);
+
+/**
+ * Per-chatbot WhatsApp settings (stored in whatsapp_chatbot_settings, merged over defaults)
+ */
+export interface ChatbotSettings {
+  context: {
+    // Most recent messages sent to the response API
+    maxMessages: number;
+    // Character budget for the included messages (0 = unlimited)
+    maxChars: number;
+    // Include human agent messages (role 'agent')
+    includeAgentMessages: boolean;
+    // Prepend a summary of turns older than the window
+    includeSummary: boolean;
+    // How many older messages the summary covers
+    summaryMaxMessages: number;
+    // Character budget for the summary
+    summaryMaxChars: number;
+  };
+  aggregation: {
+    // Quiet period after the last inbound message before the AI replies to the whole burst (0 = off)
+    windowMs: number;
+  };
+  consent: {
+    // Built-in STOP/START keyword sets to use (see CONSENT_KEYWORDS in services/consent.ts)
+    languages: string[];
+    // Additional chatbot-specific keywords
+    optOutKeywords: string[];
+    optInKeywords: string[];
+    // Confirmations sent after a keyword ('' = none)
+    optOutReply: string;
+    optInReply: string;
+  };
+  citations: {
+    // none | footnotes (appended to the reply) | message (separate "Sources" message) | cta_button (URL button)
+    mode: CitationMode;
+    maxCitations: number;
+    // Heading of the footnotes / sources message
+    label: string;
+    // Text of the CTA URL button (max 20 characters)
+    ctaText: string;
+  };
+  feedback: {
+    // Thumbs-up/down buttons after AI answers
+    buttons: boolean;
+    prompt: string;
+    // Button titles (max 20 characters)
+    likeText: string;
+    dislikeText: string;
+    // Ask for a comment (stored in feedback_comment) after a thumbs-down button reply
+    askComment: boolean;
+    commentPrompt: string;
+    thanksText: string;
+  };
+  fallback: {
+    // Built-in fallback texts to use (see FALLBACK_MESSAGES in services/fallback-replies.ts)
+    language: string;
+    // Overrides of the built-in texts ('' = built-in)
+    errorMessage: string;
+    unavailableMessage: string;
+    holdingMessage: string;
+    // Send the holding message when the answer takes longer than this (0 = never)
+    holdingMessageAfterMs: number;
+    // Answer turns the response API could not answer once it recovers
+    followUp: boolean;
+  };
+  serviceWindow: {
+    // Approved template (without variables) sent instead of free-form messages outside the
+    // 24-hour window, unless the sender names one ('' = refuse such messages)
+    fallbackTemplateName: string;
+    fallbackTemplateLanguage: string;
+  };
+}
+
+export const CITATION_MODES = ['none', 'footnotes', 'message', 'cta_button'] as const;
+
+export type CitationMode = (typeof CITATION_MODES)[number];
+
+// Allowed values of enumerated settings
+const SETTING_CHOICES: Record<string, readonly string[]> = {
+  'citations.mode': CITATION_MODES,
+  'fallback.language': FALLBACK_LANGUAGES,
+};
+
+function envList(name: string, fallback: string[]): string[] {
+  const value = process.env[name];
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : fallback;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export function getDefaultChatbotSettings(): ChatbotSettings {
+  return {
+    context: {
+      maxMessages: envInt('CONTEXT_MAX_MESSAGES', 20),
+      maxChars: envInt('CONTEXT_MAX_CHARS', 12000),
+      includeAgentMessages: process.env.CONTEXT_INCLUDE_AGENT_MESSAGES !== 'false',
+      includeSummary: process.env.CONTEXT_INCLUDE_SUMMARY === 'true',
+      summaryMaxMessages: envInt('CONTEXT_SUMMARY_MAX_MESSAGES', 30),
+      summaryMaxChars: envInt('CONTEXT_SUMMARY_MAX_CHARS', 1500),
+    },
+    aggregation: {
+      windowMs: envInt('MESSAGE_AGGREGATION_WINDOW_MS', 0),
+    },
+    consent: {
+      languages: envList('CONSENT_LANGUAGES', ['en']),
+      optOutKeywords: envList('CONSENT_OPT_OUT_KEYWORDS', []),
+      optInKeywords: envList('CONSENT_OPT_IN_KEYWORDS', []),
+      optOutReply: process.env.CONSENT_OPT_OUT_REPLY ??
+        'You have been unsubscribed and will no longer receive messages from us. Reply START to subscribe again.',
+      optInReply: process.env.CONSENT_OPT_IN_REPLY ?? 'You are subscribed again. Reply STOP to unsubscribe.',
+    },
+    citations: {
+      mode: (CITATION_MODES as readonly string[]).includes(process.env.CITATIONS_MODE || '')
+        ? (process.env.CITATIONS_MODE as CitationMode)
+        : 'none',
+      maxCitations: envInt('CITATIONS_MAX', 5),
+      label: process.env.CITATIONS_LABEL || 'Sources',
+      ctaText: process.env.CITATIONS_CTA_TEXT || 'View source',
+    },
+    feedback: {
+      buttons: process.env.FEEDBACK_BUTTONS === 'true',
+      prompt: process.env.FEEDBACK_PROMPT || 'Was this answer helpful?',
+      likeText: process.env.FEEDBACK_LIKE_TEXT || '👍 Yes',
+      dislikeText: process.env.FEEDBACK_DISLIKE_TEXT || '👎 No',
+      askComment: process.env.FEEDBACK_ASK_COMMENT === 'true',
+      commentPrompt: process.env.FEEDBACK_COMMENT_PROMPT || 'Sorry about that. What could we have done better?',
+      thanksText: process.env.FEEDBACK_THANKS_TEXT || 'Thanks for your feedback!',
+    },
+    fallback: {
+      language: FALLBACK_LANGUAGES.includes(process.env.FALLBACK_LANGUAGE || '') ? (process.env.FALLBACK_LANGUAGE as string) : 'en',
+      errorMessage: process.env.FALLBACK_ERROR_MESSAGE || '',
+      unavailableMessage: process.env.FALLBACK_UNAVAILABLE_MESSAGE || '',
+      holdingMessage: process.env.FALLBACK_HOLDING_MESSAGE || '',
+      holdingMessageAfterMs: envInt('FALLBACK_HOLDING_MESSAGE_AFTER_MS', 0),
+      followUp: process.env.FALLBACK_FOLLOW_UP !== 'false',
+    },
+    serviceWindow: {
+      fallbackTemplateName: process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE || '',
+      fallbackTemplateLanguage: process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE_LANGUAGE || 'en_US',
+    },
+  };
+}
+
+const cache = new Map<string, { settings: ChatbotSettings; expiresAt: number }>();
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge overrides into defaults. Only keys present in the defaults are taken, and
+ * values must have the same type as the default.
+ */
+function mergeSettings<T extends object>(defaults: T, overrides: unknown, path = ''): T {
+  const merged: Record<string, unknown> = Object.fromEntries(Object.entries(defaults));
+  if (!isPlainObject(overrides)) {
+    return merged as T;
+  }
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!(key in defaults)) {
+      throw new ValidationError(`Unknown setting: ${keyPath}`);
+    }
+
+    const defaultValue = merged[key];
+    if (isPlainObject(defaultValue)) {
+      merged[key] = mergeSettings(defaultValue, value, keyPath);
+    } else if (Array.isArray(defaultValue)) {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        throw new ValidationError(`Setting ${keyPath} must be an array of strings`);
+      }
+      merged[key] = value;
+    } else if (SETTING_CHOICES[keyPath]) {
+      if (typeof value !== 'string' || !SETTING_CHOICES[keyPath].includes(value)) {
+        throw new ValidationError(`Setting ${keyPath} must be one of: ${SETTING_CHOICES[keyPath].join(', ')}`);
+      }
+      merged[key] = value;
+    } else if (value === null || defaultValue === null || typeof value === typeof defaultValue) {
+      merged[key] = value;
+    } else {
+      throw new ValidationError(`Setting ${keyPath} must be of type ${typeof defaultValue}`);
+    }
+  }
+
+  return merged as T;
+}
+
+function mergeOverrides(current: Record<string, unknown>, update: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(update)) {
+    const currentValue = current[key];
+    merged[key] = isPlainObject(value) && isPlainObject(currentValue) ? mergeOverrides(currentValue, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Stored overrides for a chatbot (without defaults)
+ */
+async function getStoredOverrides(chatbotId: string): Promise<Record<string, unknown>> {
+  const pool = await getDbClient();
+  if (!pool) return {};
+
+  const result = await pool.query(
+    `SELECT settings FROM whatsapp_chatbot_settings WHERE chatbot_id = $1`,
+    [chatbotId]
+  );
+  return result.rows[0]?.settings || {};
+}
+
+/**
+ * Effective settings for a chatbot (cached for CHATBOT_SETTINGS_CACHE_TTL_MS)
+ */
+export async function getChatbotSettings(chatbotId: string): Promise<ChatbotSettings> {
+  const cached = cache.get(chatbotId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  let settings: ChatbotSettings;
+  try {
+    settings = mergeSettings(getDefaultChatbotSettings(), await getStoredOverrides(chatbotId));
+  } catch (error) {
+    // Bad stored settings must not break message handling
+    logger.error(`Invalid stored settings for chatbot ${chatbotId}, using defaults:`, error);
+    settings = getDefaultChatbotSettings();
+  }
+
+  cache.set(chatbotId, { settings, expiresAt: Date.now() + CACHE_TTL_MS });
+  return settings;
+}
+
+/**
+ * Merge a partial update into a chatbot's stored settings and return the effective settings
+ */
+export async function updateChatbotSettings(chatbotId: string, update: unknown): Promise<ChatbotSettings> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+  if (!isPlainObject(update)) {
+    throw new ValidationError('Settings must be an object');
+  }
+
+  // Only overrides are stored so changed service defaults still apply to untouched settings
+  const overrides = mergeOverrides(await getStoredOverrides(chatbotId), update);
+  // Validate against the defaults' shape before storing
+  mergeSettings(getDefaultChatbotSettings(), overrides);
+
+  await pool.query(
+    `INSERT INTO whatsapp_chatbot_settings (chatbot_id, settings, updated_at)
+     VALUES ($1, $2, NOW())
+     ON CONFLICT (chatbot_id) DO UPDATE SET settings = EXCLUDED.settings, updated_at = NOW()`,
+    [chatbotId, JSON.stringify(overrides)]
+  );
+
+  cache.delete(chatbotId);
+  return getChatbotSettings(chatbotId);
+}
@@ -0,0 +1,239 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { createId } from '@paralleldrive/cuid2';
+import { WhatsAppAccount } from './accounts';
+import { ChatbotSettings } from './chatbot-settings';
+import { getRepositories } from '../repositories';
+
+export type ConsentAction = 'opt_out' | 'opt_in';
+export type ConsentSource = 'keyword' | 'api';
+
+// Built-in keyword sets, selected per chatbot with settings.consent.languages
+export const CONSENT_KEYWORDS: Record<string, { optOut: string[]; optIn: string[] }> = {
+  en: {
+    optOut: ['stop', 'stopall', 'stop all', 'unsubscribe', 'cancel', 'end', 'quit', 'opt out', 'optout'],
+    optIn: ['start', 'unstop', 'subscribe', 'opt in', 'optin'],
+  },
+  es: {
+    optOut: ['parar', 'detener', 'baja', 'darme de baja', 'cancelar suscripcion', 'cancelar suscripción'],
+    optIn: ['alta', 'iniciar', 'suscribir', 'suscribirme'],
+  },
+  pt: {
+    optOut: ['parar', 'sair', 'cancelar inscricao', 'cancelar inscrição', 'descadastrar'],
+    optIn: ['iniciar', 'voltar', 'inscrever', 'cadastrar'],
+  },
+  fr: {
+    optOut: ['arret', 'arrêt', 'stop', 'desabonner', 'désabonner', 'désinscrire'],
+    optIn: ['commencer', 'abonner', "m'abonner", 'start'],
+  },
+  de: {
+    optOut: ['stopp', 'stop', 'abmelden', 'abbestellen'],
+    optIn: ['start', 'anmelden', 'abonnieren'],
+  },
+};
+
+export interface ContactConsent {
+  optedIn: boolean;
+  updatedAt: string | null;
+  source: string | null;
+}
+
+export interface ConsentEvent {
+  id: string;
+  chatbot_id: string;
+  contact_id: string | null;
+  phone_number: string;
+  status: 'opted_in' | 'opted_out';
+  source: string;
+  keyword: string | null;
+  wa_message_id: string | null;
+  actor: string | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.!?¡¿,;:'"\s]+$/g, '')
+    .replace(/^[.!?¡¿,;:'"\s]+/g, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Detect a STOP/START style keyword. Only a message consisting of the keyword alone counts,
+ * so "please don't stop" is not an opt-out.
+ */
+export function detectConsentKeyword(
+  text: string,
+  settings: ChatbotSettings['consent']
+): { action: ConsentAction; keyword: string } | null {
+  const normalized = normalize(text);
+  if (!normalized) return null;
+
+  const optOut = [...settings.optOutKeywords];
+  const optIn = [...settings.optInKeywords];
+  for (const language of settings.languages) {
+    const keywords = CONSENT_KEYWORDS[language];
+    if (keywords) {
+      optOut.push(...keywords.optOut);
+      optIn.push(...keywords.optIn);
+    }
+  }
+
+  // Opt-out wins when a word is configured both ways
+  if (optOut.some((keyword) => normalize(keyword) === normalized)) {
+    return { action: 'opt_out', keyword: normalized };
+  }
+  if (optIn.some((keyword) => normalize(keyword) === normalized)) {
+    return { action: 'opt_in', keyword: normalized };
+  }
+  return null;
+}
+
+/**
+ * Current consent state of a contact (unknown contacts count as opted in)
+ */
+export async function getContactConsent(chatbotId: string, phoneNumber: string): Promise<ContactConsent> {
+  return (await getRepositories()).contacts.getConsent(chatbotId, phoneNumber);
+}
+
+export async function isContactOptedOut(chatbotId: string, phoneNumber: string): Promise<boolean> {
+  return !(await getContactConsent(chatbotId, phoneNumber)).optedIn;
+}
+
+/**
+ * Change a contact's consent state and append it to the audit trail
+ */
+export async function recordConsentChange(
+  account: WhatsAppAccount,
+  params: {
+    phoneNumber: string;
+    optedIn: boolean;
+    source: ConsentSource;
+    keyword?: string;
+    waMessageId?: string;
+    actor?: string;
+    reason?: string;
+  }
+): Promise<ConsentEvent> {
+  const { contacts } = await getRepositories();
+  const contactId = await contacts.ensure(account, params.phoneNumber);
+  const now = new Date();
+
+  await contacts.setConsent(contactId, { optedIn: params.optedIn, updatedAt: now, source: params.source });
+
+  const event: ConsentEvent = {
+    id: createId(),
+    chatbot_id: account.chatbot_id,
+    contact_id: contactId,
+    phone_number: params.phoneNumber,
+    status: params.optedIn ? 'opted_in' : 'opted_out',
+    source: params.source,
+    keyword: params.keyword || null,
+    wa_message_id: params.waMessageId || null,
+    actor: params.actor || null,
+    reason: params.reason || null,
+    created_at: now,
+  };
+
+  // The audit trail is only kept with a database
+  const pool = await getDbClient();
+  if (pool) {
+    await pool.query(
+      `INSERT INTO contact_consent_events
+       (id, chatbot_id, contact_id, phone_number, status, source, keyword, wa_message_id, actor, reason, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        event.id,
+        event.chatbot_id,
+        event.contact_id,
+        event.phone_number,
+        event.status,
+        event.source,
+        event.keyword,
+        event.wa_message_id,
+        event.actor,
+        event.reason,
+        event.created_at,
+      ]
+    );
+  }
+
+  logger.info(`Contact ${params.phoneNumber} ${params.optedIn ? 'opted in' : 'opted out'} for chatbot ${account.chatbot_id}`, {
+    source: params.source,
+  });
+  return event;
+}
+
+/**
+ * Consent audit trail of a chatbot, oldest first
+ */
+export async function listConsentEvents(
+  chatbotId: string,
+  filters: { from?: Date; to?: Date; phoneNumber?: string; limit?: number } = {}
+): Promise<ConsentEvent[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const conditions = ['chatbot_id = $1'];
+  const values: unknown[] = [chatbotId];
+  if (filters.from) {
+    values.push(filters.from);
+    conditions.push(`created_at >= $${values.length}`);
+  }
+  if (filters.to) {
+    values.push(filters.to);
+    conditions.push(`created_at < $${values.length}`);
+  }
+  if (filters.phoneNumber) {
+    values.push(filters.phoneNumber);
+    conditions.push(`phone_number = $${values.length}`);
+  }
+  values.push(filters.limit || 10000);
+
+  const result = await pool.query<ConsentEvent>(
+    `SELECT * FROM contact_consent_events
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at ASC
+     LIMIT $${values.length}`,
+    values
+  );
+  return result.rows;
+}
+
+const CSV_COLUMNS: Array<keyof ConsentEvent> = [
+  'created_at',
+  'phone_number',
+  'status',
+  'source',
+  'keyword',
+  'wa_message_id',
+  'actor',
+  'reason',
+  'contact_id',
+  'id',
+];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating customer-provided text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render consent events as CSV for compliance reviews
+ */
+export function consentEventsToCsv(events: ConsentEvent[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map((column) => csvValue(event[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
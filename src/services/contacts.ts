@@ -0,0 +1,33 @@
+import { WhatsAppAccount } from './accounts';
+import { getRepositories } from '../repositories';
+
+/**
+ * Conversation ID shared by all messages between a contact and a chatbot
+ */
+export function buildUniqueConvId(phoneNumber: string, chatbotId: string): string {
+  return `whatsapp_${phoneNumber}_${chatbotId}`;
+}
+
+/**
+ * Get or create the contact for an inbound message and record when it was last seen
+ */
+export async function upsertInboundContact(
+  account: WhatsAppAccount,
+  params: { phoneNumber: string; displayName: string; timestamp: Date; messageId: string }
+): Promise<string> {
+  return (await getRepositories()).contacts.upsertInbound(account, params);
+}
+
+/**
+ * Get or create a contact for an outbound (business-initiated) message
+ */
+export async function ensureOutboundContact(account: WhatsAppAccount, phoneNumber: string): Promise<string> {
+  return (await getRepositories()).contacts.ensure(account, phoneNumber);
+}
+
+/**
+ * When the contact last sent us a message (start of the 24-hour customer service window)
+ */
+export async function getContactLastInboundAt(chatbotId: string, phoneNumber: string): Promise<Date | null> {
+  return (await getRepositories()).contacts.getLastInboundAt(chatbotId, phoneNumber);
+}
@@ -0,0 +1,143 @@
+import { ChatbotSettings } from './chatbot-settings';
+import { getRepositories, MessageMetadata, StoredMessage } from '../repositories';
+
+export type ContextRole = 'user' | 'assistant' | 'agent' | 'system';
+
+export interface ContextMessage {
+  role: ContextRole;
+  content: string;
+}
+
+type ContextSettings = ChatbotSettings['context'];
+
+/**
+ * Option picked by the customer (stored as channel_message_metadata.interactiveReply)
+ */
+export interface InteractiveReply {
+  type: 'button_reply' | 'list_reply' | 'quick_reply';
+  id: string;
+  title: string;
+  description?: string;
+}
+
+const TRUNCATION_MARKER = '…';
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, Math.max(0, maxChars - TRUNCATION_MARKER.length)) + TRUNCATION_MARKER;
+}
+
+function offeredOptions(metadata: MessageMetadata): Array<{ id: string; title: string }> {
+  const { interactive } = metadata;
+  if (interactive?.type === 'button') return interactive.buttons;
+  if (interactive?.type === 'list') return interactive.sections.flatMap((section) => section.rows);
+  return metadata.options || [];
+}
+
+/**
+ * Message content as the model sees it: offered choices and picked options carry their ids
+ * so the response API can tell which option was chosen
+ */
+function toContextMessage(message: StoredMessage): ContextMessage {
+  const role = message.type === 'user' || message.type === 'agent' ? message.type : 'assistant';
+  const { interactiveReply } = message.channel_message_metadata;
+  let content = message.content;
+
+  if (role === 'user' && interactiveReply?.id) {
+    content = `${content} [selected option id: ${interactiveReply.id}]`;
+  } else if (role === 'assistant') {
+    const options = offeredOptions(message.channel_message_metadata);
+    if (options.length > 0) {
+      content = `${content}\n[options: ${options.map((option) => `${option.title} (id: ${option.id})`).join('; ')}]`;
+    }
+  }
+
+  return { role, content };
+}
+
+/**
+ * Extractive summary of older turns: one line per message, newest lines kept when over budget
+ */
+function summarize(messages: ContextMessage[], maxChars: number): string | null {
+  const header = 'Summary of earlier conversation:';
+  const lines: string[] = [];
+  let length = header.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const line = `- ${messages[i].role}: ${truncate(messages[i].content.replace(/\s+/g, ' ').trim(), 200)}`;
+    if (maxChars > 0 && length + line.length + 1 > maxChars) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+
+  return lines.length > 0 ? [header, ...lines].join('\n') : null;
+}
+
+/**
+ * Join consecutive customer messages into one turn (a burst answered with a single reply)
+ */
+function mergeUserTurns(messages: ContextMessage[]): ContextMessage[] {
+  const merged: ContextMessage[] = [];
+  for (const message of messages) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === 'user' && message.role === 'user') {
+      previous.content = `${previous.content}\n${message.content}`;
+    } else {
+      merged.push({ ...message });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the message list sent to the response API: the most recent messages of the conversation
+ * (oldest first) within the configured message and character budgets, optionally preceded by a
+ * summary of the turns that did not fit
+ */
+export async function buildConversationContext(
+  chatbotId: string,
+  uniqueConvId: string,
+  settings: ContextSettings,
+  options: { mergeUserTurns?: boolean } = {}
+): Promise<ContextMessage[]> {
+  const maxMessages = Math.max(1, settings.maxMessages);
+  const fetchLimit = maxMessages + (settings.includeSummary ? Math.max(0, settings.summaryMaxMessages) : 0);
+
+  // Newest first, so the limit keeps the most recent messages
+  const recent = await (await getRepositories()).messages.listRecent(chatbotId, uniqueConvId, {
+    limit: fetchLimit,
+    includeAgentMessages: settings.includeAgentMessages,
+  });
+
+  const newestFirst: ContextMessage[] = recent.map(toContextMessage);
+  const included: ContextMessage[] = [];
+  let usedChars = 0;
+  let index = 0;
+
+  for (; index < newestFirst.length && included.length < maxMessages; index++) {
+    const message = newestFirst[index];
+    if (settings.maxChars > 0 && usedChars + message.content.length > settings.maxChars) {
+      // The current message is always sent, truncated if it alone exceeds the budget
+      if (included.length === 0) {
+        included.push({ ...message, content: truncate(message.content, settings.maxChars) });
+        index++;
+      }
+      break;
+    }
+    included.push(message);
+    usedChars += message.content.length;
+  }
+
+  const chronological = included.reverse();
+  const context = options.mergeUserTurns ? mergeUserTurns(chronological) : chronological;
+
+  if (settings.includeSummary) {
+    const older = newestFirst.slice(index).reverse();
+    const summary = older.length > 0 ? summarize(older, settings.summaryMaxChars) : null;
+    if (summary) {
+      context.unshift({ role: 'system', content: summary });
+    }
+  }
+
+  return context;
+}
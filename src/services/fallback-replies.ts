@@ -0,0 +1,44 @@
+import { ChatbotSettings } from './chatbot-settings';
+
+// error: no answer could be produced; unavailable: the response API is down and a follow-up is queued;
+// holding: the answer is taking long
+export type FallbackKind = 'error' | 'unavailable' | 'holding';
+
+// Built-in texts, selected per chatbot with settings.fallback.language
+export const FALLBACK_MESSAGES: Record<string, Record<FallbackKind, string>> = {
+  en: {
+    error: 'Sorry, I encountered an error processing your message. Please try again later.',
+    unavailable: "Sorry, I can't answer right now. I'll reply here as soon as I can.",
+    holding: "Thanks for your message, we're looking into it. This may take a moment.",
+  },
+  es: {
+    error: 'Lo sentimos, hubo un error al procesar tu mensaje. Por favor, inténtalo de nuevo más tarde.',
+    unavailable: 'Lo sentimos, ahora mismo no puedo responder. Te contestaré aquí lo antes posible.',
+    holding: 'Gracias por tu mensaje, lo estamos revisando. Esto puede tardar un momento.',
+  },
+  pt: {
+    error: 'Desculpe, ocorreu um erro ao processar sua mensagem. Por favor, tente novamente mais tarde.',
+    unavailable: 'Desculpe, não consigo responder agora. Vou responder aqui assim que possível.',
+    holding: 'Obrigado pela sua mensagem, estamos verificando. Isso pode levar um momento.',
+  },
+  fr: {
+    error: "Désolé, une erreur s'est produite lors du traitement de votre message. Veuillez réessayer plus tard.",
+    unavailable: 'Désolé, je ne peux pas répondre pour le moment. Je vous répondrai ici dès que possible.',
+    holding: 'Merci pour votre message, nous nous en occupons. Cela peut prendre un instant.',
+  },
+  de: {
+    error: 'Entschuldigung, beim Verarbeiten Ihrer Nachricht ist ein Fehler aufgetreten. Bitte versuchen Sie es später erneut.',
+    unavailable: 'Entschuldigung, ich kann gerade nicht antworten. Ich melde mich hier, sobald ich kann.',
+    holding: 'Danke für Ihre Nachricht, wir kümmern uns darum. Das kann einen Moment dauern.',
+  },
+};
+
+export const FALLBACK_LANGUAGES = Object.keys(FALLBACK_MESSAGES);
+
+/**
+ * Fallback text of a chatbot: its own override, else the built-in text of its language
+ */
+export function fallbackText(fallback: ChatbotSettings['fallback'], kind: FallbackKind): string {
+  const override = { error: fallback.errorMessage, unavailable: fallback.unavailableMessage, holding: fallback.holdingMessage }[kind];
+  return override || (FALLBACK_MESSAGES[fallback.language] || FALLBACK_MESSAGES.en)[kind];
+}
@@ -0,0 +1,100 @@
+import logger from '../config/logger';
+import { ChatbotSettings } from './chatbot-settings';
+import { getRepositories } from '../repositories';
+import { OutboundMessage, WHATSAPP_LIMITS } from '../utils/whatsapp-payload';
+
+// messages.feedback values (mirrors Feedback in schema.ts)
+export const FEEDBACK = {
+  None: 0,
+  Like: 1,
+  Dislike: 2,
+  Neutral: 3,
+} as const;
+
+export type FeedbackValue = (typeof FEEDBACK)[keyof typeof FEEDBACK];
+
+// Feedback button ids: feedback:<like|dislike>:<waMessageId of the rated answer>
+const BUTTON_PREFIX = 'feedback:';
+
+// How long after the comment prompt the next customer message counts as a comment
+const COMMENT_WINDOW_MINUTES = parseInt(process.env.FEEDBACK_COMMENT_WINDOW_MINUTES || '10', 10);
+
+type FeedbackSettings = ChatbotSettings['feedback'];
+
+/**
+ * Map a WhatsApp reaction to a feedback value (an empty emoji means the reaction was removed).
+ * Other emoji are not feedback.
+ */
+export function reactionToFeedback(emoji: string | undefined): FeedbackValue | null {
+  if (!emoji) return FEEDBACK.None;
+  // Ignore skin tone modifiers and variation selectors
+  const base = emoji.replace(/[\u{1F3FB}-\u{1F3FF}]|\u{FE0F}/gu, '');
+  if (base === '👍') return FEEDBACK.Like;
+  if (base === '👎') return FEEDBACK.Dislike;
+  return null;
+}
+
+/**
+ * Feedback carried by a thumbs-up/down button reply
+ */
+export function parseFeedbackButtonId(id: string | undefined): { feedback: FeedbackValue; waMessageId: string } | null {
+  if (!id?.startsWith(BUTTON_PREFIX)) return null;
+
+  const [, value, ...rest] = id.split(':');
+  const waMessageId = rest.join(':');
+  if (!waMessageId || (value !== 'like' && value !== 'dislike')) return null;
+
+  return { feedback: value === 'like' ? FEEDBACK.Like : FEEDBACK.Dislike, waMessageId };
+}
+
+/**
+ * "Was this helpful?" quick-reply buttons for an AI answer
+ */
+export function buildFeedbackPrompt(answerWaMessageId: string, settings: FeedbackSettings): OutboundMessage {
+  return {
+    type: 'interactive',
+    interactive: {
+      type: 'button',
+      body: settings.prompt.slice(0, WHATSAPP_LIMITS.interactiveBody),
+      buttons: [
+        { id: `${BUTTON_PREFIX}like:${answerWaMessageId}`, title: settings.likeText.slice(0, WHATSAPP_LIMITS.buttonTitle) },
+        {
+          id: `${BUTTON_PREFIX}dislike:${answerWaMessageId}`,
+          title: settings.dislikeText.slice(0, WHATSAPP_LIMITS.buttonTitle),
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Store feedback on an assistant message. Returns false when the message is not an assistant
+ * message of this chatbot.
+ */
+export async function recordMessageFeedback(chatbotId: string, waMessageId: string, feedback: FeedbackValue): Promise<boolean> {
+  const updated = await (await getRepositories()).messages.setFeedback(chatbotId, waMessageId, feedback);
+  if (updated) {
+    logger.info(`Feedback ${feedback} recorded for message ${waMessageId}`);
+  } else {
+    logger.info(`Feedback for unknown or non-assistant message ${waMessageId} ignored`);
+  }
+  return updated;
+}
+
+export async function recordFeedbackComment(chatbotId: string, waMessageId: string, comment: string): Promise<void> {
+  await (await getRepositories()).messages.setFeedbackComment(chatbotId, waMessageId, comment);
+  logger.info(`Feedback comment recorded for message ${waMessageId}`);
+}
+
+/**
+ * The answer awaiting a comment: set when our latest message in the conversation is a
+ * comment prompt sent within the comment window
+ */
+export async function findPendingFeedbackComment(chatbotId: string, uniqueConvId: string): Promise<string | null> {
+  const latest = await (await getRepositories()).messages.findLatestOutbound(chatbotId, uniqueConvId);
+
+  const answerId = latest?.channel_message_metadata.feedbackCommentFor;
+  if (!latest || !answerId) return null;
+  if (Date.now() - new Date(latest.created_at).getTime() > COMMENT_WINDOW_MINUTES * 60 * 1000) return null;
+  return answerId;
+}
@@ -0,0 +1,88 @@
+import logger from '../config/logger';
+import { responseFollowUpsTotal } from '../config/metrics';
+import { errorMessage, GraphApiError, ResponseApiError } from '../utils/errors';
+import { claimFollowUp, completeFollowUp, listFollowUps, releaseFollowUp } from './follow-ups';
+import { getCircuitState } from './response-api';
+import { answerFollowUp } from './webhook-handler';
+import { trackInFlight } from './in-flight';
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.RESPONSE_FOLLOW_UP_INTERVAL_MS || '15000', 10);
+// Unanswered turns older than this are dropped (keep below WhatsApp's 24-hour customer service window)
+const MAX_AGE_MS = parseInt(process.env.RESPONSE_FOLLOW_UP_MAX_AGE_MS || String(12 * 60 * 60 * 1000), 10);
+const BATCH_SIZE = 100;
+
+/**
+ * Failures another attempt cannot fix: the response API refused the turn, or WhatsApp refused the
+ * answer (invalid recipient, auth, re-engagement) or may already have delivered it (timeout, network)
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (error instanceof ResponseApiError && !error.transient) || (error instanceof GraphApiError && !error.retryable);
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/**
+ * Answer queued follow-ups of chatbots whose response API circuit is not open. The first call after
+ * the cooldown is the circuit's trial call, so a chatbot's remaining follow-ups wait while it fails.
+ */
+export async function sweepFollowUps(): Promise<void> {
+  if (sweeping) return;
+
+  sweeping = true;
+  try {
+    for (const queued of await listFollowUps(BATCH_SIZE)) {
+      if (getCircuitState(queued.chatbot_id) === 'open') continue;
+
+      const followUp = await claimFollowUp(queued.unique_conv_id);
+      if (!followUp) continue;
+
+      if (Date.now() - new Date(followUp.created_at).getTime() > MAX_AGE_MS) {
+        await completeFollowUp(followUp);
+        responseFollowUpsTotal.inc({ outcome: 'expired' });
+        logger.warn(`Follow-up for ${followUp.unique_conv_id} expired after ${followUp.attempts} attempt(s)`);
+        continue;
+      }
+
+      try {
+        const answered = await trackInFlight('follow_up', answerFollowUp(followUp));
+        // Only now - a crash before this leaves the claim to expire and the follow-up to be retried
+        await completeFollowUp(followUp);
+        responseFollowUpsTotal.inc({ outcome: answered ? 'sent' : 'dropped' });
+      } catch (error) {
+        if (isPermanentFailure(error)) {
+          await completeFollowUp(followUp);
+          responseFollowUpsTotal.inc({ outcome: 'failed' });
+          logger.error(`Follow-up for ${followUp.unique_conv_id} failed, dropping it:`, { message: errorMessage(error) });
+          continue;
+        }
+        if (!(error instanceof ResponseApiError && error.transient)) {
+          logger.error(`Follow-up for ${followUp.unique_conv_id} failed:`, { message: errorMessage(error) });
+        }
+        // Answered on the next sweep
+        await releaseFollowUp(followUp, errorMessage(error));
+      }
+    }
+  } finally {
+    sweeping = false;
+  }
+}
+
+/**
+ * Periodically answer turns the response API could not answer
+ */
+export function startFollowUpWorker(): void {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(() => {
+    sweepFollowUps().catch((error) => logger.error('Error sweeping follow-ups:', error));
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
+
+export function stopFollowUpWorker(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
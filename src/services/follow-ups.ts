@@ -0,0 +1,177 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { responseFollowUpsTotal } from '../config/metrics';
+
+// A claim older than this is assumed abandoned (crashed instance) and can be taken over
+const CLAIM_TIMEOUT_MS = parseInt(process.env.RESPONSE_FOLLOW_UP_CLAIM_TIMEOUT_MS || '300000', 10);
+
+/**
+ * Conversation whose AI reply failed because the response API was unavailable; answered once it recovers.
+ * One per conversation - the follow-up answers every message since the last reply.
+ */
+export interface FollowUp {
+  unique_conv_id: string;
+  chatbot_id: string;
+  phone_number: string;
+  attempts: number;
+  last_error: string | null;
+  // Set while a worker answers it
+  claimed_at: Date | null;
+  // First failure - follow-ups expire RESPONSE_FOLLOW_UP_MAX_AGE_MS after it
+  created_at: Date;
+  // Last time a failed turn was queued or an attempt failed
+  updated_at: Date;
+}
+
+// Fallback store for single-user mode (no database)
+const memoryFollowUps = new Map<string, FollowUp>();
+
+const FOLLOW_UP_COLUMNS = 'unique_conv_id, chatbot_id, phone_number, attempts, last_error, claimed_at, created_at, updated_at';
+
+function isClaimable(followUp: FollowUp, now: number): boolean {
+  return !followUp.claimed_at || followUp.claimed_at.getTime() < now - CLAIM_TIMEOUT_MS;
+}
+
+/**
+ * Queue a follow-up reply (keeps the first failure time of a conversation already queued)
+ */
+export async function queueFollowUp(params: {
+  chatbotId: string;
+  uniqueConvId: string;
+  phoneNumber: string;
+  error: string;
+}): Promise<void> {
+  const { chatbotId, uniqueConvId, phoneNumber, error } = params;
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const existing = memoryFollowUps.get(uniqueConvId);
+    const now = new Date();
+    memoryFollowUps.set(uniqueConvId, {
+      unique_conv_id: uniqueConvId,
+      chatbot_id: chatbotId,
+      phone_number: phoneNumber,
+      attempts: existing?.attempts ?? 0,
+      last_error: error,
+      claimed_at: existing?.claimed_at ?? null,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    });
+  } else {
+    await pool.query(
+      `INSERT INTO response_follow_ups
+       (unique_conv_id, chatbot_id, phone_number, attempts, last_error, created_at, updated_at)
+       VALUES ($1, $2, $3, 0, $4, NOW(), NOW())
+       ON CONFLICT (unique_conv_id) DO UPDATE
+         SET last_error = EXCLUDED.last_error, updated_at = NOW()`,
+      [uniqueConvId, chatbotId, phoneNumber, error]
+    );
+  }
+
+  responseFollowUpsTotal.inc({ outcome: 'queued' });
+  logger.info(`Follow-up reply queued for ${uniqueConvId}`, { error });
+}
+
+/**
+ * Queued follow-ups no worker is answering, oldest first
+ */
+export async function listFollowUps(limit: number): Promise<FollowUp[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    const now = Date.now();
+    return [...memoryFollowUps.values()]
+      .filter((followUp) => isClaimable(followUp, now))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .slice(0, limit);
+  }
+
+  const result = await pool.query(
+    `SELECT ${FOLLOW_UP_COLUMNS} FROM response_follow_ups
+     WHERE claimed_at IS NULL OR claimed_at < NOW() - $2 * INTERVAL '1 millisecond'
+     ORDER BY created_at ASC LIMIT $1`,
+    [limit, CLAIM_TIMEOUT_MS]
+  );
+  return result.rows;
+}
+
+/**
+ * Claim a follow-up for answering; null when another worker holds a live claim on it.
+ * The row stays queued until completeFollowUp, so a crash mid-answer only delays it.
+ */
+export async function claimFollowUp(uniqueConvId: string): Promise<FollowUp | null> {
+  const pool = await getDbClient();
+  if (!pool) {
+    const followUp = memoryFollowUps.get(uniqueConvId);
+    if (!followUp || !isClaimable(followUp, Date.now())) {
+      return null;
+    }
+    followUp.claimed_at = new Date();
+    return { ...followUp };
+  }
+
+  // Single statement so concurrent workers race on the row
+  const result = await pool.query(
+    `UPDATE response_follow_ups
+     SET claimed_at = NOW()
+     WHERE unique_conv_id = $1
+       AND (claimed_at IS NULL OR claimed_at < NOW() - $2 * INTERVAL '1 millisecond')
+     RETURNING ${FOLLOW_UP_COLUMNS}`,
+    [uniqueConvId, CLAIM_TIMEOUT_MS]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Remove an answered (or dropped) follow-up. A turn that failed again after the claim keeps it
+ * queued - only the claim is released.
+ */
+export async function completeFollowUp(followUp: FollowUp): Promise<void> {
+  const { unique_conv_id: uniqueConvId, claimed_at: claimedAt } = followUp;
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const stored = memoryFollowUps.get(uniqueConvId);
+    if (stored && claimedAt && stored.updated_at > claimedAt) {
+      stored.claimed_at = null;
+    } else {
+      memoryFollowUps.delete(uniqueConvId);
+    }
+    return;
+  }
+
+  const deleted = await pool.query(
+    `DELETE FROM response_follow_ups WHERE unique_conv_id = $1 AND updated_at <= $2`,
+    [uniqueConvId, claimedAt]
+  );
+  if (deleted.rowCount === 0) {
+    await pool.query(`UPDATE response_follow_ups SET claimed_at = NULL WHERE unique_conv_id = $1`, [uniqueConvId]);
+  }
+}
+
+/**
+ * Put a follow-up back after a failed attempt (answered on a later sweep)
+ */
+export async function releaseFollowUp(followUp: FollowUp, error: string): Promise<void> {
+  const uniqueConvId = followUp.unique_conv_id;
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const stored = memoryFollowUps.get(uniqueConvId);
+    if (stored) {
+      stored.attempts++;
+      stored.last_error = error;
+      stored.claimed_at = null;
+      stored.updated_at = new Date();
+    }
+  } else {
+    await pool.query(
+      `UPDATE response_follow_ups
+       SET attempts = attempts + 1, last_error = $2, claimed_at = NULL, updated_at = NOW()
+       WHERE unique_conv_id = $1`,
+      [uniqueConvId, error]
+    );
+  }
+
+  responseFollowUpsTotal.inc({ outcome: 'requeued' });
+  logger.info(`Follow-up reply for ${uniqueConvId} requeued`, { attempts: followUp.attempts + 1, error });
+}
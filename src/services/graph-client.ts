@@ -0,0 +1,218 @@
+import axios, { AxiosError } from 'axios';
+import logger from '../config/logger';
+import { GraphApiOperation, getGraphApiBaseUrl } from '../config/graph';
+import { graphApiDuration, graphApiErrorsTotal, graphApiRetriesTotal, graphApiThrottleWait } from '../config/metrics';
+import { errorMessage, GraphApiError, GraphErrorKind } from '../utils/errors';
+
+// Client configuration (all overridable via environment)
+const TIMEOUT_MS = parseInt(process.env.GRAPH_API_TIMEOUT_MS || '10000', 10);
+const MAX_RETRIES = parseInt(process.env.GRAPH_API_MAX_RETRIES || '3', 10);
+const BASE_RETRY_DELAY_MS = parseInt(process.env.GRAPH_API_RETRY_BASE_DELAY_MS || '500', 10);
+const MAX_RETRY_DELAY_MS = parseInt(process.env.GRAPH_API_RETRY_MAX_DELAY_MS || '10000', 10);
+// Sends per second per sending phone number (Cloud API default throughput is 80); 0 disables the limit
+const RATE_LIMIT_PER_SECOND = parseFloat(process.env.GRAPH_API_RATE_LIMIT_PER_SECOND || '80');
+
+// Graph error codes, see https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const RATE_LIMIT_CODES = new Set([4, 80007, 130429, 131056]);
+const TRANSIENT_CODES = new Set([1, 2, 131016]);
+const REENGAGEMENT_CODES = new Set([131047]);
+const INVALID_RECIPIENT_CODES = new Set([131021, 131026, 131030]);
+const AUTH_CODES = new Set([10, 190, 200]);
+
+export interface GraphRequest {
+  operation: GraphApiOperation;
+  method?: 'GET' | 'POST';
+  // Path below the versioned base URL (`/<phone-number-id>/messages`) or an absolute URL (media downloads, paging cursors)
+  path: string;
+  accessToken: string;
+  params?: Record<string, string | number>;
+  data?: unknown;
+  // Sending phone number; requests carrying it share that number's rate limit
+  phoneNumberId?: string;
+  timeoutMs?: number;
+  responseType?: 'json' | 'arraybuffer';
+  maxContentLength?: number;
+}
+
+interface TokenBucket {
+  // Negative when callers are queued for the next tokens
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reserve a send slot for the phone number (token bucket, bursts up to one second of throughput)
+ * and wait until it is due
+ */
+async function acquireSendSlot(phoneNumberId: string): Promise<void> {
+  if (!(RATE_LIMIT_PER_SECOND > 0)) return;
+
+  const now = Date.now();
+  const bucket = buckets.get(phoneNumberId) || { tokens: RATE_LIMIT_PER_SECOND, updatedAt: now };
+  bucket.tokens = Math.min(RATE_LIMIT_PER_SECOND, bucket.tokens + ((now - bucket.updatedAt) / 1000) * RATE_LIMIT_PER_SECOND);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+  buckets.set(phoneNumberId, bucket);
+
+  const waitMs = bucket.tokens < 0 ? Math.ceil((-bucket.tokens / RATE_LIMIT_PER_SECOND) * 1000) : 0;
+  graphApiThrottleWait.observe(waitMs / 1000);
+  if (waitMs > 0) {
+    await sleep(waitMs);
+  }
+}
+
+function isTimeout(error: AxiosError): boolean {
+  return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+}
+
+function kindOf(error: AxiosError, status: number | undefined, code: number | undefined, isTransient: boolean): GraphErrorKind {
+  if (code !== undefined) {
+    if (RATE_LIMIT_CODES.has(code)) return 'rate_limited';
+    if (REENGAGEMENT_CODES.has(code)) return 'reengagement_required';
+    if (INVALID_RECIPIENT_CODES.has(code)) return 'invalid_recipient';
+    if (AUTH_CODES.has(code)) return 'auth';
+    if (TRANSIENT_CODES.has(code) || isTransient) return 'transient';
+  }
+  if (status === undefined) return isTimeout(error) ? 'timeout' : 'network';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'transient';
+  if (status === 401 || status === 403) return 'auth';
+  return 'invalid_request';
+}
+
+/**
+ * Error object of a Graph API error response (`{ "error": { ... } }`), fields as Meta documents them
+ */
+interface GraphErrorBody {
+  message?: string;
+  code?: number;
+  error_subcode?: number;
+  is_transient?: boolean;
+  fbtrace_id?: string;
+}
+
+function graphErrorOf(error: AxiosError): GraphErrorBody | undefined {
+  return (error as AxiosError<{ error?: GraphErrorBody } | null>).response?.data?.error || undefined;
+}
+
+/**
+ * Turn an axios failure into a classified GraphApiError
+ */
+export function toGraphApiError(error: unknown, attempts = 1): GraphApiError {
+  if (error instanceof GraphApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new GraphApiError(errorMessage(error), 'unknown', { attempts });
+  }
+
+  const status = error.response?.status;
+  const graphError = graphErrorOf(error);
+  const code = typeof graphError?.code === 'number' ? graphError.code : undefined;
+
+  return new GraphApiError(graphError?.message || error.message, kindOf(error, status, code, graphError?.is_transient === true), {
+    status,
+    code,
+    subcode: typeof graphError?.error_subcode === 'number' ? graphError.error_subcode : undefined,
+    fbtraceId: graphError?.fbtrace_id,
+    attempts,
+  });
+}
+
+// Metric label: Graph error code when Meta returned one, otherwise http_<status>, timeout or network
+function errorCodeLabel(error: unknown): string {
+  if (!axios.isAxiosError(error)) {
+    return 'unknown';
+  }
+  const code = graphErrorOf(error)?.code;
+  if (code !== undefined) {
+    return String(code);
+  }
+  if (error.response) {
+    return `http_${error.response.status}`;
+  }
+  return isTimeout(error) ? 'timeout' : 'network';
+}
+
+/**
+ * Delay before the given (1-based) retry: Retry-After when Meta sends one, otherwise exponential
+ * backoff with jitter, capped at MAX_RETRY_DELAY_MS
+ */
+function retryDelayMs(retry: number, error: unknown): number {
+  const retryAfter = axios.isAxiosError(error) ? Number(error.response?.headers?.['retry-after']) : NaN;
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, retry - 1);
+  return Math.min(backoff / 2 + Math.random() * (backoff / 2), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether a failed attempt may be repeated. Timeouts and network errors leave it open whether Meta
+ * received the request, so only reads are repeated - a repeated send could deliver a message twice.
+ */
+function shouldRetry(error: GraphApiError, method: 'GET' | 'POST'): boolean {
+  if (error.kind === 'timeout' || error.kind === 'network') {
+    return method === 'GET';
+  }
+  return error.retryable;
+}
+
+/**
+ * Call the Graph API with the account's access token. Throttling and transient failures (5xx) are
+ * retried with backoff, as are timeouts and network errors of GET requests; anything else fails at once.
+ * Resolves to the response body, throws GraphApiError.
+ */
+export async function graphRequest<T = unknown>(request: GraphRequest): Promise<T> {
+  const { operation } = request;
+  const method = request.method || 'GET';
+  const url = /^https?:\/\//.test(request.path) ? request.path : `${getGraphApiBaseUrl()}${request.path}`;
+
+  for (let attempt = 1; ; attempt++) {
+    if (request.phoneNumberId) {
+      await acquireSendSlot(request.phoneNumberId);
+    }
+
+    const endTimer = graphApiDuration.startTimer({ operation });
+    try {
+      const response = await axios.request<T>({
+        method,
+        url,
+        params: request.params,
+        data: request.data,
+        headers: {
+          Authorization: `Bearer ${request.accessToken}`,
+          ...(request.data !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        timeout: request.timeoutMs ?? TIMEOUT_MS,
+        responseType: request.responseType || 'json',
+        ...(request.maxContentLength !== undefined && { maxContentLength: request.maxContentLength }),
+      });
+      endTimer({ outcome: 'success' });
+      return response.data;
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      graphApiErrorsTotal.inc({ operation, code: errorCodeLabel(error) });
+
+      const graphError = toGraphApiError(error, attempt);
+      if (!shouldRetry(graphError, method) || attempt > MAX_RETRIES) {
+        throw graphError;
+      }
+
+      const delayMs = retryDelayMs(attempt, error);
+      graphApiRetriesTotal.inc({ operation, kind: graphError.kind });
+      logger.warn(`Graph API ${operation} failed (${graphError.kind}), retry ${attempt}/${MAX_RETRIES} in ${Math.round(delayMs)}ms:`, {
+        message: graphError.message,
+        code: graphError.details.code,
+        status: graphError.details.status,
+      });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { EventEmitter } from 'events';
+import axios from 'axios';
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { errorMessage } from '../utils/errors';
+
+const IDLE_TIMEOUT_MS = parseInt(process.env.HANDOFF_IDLE_TIMEOUT_MINUTES || '30', 10) * 60 * 1000;
+const SWEEP_INTERVAL_MS = parseInt(process.env.HANDOFF_SWEEP_INTERVAL_MS || '60000', 10);
+// Explicit requests only - bare words like "agent" also appear in ordinary questions ("travel agent fee")
+const DEFAULT_KEYWORDS =
+  'talk to a human,talk to an agent,talk to a person,speak to a human,speak to an agent,speak to a person,real person,live agent';
+
+export type HandoffTrigger = 'keyword' | 'api';
+export type HandoffEndReason = 'api' | 'idle_timeout';
+
+export interface Handoff {
+  unique_conv_id: string;
+  chatbot_id: string;
+  phone_number: string;
+  status: 'bot' | 'human';
+  reason: string | null;
+  triggered_by: HandoffTrigger | null;
+  agent_id: string | null;
+  started_at: Date | null;
+  last_activity_at: Date | null;
+  ended_at: Date | null;
+  end_reason: HandoffEndReason | null;
+}
+
+export interface HandoffEvent {
+  event: 'handoff.started' | 'handoff.ended';
+  chatbotId: string;
+  uniqueConvId: string;
+  phoneNumber: string;
+  reason?: string | null;
+  triggeredBy?: HandoffTrigger | null;
+  agentId?: string | null;
+  endReason?: HandoffEndReason;
+  timestamp: string;
+}
+
+/**
+ * In-process emitter for handoff events ('handoff.started', 'handoff.ended')
+ */
+export const handoffEvents = new EventEmitter();
+
+// Fallback store for single-user mode (no database)
+const memoryHandoffs = new Map<string, Handoff>();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+const HANDOFF_COLUMNS =
+  'unique_conv_id, chatbot_id, phone_number, status, reason, triggered_by, agent_id, started_at, last_activity_at, ended_at, end_reason';
+
+function getHandoffKeywords(): string[] {
+  return (process.env.HANDOFF_KEYWORDS || DEFAULT_KEYWORDS)
+    .split(',')
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check whether a customer message asks for a human (HANDOFF_KEYWORDS, whole-word match)
+ */
+export function detectHandoffKeyword(text: string): string | null {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  for (const keyword of getHandoffKeywords()) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, 'u').test(normalized)) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+/**
+ * Notify agent tooling: in-process listeners and the AGENT_EVENTS_WEBHOOK_URL (if configured)
+ */
+async function emitHandoffEvent(event: HandoffEvent): Promise<void> {
+  logger.info(`Handoff event: ${event.event}`, {
+    chatbotId: event.chatbotId,
+    uniqueConvId: event.uniqueConvId,
+    reason: event.reason,
+    endReason: event.endReason,
+  });
+
+  handoffEvents.emit(event.event, event);
+
+  const webhookUrl = process.env.AGENT_EVENTS_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return;
+  }
+
+  try {
+    await axios.post(webhookUrl, event, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.AGENT_EVENTS_WEBHOOK_TOKEN && {
+          Authorization: `Bearer ${process.env.AGENT_EVENTS_WEBHOOK_TOKEN}`,
+        }),
+      },
+      timeout: 5000,
+    });
+  } catch (error) {
+    logger.error(`Failed to deliver ${event.event} event to agent tooling:`, {
+      message: errorMessage(error),
+      status: axios.isAxiosError(error) ? error.response?.status : undefined,
+    });
+  }
+}
+
+function isIdle(handoff: Handoff, now = Date.now()): boolean {
+  const lastActivity = handoff.last_activity_at || handoff.started_at;
+  return !!lastActivity && new Date(lastActivity).getTime() < now - IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Get the handoff record for a conversation (regardless of status)
+ */
+export async function getHandoff(uniqueConvId: string): Promise<Handoff | null> {
+  const pool = await getDbClient();
+  if (!pool) {
+    return memoryHandoffs.get(uniqueConvId) || null;
+  }
+
+  const result = await pool.query(
+    `SELECT ${HANDOFF_COLUMNS} FROM conversation_handoffs WHERE unique_conv_id = $1`,
+    [uniqueConvId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the active (human-owned) handoff for a conversation.
+ * A handoff idle for longer than HANDOFF_IDLE_TIMEOUT_MINUTES is returned to the bot first.
+ */
+export async function getActiveHandoff(uniqueConvId: string): Promise<Handoff | null> {
+  const handoff = await getHandoff(uniqueConvId);
+  if (!handoff || handoff.status !== 'human') {
+    return null;
+  }
+
+  if (isIdle(handoff)) {
+    await endHandoff(uniqueConvId, 'idle_timeout');
+    return null;
+  }
+
+  return handoff;
+}
+
+/**
+ * Hand a conversation over to a human agent (no-op if already handed off)
+ */
+export async function startHandoff(params: {
+  chatbotId: string;
+  uniqueConvId: string;
+  phoneNumber: string;
+  triggeredBy: HandoffTrigger;
+  reason?: string;
+  agentId?: string;
+}): Promise<Handoff> {
+  const { chatbotId, uniqueConvId, phoneNumber, triggeredBy } = params;
+  const reason = params.reason || null;
+  const agentId = params.agentId || null;
+  const pool = await getDbClient();
+
+  let handoff: Handoff | null;
+  if (!pool) {
+    const existing = memoryHandoffs.get(uniqueConvId);
+    if (existing?.status === 'human') {
+      return existing;
+    }
+    const now = new Date();
+    handoff = {
+      unique_conv_id: uniqueConvId,
+      chatbot_id: chatbotId,
+      phone_number: phoneNumber,
+      status: 'human',
+      reason,
+      triggered_by: triggeredBy,
+      agent_id: agentId,
+      started_at: now,
+      last_activity_at: now,
+      ended_at: null,
+      end_reason: null,
+    };
+    memoryHandoffs.set(uniqueConvId, handoff);
+  } else {
+    // Only transitions bot -> human return a row, so concurrent triggers emit a single event
+    const result = await pool.query(
+      `INSERT INTO conversation_handoffs
+       (unique_conv_id, chatbot_id, phone_number, status, reason, triggered_by, agent_id,
+        started_at, last_activity_at, ended_at, end_reason, updated_at)
+       VALUES ($1, $2, $3, 'human', $4, $5, $6, NOW(), NOW(), NULL, NULL, NOW())
+       ON CONFLICT (unique_conv_id) DO UPDATE
+         SET status = 'human', reason = EXCLUDED.reason, triggered_by = EXCLUDED.triggered_by,
+             agent_id = EXCLUDED.agent_id, started_at = NOW(), last_activity_at = NOW(),
+             ended_at = NULL, end_reason = NULL, updated_at = NOW()
+         WHERE conversation_handoffs.status = 'bot'
+       RETURNING ${HANDOFF_COLUMNS}`,
+      [uniqueConvId, chatbotId, phoneNumber, reason, triggeredBy, agentId]
+    );
+
+    handoff = result.rows[0] || null;
+    if (!handoff) {
+      return (await getHandoff(uniqueConvId)) as Handoff;
+    }
+  }
+
+  await emitHandoffEvent({
+    event: 'handoff.started',
+    chatbotId,
+    uniqueConvId,
+    phoneNumber,
+    reason,
+    triggeredBy,
+    agentId,
+    timestamp: new Date().toISOString(),
+  });
+
+  return handoff;
+}
+
+/**
+ * Return a conversation to the bot. Returns false if no handoff was active.
+ */
+export async function endHandoff(uniqueConvId: string, endReason: HandoffEndReason): Promise<boolean> {
+  const pool = await getDbClient();
+
+  let handoff: Handoff | null;
+  if (!pool) {
+    const existing = memoryHandoffs.get(uniqueConvId);
+    if (!existing || existing.status !== 'human') {
+      return false;
+    }
+    handoff = { ...existing, status: 'bot', ended_at: new Date(), end_reason: endReason };
+    memoryHandoffs.set(uniqueConvId, handoff);
+  } else {
+    const result = await pool.query(
+      `UPDATE conversation_handoffs
+       SET status = 'bot', ended_at = NOW(), end_reason = $2, updated_at = NOW()
+       WHERE unique_conv_id = $1 AND status = 'human'
+       RETURNING ${HANDOFF_COLUMNS}`,
+      [uniqueConvId, endReason]
+    );
+    handoff = result.rows[0] || null;
+    if (!handoff) {
+      return false;
+    }
+  }
+
+  await emitHandoffEvent({
+    event: 'handoff.ended',
+    chatbotId: handoff.chatbot_id,
+    uniqueConvId,
+    phoneNumber: handoff.phone_number,
+    reason: handoff.reason,
+    triggeredBy: handoff.triggered_by,
+    agentId: handoff.agent_id,
+    endReason,
+    timestamp: new Date().toISOString(),
+  });
+
+  return true;
+}
+
+/**
+ * Record agent or customer activity on a handed-off conversation (resets the idle timeout)
+ */
+export async function touchHandoff(uniqueConvId: string, agentId?: string): Promise<void> {
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const existing = memoryHandoffs.get(uniqueConvId);
+    if (existing?.status === 'human') {
+      existing.last_activity_at = new Date();
+      if (agentId) existing.agent_id = agentId;
+    }
+    return;
+  }
+
+  await pool.query(
+    `UPDATE conversation_handoffs
+     SET last_activity_at = NOW(), agent_id = COALESCE($2, agent_id), updated_at = NOW()
+     WHERE unique_conv_id = $1 AND status = 'human'`,
+    [uniqueConvId, agentId || null]
+  );
+}
+
+/**
+ * Return idle handoffs to the bot so 'handoff.ended' is emitted even if the customer never writes again
+ */
+async function sweepIdleHandoffs(): Promise<void> {
+  const pool = await getDbClient();
+
+  let idle: string[];
+  if (!pool) {
+    idle = [...memoryHandoffs.values()]
+      .filter((handoff) => handoff.status === 'human' && isIdle(handoff))
+      .map((handoff) => handoff.unique_conv_id);
+  } else {
+    const result = await pool.query<{ unique_conv_id: string }>(
+      `SELECT unique_conv_id FROM conversation_handoffs
+       WHERE status = 'human' AND last_activity_at < NOW() - $1 * INTERVAL '1 millisecond'
+       LIMIT 100`,
+      [IDLE_TIMEOUT_MS]
+    );
+    idle = result.rows.map((row) => row.unique_conv_id);
+  }
+
+  for (const uniqueConvId of idle) {
+    await endHandoff(uniqueConvId, 'idle_timeout');
+  }
+}
+
+/**
+ * Periodically return idle handoffs to the bot
+ */
+export function startHandoffSweeper(): void {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(() => {
+    sweepIdleHandoffs().catch((error) => logger.error('Error sweeping idle handoffs:', error));
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
+
+export function stopHandoffSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
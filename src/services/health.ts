@@ -0,0 +1,168 @@
+import axios from 'axios';
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { getGraphApiBaseUrl } from '../config/graph';
+import { getResponseApiBaseUrl } from '../config/response-api';
+import { errorMessage } from '../utils/errors';
+
+// Each dependency check gives up after this long
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10);
+// Results are reused for this long so frequent probes do not hammer the dependencies
+const CACHE_TTL_MS = parseInt(process.env.HEALTH_CHECK_CACHE_TTL_MS || '5000', 10);
+
+export type DependencyName = 'database' | 'response_api' | 'graph_api';
+
+export interface DependencyStatus {
+  // skipped: not configured (no DATABASE_URL) or check disabled
+  status: 'up' | 'down' | 'skipped';
+  // Critical dependencies being down makes the service not ready
+  critical: boolean;
+  latencyMs?: number;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  status: 'ready' | 'not_ready' | 'shutting_down';
+  checks: Partial<Record<DependencyName, DependencyStatus>>;
+}
+
+interface DependencyCheck {
+  critical: boolean;
+  // Resolves 'skipped' when there is nothing to check, throws when the dependency is unavailable
+  run(): Promise<void | 'skipped'>;
+}
+
+let shuttingDown = false;
+const cache = new Map<DependencyName, { result: DependencyStatus; expiresAt: number }>();
+const pending = new Map<DependencyName, Promise<DependencyStatus>>();
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reachable = any HTTP answer below 500
+ */
+async function checkHttp(url: string): Promise<void> {
+  const response = await axios.get(url, { timeout: CHECK_TIMEOUT_MS, validateStatus: () => true });
+  if (response.status >= 500) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+const CHECKS: Record<DependencyName, DependencyCheck> = {
+  database: {
+    critical: true,
+    async run() {
+      // Single-account mode keeps its data in memory
+      if (!process.env.DATABASE_URL) return 'skipped';
+
+      const pool = await getDbClient();
+      if (!pool) {
+        throw new Error('Database pool not initialized');
+      }
+      await pool.query('SELECT 1');
+    },
+  },
+  response_api: {
+    // Shared by every pod: failing them all would stop webhook intake, while replies are queued as follow-ups anyway
+    get critical() {
+      return process.env.HEALTH_CHECK_RESPONSE_API_CRITICAL === 'true';
+    },
+    async run() {
+      await checkHttp(`${getResponseApiBaseUrl()}${process.env.RESPONSE_API_HEALTH_PATH || '/health'}`);
+    },
+  },
+  graph_api: {
+    // Meta outages are reported, but every pod would be affected alike
+    critical: false,
+    async run() {
+      if (process.env.HEALTH_CHECK_GRAPH_API !== 'true') return 'skipped';
+
+      // Unauthenticated requests get a 400 OAuth error, which proves reachability
+      await checkHttp(`${getGraphApiBaseUrl()}/me`);
+    },
+  },
+};
+
+async function runCheck(name: DependencyName): Promise<DependencyStatus> {
+  const check = CHECKS[name];
+  const startedAt = Date.now();
+
+  try {
+    const outcome = await withTimeout(check.run(), CHECK_TIMEOUT_MS);
+    if (outcome === 'skipped') {
+      return { status: 'skipped', critical: check.critical, checkedAt: new Date().toISOString() };
+    }
+    return { status: 'up', critical: check.critical, latencyMs: Date.now() - startedAt, checkedAt: new Date().toISOString() };
+  } catch (error) {
+    const message = errorMessage(error);
+    logger.warn(`Readiness check failed for ${name}: ${message}`);
+    return {
+      status: 'down',
+      critical: check.critical,
+      latencyMs: Date.now() - startedAt,
+      error: message,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Cached status of a dependency; concurrent probes share one check
+ */
+async function getDependencyStatus(name: DependencyName): Promise<DependencyStatus> {
+  const cached = cache.get(name);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  let check = pending.get(name);
+  if (!check) {
+    check = runCheck(name)
+      .then((result) => {
+        cache.set(name, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+        return result;
+      })
+      .finally(() => pending.delete(name));
+    pending.set(name, check);
+  }
+  return check;
+}
+
+/**
+ * Whether the service should receive traffic: all critical dependencies reachable and not shutting down
+ */
+export async function getReadiness(): Promise<ReadinessReport> {
+  if (shuttingDown) {
+    return { ready: false, status: 'shutting_down', checks: {} };
+  }
+
+  const names = Object.keys(CHECKS) as DependencyName[];
+  const results = await Promise.all(names.map((name) => getDependencyStatus(name)));
+
+  const checks: Partial<Record<DependencyName, DependencyStatus>> = {};
+  names.forEach((name, i) => {
+    checks[name] = results[i];
+  });
+
+  const ready = results.every((result) => !result.critical || result.status !== 'down');
+  return { ready, status: ready ? 'ready' : 'not_ready', checks };
+}
+
+/**
+ * Report not ready from now on, so the orchestrator stops routing traffic while the process drains
+ */
+export function markShuttingDown(): void {
+  shuttingDown = true;
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
@@ -0,0 +1,165 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { duplicateMessagesTotal } from '../config/metrics';
+
+// A 'processing' claim older than this is assumed abandoned (crashed instance) and can be re-claimed
+const CLAIM_TIMEOUT_MS = parseInt(process.env.INBOUND_CLAIM_TIMEOUT_MS || '300000', 10);
+// Receipts are deleted once older than this - keep it well beyond Meta's redelivery window (up to 7 days)
+const RETENTION_MS = parseInt(process.env.INBOUND_RECEIPT_RETENTION_MS || String(14 * 24 * 60 * 60 * 1000), 10);
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 1000;
+// How long handled message IDs are remembered when running without a database
+const MEMORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Fallback store for single-user mode (no database): key -> expiry timestamp
+const memoryReceipts = new Map<string, number>();
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+function memoryKey(chatbotId: string, waMessageId: string): string {
+  return `${chatbotId}:${waMessageId}`;
+}
+
+function pruneMemoryReceipts(now: number): void {
+  for (const [key, expiresAt] of memoryReceipts) {
+    if (expiresAt <= now) {
+      memoryReceipts.delete(key);
+    }
+  }
+}
+
+function recordDuplicate(chatbotId: string, waMessageId: string): void {
+  duplicateMessagesTotal.inc({ chatbot_id: chatbotId });
+  logger.info('Duplicate inbound message skipped:', { chatbotId, waMessageId });
+}
+
+/**
+ * Claim an inbound WhatsApp message for processing.
+ * Returns false when the message was already handled (or is being handled by another instance).
+ */
+export async function claimInboundMessage(chatbotId: string, waMessageId: string): Promise<boolean> {
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const now = Date.now();
+    pruneMemoryReceipts(now);
+
+    const key = memoryKey(chatbotId, waMessageId);
+    if (memoryReceipts.has(key)) {
+      recordDuplicate(chatbotId, waMessageId);
+      return false;
+    }
+    memoryReceipts.set(key, now + MEMORY_TTL_MS);
+    return true;
+  }
+
+  // Single statement so concurrent deliveries across instances race on the unique index
+  const result = await pool.query(
+    `INSERT INTO inbound_message_receipts (chatbot_id, wa_message_id, status, claimed_at, created_at)
+     VALUES ($1, $2, 'processing', NOW(), NOW())
+     ON CONFLICT (chatbot_id, wa_message_id) DO UPDATE
+       SET claimed_at = NOW()
+       WHERE inbound_message_receipts.status = 'processing'
+         AND inbound_message_receipts.claimed_at < NOW() - $3 * INTERVAL '1 millisecond'
+     RETURNING wa_message_id`,
+    [chatbotId, waMessageId, CLAIM_TIMEOUT_MS]
+  );
+
+  if (result.rows.length > 0) {
+    return true;
+  }
+
+  try {
+    await pool.query(
+      `UPDATE inbound_message_receipts
+       SET duplicate_count = duplicate_count + 1
+       WHERE chatbot_id = $1 AND wa_message_id = $2`,
+      [chatbotId, waMessageId]
+    );
+  } catch (error) {
+    logger.error(`Error counting duplicate for message ${waMessageId}:`, error);
+  }
+
+  recordDuplicate(chatbotId, waMessageId);
+  return false;
+}
+
+/**
+ * Mark a claimed inbound message as fully handled
+ */
+export async function completeInboundMessage(chatbotId: string, waMessageId: string): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  await pool.query(
+    `UPDATE inbound_message_receipts
+     SET status = 'completed', completed_at = NOW()
+     WHERE chatbot_id = $1 AND wa_message_id = $2`,
+    [chatbotId, waMessageId]
+  );
+}
+
+/**
+ * Release a claim after a failed attempt so a retry can process the message again
+ */
+export async function releaseInboundMessage(chatbotId: string, waMessageId: string): Promise<void> {
+  const pool = await getDbClient();
+
+  if (!pool) {
+    memoryReceipts.delete(memoryKey(chatbotId, waMessageId));
+    return;
+  }
+
+  await pool.query(
+    `DELETE FROM inbound_message_receipts
+     WHERE chatbot_id = $1 AND wa_message_id = $2 AND status = 'processing'`,
+    [chatbotId, waMessageId]
+  );
+}
+
+/**
+ * Delete receipts older than the retention period, in batches. Returns the number deleted.
+ */
+export async function purgeInboundReceipts(): Promise<number> {
+  const pool = await getDbClient();
+  if (!pool) return 0;
+
+  let purged = 0;
+  for (;;) {
+    const result = await pool.query(
+      `DELETE FROM inbound_message_receipts
+       WHERE (chatbot_id, wa_message_id) IN (
+         SELECT chatbot_id, wa_message_id FROM inbound_message_receipts
+         WHERE created_at < NOW() - $1 * INTERVAL '1 millisecond'
+         LIMIT $2
+       )`,
+      [RETENTION_MS, PURGE_BATCH_SIZE]
+    );
+    purged += result.rowCount || 0;
+    if ((result.rowCount || 0) < PURGE_BATCH_SIZE) break;
+  }
+
+  if (purged > 0) {
+    logger.info(`Purged ${purged} inbound message receipt(s)`);
+  }
+  return purged;
+}
+
+/**
+ * Periodically delete receipts past the retention period
+ */
+export function startReceiptPurger(): void {
+  if (purgeTimer) return;
+
+  purgeTimer = setInterval(() => {
+    purgeInboundReceipts().catch((error) => logger.error('Error purging inbound message receipts:', error));
+  }, PURGE_INTERVAL_MS);
+  purgeTimer.unref();
+}
+
+export function stopReceiptPurger(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+}
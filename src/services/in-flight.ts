@@ -0,0 +1,78 @@
+import { createId } from '@paralleldrive/cuid2';
+import logger from '../config/logger';
+import { inFlightTasks, shutdownAbandonedTasksTotal } from '../config/metrics';
+
+// webhook: payload processed in-process (no database); webhook_event: queued event claimed by the worker;
+// follow_up: reply to a turn the response API could not answer earlier; aggregated_reply: reply to a
+// burst of customer messages
+export type InFlightTaskKind = 'webhook' | 'webhook_event' | 'follow_up' | 'aggregated_reply';
+
+export interface InFlightTask {
+  id: string;
+  kind: InFlightTaskKind;
+  startedAt: Date;
+}
+
+export interface DrainResult {
+  // Every task finished before the timeout
+  drained: boolean;
+  // Tasks still running when the timeout expired
+  abandoned: InFlightTask[];
+}
+
+const tasks = new Map<string, { task: InFlightTask; promise: Promise<unknown> }>();
+
+/**
+ * Register background work so shutdown waits for it; returns the given promise
+ */
+export function trackInFlight<T>(kind: InFlightTaskKind, promise: Promise<T>, id: string = createId()): Promise<T> {
+  const task: InFlightTask = { id, kind, startedAt: new Date() };
+  inFlightTasks.inc({ kind });
+
+  const settled = promise.then(
+    () => undefined,
+    () => undefined
+  );
+  tasks.set(id, { task, promise: settled });
+  settled.finally(() => {
+    tasks.delete(id);
+    inFlightTasks.dec({ kind });
+  });
+
+  return promise;
+}
+
+export function getInFlightTasks(): InFlightTask[] {
+  return [...tasks.values()].map(({ task }) => task);
+}
+
+/**
+ * Wait up to timeoutMs for in-flight tasks, including ones started while waiting.
+ * Tasks still running afterwards are logged and counted as abandoned.
+ */
+export async function drainInFlight(timeoutMs: number): Promise<DrainResult> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (tasks.size > 0) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) break;
+
+    logger.info(`Waiting for ${tasks.size} in-flight task(s) to finish (${remainingMs}ms left)...`);
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all([...tasks.values()].map(({ promise }) => promise)),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, remainingMs);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  const abandoned = getInFlightTasks();
+  for (const task of abandoned) {
+    shutdownAbandonedTasksTotal.inc({ kind: task.kind });
+    logger.error(`Abandoning in-flight ${task.kind} task ${task.id} (running since ${task.startedAt.toISOString()})`);
+  }
+
+  return { drained: abandoned.length === 0, abandoned };
+}
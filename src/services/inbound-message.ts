@@ -0,0 +1,205 @@
+import { InboundMediaType } from './media';
+import { InteractiveReply } from './context-builder';
+import { SharedContact, WebhookContact, WebhookMessage, WebhookMessageType } from '../utils/webhook-payload';
+
+/**
+ * Media object of an inbound message, before it is downloaded
+ */
+export interface InboundMedia {
+  type: InboundMediaType;
+  mediaId: string;
+  mimeType?: string;
+  filename?: string;
+  caption?: string;
+}
+
+/**
+ * Inbound message in the shape the service works with, independent of the webhook's per-type layout
+ */
+export interface InboundMessage {
+  id: string;
+  from: string;
+  customerName: string;
+  timestamp: Date;
+  type: WebhookMessageType;
+  // Text stored in messages.content and sent to the response API
+  content: string;
+  // Whether the message is part of the conversation the AI answers
+  answerable: boolean;
+  // Message the customer replied to
+  replyToId?: string;
+  media?: InboundMedia;
+  // Option the customer picked from one of our buttons / list menus (or a template quick reply)
+  interactiveReply?: InteractiveReply;
+  reaction?: { messageId: string; emoji?: string };
+  // Type-specific data kept in channel_message_metadata (location, shared contacts, order, flow response...)
+  details?: Record<string, unknown>;
+}
+
+function describeSharedContact(contact: SharedContact): string {
+  const phones = (contact.phones || []).map((phone) => phone.phone || phone.wa_id).filter(Boolean);
+  return [contact.name.formatted_name, ...phones].join(' ');
+}
+
+/**
+ * Flow responses are JSON; the flow token is an internal identifier, not an answer
+ */
+function parseFlowResponse(responseJson: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(responseJson);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const fields = { ...parsed };
+    delete fields.flow_token;
+    return fields;
+  } catch {
+    return {};
+  }
+}
+
+function describeFlowResponse(fields: Record<string, unknown>): string {
+  const answers = Object.entries(fields)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    .join(', ');
+  return answers ? `[Form response] ${answers}` : '[Form response]';
+}
+
+/**
+ * Normalize a validated webhook message
+ */
+export function normalizeInboundMessage(message: WebhookMessage, contacts: WebhookContact[] = []): InboundMessage {
+  const contact = contacts.find((c) => c.wa_id === message.from);
+
+  const base = {
+    id: message.id,
+    from: message.from,
+    customerName: contact?.profile?.name || 'Unknown',
+    timestamp: new Date(parseInt(message.timestamp, 10) * 1000),
+    type: message.type,
+    ...(message.context?.id && { replyToId: message.context.id }),
+  };
+
+  switch (message.type) {
+    case 'text':
+      return { ...base, content: message.text.body, answerable: true };
+    case 'image':
+    case 'video': {
+      const media = message.type === 'image' ? message.image : message.video;
+      return {
+        ...base,
+        content: media.caption || (message.type === 'image' ? '[Image]' : '[Video]'),
+        answerable: true,
+        media: { type: message.type, mediaId: media.id, mimeType: media.mime_type, caption: media.caption },
+      };
+    }
+    case 'audio':
+      return {
+        ...base,
+        content: '[Voice message]',
+        answerable: true,
+        media: { type: 'audio', mediaId: message.audio.id, mimeType: message.audio.mime_type },
+      };
+    case 'document':
+      return {
+        ...base,
+        content: `[Document: ${message.document.filename || 'document'}]`,
+        answerable: true,
+        media: {
+          type: 'document',
+          mediaId: message.document.id,
+          mimeType: message.document.mime_type,
+          filename: message.document.filename,
+          caption: message.document.caption,
+        },
+      };
+    case 'sticker':
+      return {
+        ...base,
+        content: '[Sticker]',
+        answerable: true,
+        media: { type: 'sticker', mediaId: message.sticker.id, mimeType: message.sticker.mime_type },
+      };
+    case 'location': {
+      const { latitude, longitude, name, address } = message.location;
+      const label = [name, address].filter(Boolean).join(', ');
+      return {
+        ...base,
+        content: label ? `[Location: ${label} (${latitude}, ${longitude})]` : `[Location: ${latitude}, ${longitude}]`,
+        answerable: true,
+        details: { location: message.location },
+      };
+    }
+    case 'contacts':
+      return {
+        ...base,
+        content: `[Contact: ${message.contacts.map(describeSharedContact).join('; ')}]`,
+        answerable: true,
+        details: { contacts: message.contacts },
+      };
+    case 'reaction':
+      return {
+        ...base,
+        content: message.reaction.emoji || '',
+        answerable: false,
+        reaction: { messageId: message.reaction.message_id, emoji: message.reaction.emoji },
+      };
+    case 'button':
+      return {
+        ...base,
+        content: message.button.text,
+        answerable: true,
+        ...(message.button.payload && {
+          interactiveReply: { type: 'quick_reply' as const, id: message.button.payload, title: message.button.text },
+        }),
+      };
+    case 'interactive': {
+      const interactive = message.interactive;
+      if (interactive.type === 'nfm_reply') {
+        const fields = parseFlowResponse(interactive.nfm_reply.response_json);
+        return {
+          ...base,
+          content: describeFlowResponse(fields),
+          answerable: true,
+          details: { flowResponse: { name: interactive.nfm_reply.name, fields } },
+        };
+      }
+      const reply: { id: string; title: string; description?: string } =
+        interactive.type === 'button_reply' ? interactive.button_reply : interactive.list_reply;
+      return {
+        ...base,
+        content: reply.title,
+        answerable: true,
+        interactiveReply: {
+          type: interactive.type,
+          id: reply.id,
+          title: reply.title,
+          ...(reply.description && { description: reply.description }),
+        },
+      };
+    }
+    case 'order': {
+      const items = message.order.product_items;
+      const currency = items[0]?.currency;
+      const total = items.reduce((sum, item) => sum + item.quantity * item.item_price, 0);
+      const summary = items.map((item) => `${item.quantity} x ${item.product_retailer_id}`).join(', ');
+      return {
+        ...base,
+        content: [`[Order: ${summary}${currency ? ` (total ${total} ${currency})` : ''}]`, message.order.text]
+          .filter(Boolean)
+          .join('\n'),
+        answerable: true,
+        details: { order: message.order },
+      };
+    }
+    case 'system':
+      return { ...base, content: message.system.body, answerable: false, details: { system: message.system } };
+    case 'request_welcome':
+      return { ...base, content: '', answerable: false };
+    case 'unsupported':
+      return {
+        ...base,
+        content: `[Unsupported message type: ${message.originalType || 'unsupported'}]`,
+        answerable: false,
+        details: { errors: message.errors },
+      };
+  }
+}
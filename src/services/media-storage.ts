@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ValidationError } from '../utils/errors';
+
+export interface StoredMediaObject {
+  storageKey: string;
+  // Location the stored bytes can be fetched from (if the storage exposes one)
+  url?: string;
+}
+
+/**
+ * Pluggable storage backend for downloaded WhatsApp media
+ */
+export interface MediaStorage {
+  readonly name: string;
+  save(key: string, data: Buffer, mimeType: string): Promise<StoredMediaObject>;
+  read(key: string): Promise<Buffer>;
+}
+
+/**
+ * Stores media on the local filesystem under MEDIA_STORAGE_DIR
+ */
+export class LocalDiskMediaStorage implements MediaStorage {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string, private readonly publicBaseUrl?: string) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    // Never allow keys to escape the storage directory
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new ValidationError(`Invalid media storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredMediaObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return {
+      storageKey: key,
+      url: this.publicBaseUrl ? `${this.publicBaseUrl.replace(/\/$/, '')}/${key}` : undefined,
+    };
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Get the configured media storage (MEDIA_STORAGE_DRIVER, default: local)
+ */
+export function getMediaStorage(): MediaStorage {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = process.env.MEDIA_STORAGE_DRIVER || 'local';
+  switch (driver) {
+    case 'local':
+      storage = new LocalDiskMediaStorage(
+        process.env.MEDIA_STORAGE_DIR || './storage/media',
+        process.env.MEDIA_PUBLIC_BASE_URL
+      );
+      break;
+    default:
+      throw new Error(`Unsupported media storage driver: ${driver}`);
+  }
+
+  return storage;
+}
+
+/**
+ * Override the media storage backend (e.g. object storage implementations)
+ */
+export function setMediaStorage(customStorage: MediaStorage): void {
+  storage = customStorage;
+}
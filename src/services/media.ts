@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+import { getMediaStorage } from './media-storage';
+import { graphRequest } from './graph-client';
+
+// WhatsApp Cloud API caps media at 100MB (documents)
+const MAX_MEDIA_BYTES = parseInt(process.env.MEDIA_MAX_BYTES || String(100 * 1024 * 1024), 10);
+const MEDIA_DOWNLOAD_TIMEOUT_MS = parseInt(process.env.MEDIA_DOWNLOAD_TIMEOUT_MS || '30000', 10);
+
+export type InboundMediaType = 'image' | 'audio' | 'video' | 'document' | 'sticker';
+
+export const INBOUND_MEDIA_TYPES: InboundMediaType[] = ['image', 'audio', 'video', 'document', 'sticker'];
+
+/**
+ * Reference to a downloaded media object, stored in channel_message_metadata
+ * and forwarded to the response API
+ */
+export interface MediaReference {
+  mediaId: string;
+  type: InboundMediaType;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  storage: string;
+  storageKey: string;
+  url?: string;
+  filename?: string;
+  caption?: string;
+}
+
+/**
+ * Inbound media that could not be downloaded (stored in place of a MediaReference)
+ */
+export interface FailedMediaReference {
+  mediaId: string;
+  type: InboundMediaType;
+  error: string;
+}
+
+/**
+ * Whether the media was downloaded and stored
+ */
+export function isStoredMedia(media: MediaReference | FailedMediaReference | undefined): media is MediaReference {
+  return !!media && 'storageKey' in media && !!media.storageKey;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'audio/aac': '.aac',
+  'audio/amr': '.amr',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/ogg': '.ogg',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.ms-powerpoint': '.ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+};
+
+function extensionFor(mimeType: string, filename?: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  if (EXTENSIONS[base]) {
+    return EXTENSIONS[base];
+  }
+  const match = filename?.match(/\.[A-Za-z0-9]{1,8}$/);
+  return match ? match[0].toLowerCase() : '';
+}
+
+/**
+ * Resolve a media ID to its (short-lived) download URL via the Graph media endpoint
+ */
+async function resolveMediaUrl(
+  mediaId: string,
+  accessToken: string
+): Promise<{ url: string; mimeType: string; sha256?: string; fileSize?: number }> {
+  const media = await graphRequest<{ url?: string; mime_type?: string; sha256?: string; file_size?: number | string } | null>({
+    operation: 'get_media',
+    path: `/${mediaId}`,
+    accessToken,
+    timeoutMs: MEDIA_DOWNLOAD_TIMEOUT_MS,
+  });
+
+  const { url, mime_type, sha256, file_size } = media || {};
+  if (!url) {
+    throw new Error(`Graph API returned no URL for media ${mediaId}`);
+  }
+
+  return {
+    url,
+    mimeType: mime_type || 'application/octet-stream',
+    sha256,
+    fileSize: file_size !== undefined ? Number(file_size) : undefined,
+  };
+}
+
+/**
+ * Download an inbound media object with the account's access token and store it
+ */
+export async function ingestInboundMedia(params: {
+  chatbotId: string;
+  accessToken: string;
+  type: InboundMediaType;
+  mediaId: string;
+  mimeType?: string;
+  filename?: string;
+  caption?: string;
+}): Promise<MediaReference> {
+  const { chatbotId, accessToken, type, mediaId } = params;
+
+  const resolved = await resolveMediaUrl(mediaId, accessToken);
+
+  if (resolved.fileSize !== undefined && resolved.fileSize > MAX_MEDIA_BYTES) {
+    throw new Error(`Media ${mediaId} exceeds size limit (${resolved.fileSize} > ${MAX_MEDIA_BYTES} bytes)`);
+  }
+
+  const download = await graphRequest<ArrayBuffer>({
+    operation: 'download_media',
+    path: resolved.url,
+    accessToken,
+    responseType: 'arraybuffer',
+    timeoutMs: MEDIA_DOWNLOAD_TIMEOUT_MS,
+    maxContentLength: MAX_MEDIA_BYTES,
+  });
+
+  const data = Buffer.from(download);
+  const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+
+  if (resolved.sha256 && resolved.sha256 !== sha256) {
+    logger.warn(`SHA-256 mismatch for media ${mediaId}`, { expected: resolved.sha256, actual: sha256 });
+  }
+
+  const mimeType = params.mimeType || resolved.mimeType;
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const key = `${chatbotId}/${now.getUTCFullYear()}/${month}/${mediaId}${extensionFor(mimeType, params.filename)}`;
+
+  const storage = getMediaStorage();
+  const stored = await storage.save(key, data, mimeType);
+
+  logger.info(`Stored ${type} media ${mediaId} (${data.length} bytes) in ${storage.name} storage`);
+
+  return {
+    mediaId,
+    type,
+    mimeType,
+    size: data.length,
+    sha256,
+    storage: storage.name,
+    storageKey: stored.storageKey,
+    url: stored.url,
+    filename: params.filename,
+    caption: params.caption,
+  };
+}
@@ -0,0 +1,331 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { trackInFlight } from './in-flight';
+
+// Upper bound for the aggregation window - longer waits make the bot look unresponsive
+export const MAX_AGGREGATION_WINDOW_MS = 30000;
+// A reply this long past due lost its timer (crashed or restarted instance) and is sent by the sweeper
+const OVERDUE_MS = MAX_AGGREGATION_WINDOW_MS;
+// Replies overdue for longer than this are dropped - the conversation has moved on
+const MAX_OVERDUE_MS = 60 * 60 * 1000;
+// A claim older than this is assumed abandoned and can be taken over
+const CLAIM_TIMEOUT_MS = 300000;
+const SWEEP_INTERVAL_MS = 15000;
+const BATCH_SIZE = 100;
+
+/**
+ * Reply owed to a conversation once its burst of customer messages is over - one per conversation.
+ * Stored before the message is acknowledged, so a reply whose timer died with its instance is still sent.
+ */
+export interface PendingReply {
+  unique_conv_id: string;
+  chatbot_id: string;
+  phone_number: string;
+  // Bumped by every customer message: only the timer of the latest one sends the reply
+  revision: number;
+  due_at: Date;
+  // Set while the reply is being answered
+  claimed_at: Date | null;
+}
+
+// Answers every customer message since the last reply of the conversation
+export type AnswerPendingReply = (reply: PendingReply) => Promise<void>;
+
+// Which pending reply a claim may take: the given revision (optionally only once due), or one whose timer was lost
+type ClaimRule = { revision: number; due?: boolean } | { overdue: true };
+
+interface ScheduledReply {
+  timer: NodeJS.Timeout;
+  revision: number;
+  answer: AnswerPendingReply;
+}
+
+// Per conversation (chatbot + customer): the local timer of the latest message
+const scheduledReplies = new Map<string, ScheduledReply>();
+
+// Fallback store for single-user mode (no database)
+const memoryReplies = new Map<string, PendingReply>();
+
+const PENDING_REPLY_COLUMNS = 'unique_conv_id, chatbot_id, phone_number, revision, due_at, claimed_at';
+
+// Shutting down: replies are sent at once instead of being scheduled
+let flushing = false;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+function isClaimable(reply: PendingReply, now: number): boolean {
+  return !reply.claimed_at || reply.claimed_at.getTime() < now - CLAIM_TIMEOUT_MS;
+}
+
+/**
+ * Store (or push back) the conversation's pending reply, due windowMs from now
+ */
+async function storePendingReply(params: {
+  chatbotId: string;
+  uniqueConvId: string;
+  phoneNumber: string;
+  windowMs: number;
+}): Promise<PendingReply> {
+  const { chatbotId, uniqueConvId, phoneNumber, windowMs } = params;
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const existing = memoryReplies.get(uniqueConvId);
+    const reply: PendingReply = {
+      unique_conv_id: uniqueConvId,
+      chatbot_id: chatbotId,
+      phone_number: phoneNumber,
+      revision: (existing?.revision ?? 0) + 1,
+      due_at: new Date(Date.now() + windowMs),
+      claimed_at: existing?.claimed_at ?? null,
+    };
+    memoryReplies.set(uniqueConvId, reply);
+    return { ...reply };
+  }
+
+  const result = await pool.query<PendingReply>(
+    `INSERT INTO pending_replies
+     (unique_conv_id, chatbot_id, phone_number, revision, due_at, created_at, updated_at)
+     VALUES ($1, $2, $3, 1, NOW() + $4 * INTERVAL '1 millisecond', NOW(), NOW())
+     ON CONFLICT (unique_conv_id) DO UPDATE
+       SET revision = pending_replies.revision + 1, due_at = EXCLUDED.due_at, updated_at = NOW()
+     RETURNING ${PENDING_REPLY_COLUMNS}`,
+    [uniqueConvId, chatbotId, phoneNumber, windowMs]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Claim the conversation's pending reply for answering; null when the rule does not match or
+ * another instance holds a live claim on it
+ */
+async function claimPendingReply(uniqueConvId: string, rule: ClaimRule): Promise<PendingReply | null> {
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const reply = memoryReplies.get(uniqueConvId);
+    const now = Date.now();
+    if (!reply || !isClaimable(reply, now)) {
+      return null;
+    }
+    const matches = 'overdue' in rule
+      ? reply.due_at.getTime() < now - OVERDUE_MS
+      : reply.revision === rule.revision && (!rule.due || reply.due_at.getTime() <= now);
+    if (!matches) {
+      return null;
+    }
+    reply.claimed_at = new Date(now);
+    return { ...reply };
+  }
+
+  const [condition, value] = 'overdue' in rule
+    ? [`due_at < NOW() - $3 * INTERVAL '1 millisecond'`, OVERDUE_MS]
+    : [`revision = $3${rule.due ? ' AND due_at <= NOW()' : ''}`, rule.revision];
+
+  // Single statement so concurrent instances race on the row
+  const result = await pool.query<PendingReply>(
+    `UPDATE pending_replies
+     SET claimed_at = NOW()
+     WHERE unique_conv_id = $1
+       AND (claimed_at IS NULL OR claimed_at < NOW() - $2 * INTERVAL '1 millisecond')
+       AND ${condition}
+     RETURNING ${PENDING_REPLY_COLUMNS}`,
+    [uniqueConvId, CLAIM_TIMEOUT_MS, value]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Remove an answered reply. When a newer message arrived meanwhile, its reply stays pending with
+ * the claim released, and is returned.
+ */
+async function completePendingReply(reply: PendingReply): Promise<PendingReply | null> {
+  const { unique_conv_id: uniqueConvId, revision } = reply;
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const stored = memoryReplies.get(uniqueConvId);
+    if (stored && stored.revision !== revision) {
+      stored.claimed_at = null;
+      return { ...stored };
+    }
+    memoryReplies.delete(uniqueConvId);
+    return null;
+  }
+
+  const deleted = await pool.query(
+    `DELETE FROM pending_replies WHERE unique_conv_id = $1 AND revision = $2`,
+    [uniqueConvId, revision]
+  );
+  if (deleted.rowCount) {
+    return null;
+  }
+
+  const result = await pool.query<PendingReply>(
+    `UPDATE pending_replies SET claimed_at = NULL WHERE unique_conv_id = $1 RETURNING ${PENDING_REPLY_COLUMNS}`,
+    [uniqueConvId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Put a reply back after a failed attempt (sent by the sweeper once overdue)
+ */
+async function releasePendingReply(reply: PendingReply): Promise<void> {
+  const pool = await getDbClient();
+
+  if (!pool) {
+    const stored = memoryReplies.get(reply.unique_conv_id);
+    if (stored) {
+      stored.claimed_at = null;
+    }
+    return;
+  }
+
+  await pool.query(`UPDATE pending_replies SET claimed_at = NULL WHERE unique_conv_id = $1`, [reply.unique_conv_id]);
+}
+
+/**
+ * Claim and answer the conversation's pending reply, then any reply a message received meanwhile
+ * left behind (its own timer found the claim taken)
+ */
+async function sendPendingReply(uniqueConvId: string, rule: ClaimRule, answer: AnswerPendingReply): Promise<void> {
+  let reply = await claimPendingReply(uniqueConvId, rule);
+
+  while (reply) {
+    try {
+      await answer(reply);
+    } catch (error) {
+      await releasePendingReply(reply);
+      throw error;
+    }
+
+    const newer = await completePendingReply(reply);
+    reply = newer ? await claimPendingReply(uniqueConvId, { revision: newer.revision, due: true }) : null;
+  }
+}
+
+function fireScheduledReply(uniqueConvId: string): void {
+  const scheduled = scheduledReplies.get(uniqueConvId);
+  if (!scheduled) return;
+
+  clearTimeout(scheduled.timer);
+  scheduledReplies.delete(uniqueConvId);
+  trackInFlight('aggregated_reply', sendPendingReply(uniqueConvId, { revision: scheduled.revision }, scheduled.answer)).catch((error) => {
+    logger.error(`Error sending aggregated reply for ${uniqueConvId}:`, error);
+  });
+}
+
+/**
+ * Debounce a burst of customer messages: store the conversation's pending reply and (re)start its
+ * timer, so the reply is sent once no newer message arrived for windowMs. Nothing waits for it -
+ * the message is handled when this returns.
+ */
+export async function scheduleAggregatedReply(
+  params: { chatbotId: string; uniqueConvId: string; phoneNumber: string; windowMs: number },
+  answer: AnswerPendingReply
+): Promise<void> {
+  const { uniqueConvId } = params;
+  const windowMs = Math.min(Math.max(0, params.windowMs), MAX_AGGREGATION_WINDOW_MS);
+  const reply = await storePendingReply({ ...params, windowMs });
+
+  // Messages of one conversation may finish processing out of order - keep the latest one's timer
+  const existing = scheduledReplies.get(uniqueConvId);
+  if (existing && existing.revision > reply.revision) {
+    return;
+  }
+  if (existing) {
+    clearTimeout(existing.timer);
+  }
+
+  const timer = setTimeout(() => fireScheduledReply(uniqueConvId), windowMs);
+  timer.unref();
+  scheduledReplies.set(uniqueConvId, { timer, revision: reply.revision, answer });
+
+  if (flushing) {
+    fireScheduledReply(uniqueConvId);
+  }
+}
+
+/**
+ * Send every scheduled reply now (shutdown), and any scheduled from here on at once
+ */
+export function flushAggregatedReplies(): void {
+  flushing = true;
+  for (const uniqueConvId of [...scheduledReplies.keys()]) {
+    fireScheduledReply(uniqueConvId);
+  }
+}
+
+/**
+ * Overdue pending replies no instance is answering, oldest first
+ */
+async function listOverdueReplies(limit: number): Promise<PendingReply[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    const now = Date.now();
+    return [...memoryReplies.values()]
+      .filter((reply) => reply.due_at.getTime() < now - OVERDUE_MS && isClaimable(reply, now))
+      .sort((a, b) => a.due_at.getTime() - b.due_at.getTime())
+      .slice(0, limit);
+  }
+
+  const result = await pool.query<PendingReply>(
+    `SELECT ${PENDING_REPLY_COLUMNS} FROM pending_replies
+     WHERE due_at < NOW() - $2 * INTERVAL '1 millisecond'
+       AND (claimed_at IS NULL OR claimed_at < NOW() - $3 * INTERVAL '1 millisecond')
+     ORDER BY due_at ASC LIMIT $1`,
+    [limit, OVERDUE_MS, CLAIM_TIMEOUT_MS]
+  );
+  return result.rows;
+}
+
+/**
+ * Send the pending replies whose timer was lost with its instance
+ */
+export async function sweepOverdueReplies(answer: AnswerPendingReply): Promise<void> {
+  if (sweeping) return;
+
+  sweeping = true;
+  try {
+    for (const overdue of await listOverdueReplies(BATCH_SIZE)) {
+      const uniqueConvId = overdue.unique_conv_id;
+
+      if (Date.now() - new Date(overdue.due_at).getTime() > MAX_OVERDUE_MS) {
+        const reply = await claimPendingReply(uniqueConvId, { overdue: true });
+        if (reply) {
+          await completePendingReply(reply);
+          logger.warn(`Pending reply for ${uniqueConvId} dropped, overdue since ${reply.due_at}`);
+        }
+        continue;
+      }
+
+      logger.info(`Sending overdue pending reply for ${uniqueConvId}`);
+      await trackInFlight('aggregated_reply', sendPendingReply(uniqueConvId, { overdue: true }, answer)).catch((error) => {
+        logger.error(`Error sending overdue reply for ${uniqueConvId}:`, error);
+      });
+    }
+  } finally {
+    sweeping = false;
+  }
+}
+
+/**
+ * Periodically send pending replies whose timer was lost
+ */
+export function startAggregatedReplySweeper(answer: AnswerPendingReply): void {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(() => {
+    sweepOverdueReplies(answer).catch((error) => logger.error('Error sweeping pending replies:', error));
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
+
+export function stopAggregatedReplySweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
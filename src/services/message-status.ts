@@ -0,0 +1,176 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { statusUpdatesTotal } from '../config/metrics';
+import { createId } from '@paralleldrive/cuid2';
+import { WhatsAppAccount } from './accounts';
+import { WebhookStatus } from '../utils/webhook-payload';
+
+export interface MessageStatusEvent {
+  wa_message_id: string;
+  recipient_id: string;
+  status: string;
+  status_timestamp: Date;
+  error_code: number | null;
+  error_title: string | null;
+  error_message: string | null;
+  error_details: string | null;
+  conversation: WebhookStatus['conversation'] | null;
+  pricing: WebhookStatus['pricing'] | null;
+}
+
+// Lifecycle order - a status never overwrites one with a higher rank (a late 'delivered' cannot undo 'read')
+export const STATUS_RANK: Record<string, number> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+const EVENT_COLUMNS =
+  'wa_message_id, recipient_id, status, status_timestamp, error_code, error_title, error_message, error_details, conversation, pricing';
+
+// SQL expression ranking the status currently stored in channel_message_metadata
+const CURRENT_RANK_SQL = `CASE channel_message_metadata->>'status' ${Object.entries(STATUS_RANK)
+  .map(([status, rank]) => `WHEN '${status}' THEN ${rank}`)
+  .join(' ')} ELSE 0 END`;
+
+/**
+ * Record a delivery status update: append it to the timeline and advance the message's current status
+ */
+export async function processMessageStatus(account: WhatsAppAccount, status: WebhookStatus): Promise<void> {
+  const messageId = status.id;
+  const statusValue = status.status;
+  const statusTimestamp = new Date(parseInt(status.timestamp, 10) * 1000);
+  const error = status.status === 'failed' ? status.errors[0] : undefined;
+
+  logger.info('Message status update:', {
+    accountId: account.id,
+    messageId,
+    status: statusValue,
+    recipient: status.recipient_id,
+  });
+  statusUpdatesTotal.inc({ chatbot_id: account.chatbot_id, status: statusValue });
+
+  if (statusValue === 'failed') {
+    logger.error('  Delivery failed:', {
+      messageId,
+      code: error?.code,
+      title: error?.title,
+      details: error?.error_data?.details,
+    });
+  }
+
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  await pool.query(
+    `INSERT INTO message_status_events
+     (id, chatbot_id, wa_message_id, recipient_id, status, status_timestamp,
+      error_code, error_title, error_message, error_details, conversation, pricing, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+     ON CONFLICT (chatbot_id, wa_message_id, status) DO NOTHING`,
+    [
+      createId(),
+      account.chatbot_id,
+      messageId,
+      status.recipient_id,
+      statusValue,
+      statusTimestamp,
+      error?.code ?? null,
+      error?.title ?? null,
+      error?.message ?? null,
+      error?.error_data?.details ?? null,
+      status.conversation ? JSON.stringify(status.conversation) : null,
+      status.pricing ? JSON.stringify(status.pricing) : null,
+    ]
+  );
+
+  const rank = STATUS_RANK[statusValue];
+  if (!rank) {
+    logger.info(`Status '${statusValue}' recorded in timeline only`);
+    return;
+  }
+
+  // Cast json to jsonb for the merge, then cast back to json
+  await pool.query(
+    `UPDATE messages
+     SET channel_message_metadata = (
+       COALESCE(channel_message_metadata::jsonb, '{}'::jsonb)
+       || jsonb_build_object('status', $1::text, 'statusUpdatedAt', $2::text)
+       || CASE WHEN $3::jsonb IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('error', $3::jsonb) END
+     )::json
+     WHERE channel = 'WHATSAPP'
+     AND chatbot_id = $4
+     AND channel_message_metadata->>'waMessageId' = $5
+     AND ${CURRENT_RANK_SQL} < $6`,
+    [
+      statusValue,
+      statusTimestamp.toISOString(),
+      error
+        ? JSON.stringify({
+          code: error.code,
+          title: error.title,
+          message: error.message,
+          details: error.error_data?.details,
+        })
+        : null,
+      account.chatbot_id,
+      messageId,
+      rank,
+    ]
+  );
+}
+
+/**
+ * Status timeline of one outbound message, oldest first
+ */
+export async function getMessageStatusHistory(chatbotId: string, waMessageId: string): Promise<MessageStatusEvent[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const result = await pool.query(
+    `SELECT ${EVENT_COLUMNS} FROM message_status_events
+     WHERE chatbot_id = $1 AND wa_message_id = $2
+     ORDER BY status_timestamp ASC, created_at ASC`,
+    [chatbotId, waMessageId]
+  );
+  return result.rows;
+}
+
+/**
+ * Status events of all outbound messages sent to a contact, most recent first
+ */
+export async function getConversationStatusHistory(
+  chatbotId: string,
+  phoneNumber: string,
+  limit = 100
+): Promise<MessageStatusEvent[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const result = await pool.query(
+    `SELECT ${EVENT_COLUMNS} FROM message_status_events
+     WHERE chatbot_id = $1 AND recipient_id = $2
+     ORDER BY status_timestamp DESC, created_at DESC
+     LIMIT $3`,
+    [chatbotId, phoneNumber, limit]
+  );
+  return result.rows;
+}
+
+/**
+ * Highest-ranked status in a timeline (the message's current status)
+ */
+export function currentStatus(events: MessageStatusEvent[]): string | null {
+  let current: string | null = null;
+  for (const event of events) {
+    if ((STATUS_RANK[event.status] || 0) > (current ? STATUS_RANK[current] || 0 : 0)) {
+      current = event.status;
+    }
+  }
+  return current;
+}
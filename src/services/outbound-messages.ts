@@ -0,0 +1,229 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import {
+  ApiError,
+  ContactOptedOutError,
+  errorMessage,
+  GraphApiError,
+  NotFoundError,
+  ServiceWindowClosedError,
+  TemplateNotApprovedError,
+} from '../utils/errors';
+import {
+  buildWhatsAppPayload,
+  describeOutboundMessage,
+  OutboundMessage,
+  TemplateContent,
+} from '../utils/whatsapp-payload';
+import { findActiveAccountByChatbotId, WhatsAppAccount } from './accounts';
+import { buildUniqueConvId, ensureOutboundContact, getContactLastInboundAt } from './contacts';
+import { SendResult, sendWhatsAppPayload } from './whatsapp-sender';
+import { touchHandoff } from './handoff';
+import { findTemplate } from './templates';
+import { isContactOptedOut } from './consent';
+import { getChatbotSettings } from './chatbot-settings';
+import { getRepositories, MessageMetadata } from '../repositories';
+
+// WhatsApp only allows free-form messages within 24 hours of the contact's last inbound message
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type OutboundSenderType = 'agent' | 'assistant';
+
+export interface SendOutboundMessageParams {
+  chatbotId: string;
+  to: string;
+  message: OutboundMessage;
+  senderType: OutboundSenderType;
+  // Human agent / bot identifier recorded with the message
+  senderId?: string;
+  replyToMessageId?: string;
+  // Approved template sent instead of a free-form message when the service window is closed
+  fallbackTemplate?: TemplateContent;
+  // Only for the confirmation of an opt-out itself
+  ignoreOptOut?: boolean;
+  // Extra fields stored in channel_message_metadata
+  metadata?: MessageMetadata;
+}
+
+export interface SendOutboundMessageResult {
+  // WhatsApp message ID (wamid) used to track delivery statuses
+  messageId: string;
+  // ID of the stored row in the messages table (absent when storing it failed)
+  id?: string;
+  // True when the fallback template was sent because the service window was closed
+  usedFallbackTemplate: boolean;
+}
+
+/**
+ * Ensure a template exists for the account's WABA and is approved
+ */
+async function assertTemplateApproved(account: WhatsAppAccount, template: TemplateContent): Promise<void> {
+  // Templates are only tracked in the database; without one Meta refuses unapproved templates itself
+  if (!(await getDbClient())) return;
+
+  const stored = await findTemplate(account.waba_id, template.name, template.language);
+  if (!stored) {
+    throw new TemplateNotApprovedError(`Template ${template.name} (${template.language}) is not known for this account`);
+  }
+  if (stored.status !== 'APPROVED') {
+    throw new TemplateNotApprovedError(
+      `Template ${template.name} (${template.language}) is not approved (status: ${stored.status})`
+    );
+  }
+}
+
+/**
+ * Whether free-form messages may be sent to a contact last heard from at lastInboundAt
+ */
+export function isServiceWindowOpen(lastInboundAt: Date | null): boolean {
+  return lastInboundAt !== null && Date.now() - lastInboundAt.getTime() < SERVICE_WINDOW_MS;
+}
+
+/**
+ * Template configured for the chatbot (settings.serviceWindow), if any
+ */
+async function getDefaultFallbackTemplate(chatbotId: string): Promise<TemplateContent | undefined> {
+  const { serviceWindow } = await getChatbotSettings(chatbotId);
+  return serviceWindow.fallbackTemplateName
+    ? { name: serviceWindow.fallbackTemplateName, language: serviceWindow.fallbackTemplateLanguage }
+    : undefined;
+}
+
+/**
+ * Apply the 24-hour customer service window: free-form messages are only allowed inside it,
+ * otherwise the approved fallback template - the sender's, else the chatbot's default - is used
+ * (or the message is refused)
+ */
+async function resolveServiceWindow(
+  account: WhatsAppAccount,
+  to: string,
+  message: OutboundMessage,
+  fallbackTemplate?: TemplateContent
+): Promise<{ message: OutboundMessage; usedFallbackTemplate: boolean }> {
+  if (message.type === 'template') {
+    await assertTemplateApproved(account, message.template);
+    return { message, usedFallbackTemplate: false };
+  }
+
+  const lastInboundAt = await getContactLastInboundAt(account.chatbot_id, to);
+  if (isServiceWindowOpen(lastInboundAt)) {
+    return { message, usedFallbackTemplate: false };
+  }
+
+  fallbackTemplate = fallbackTemplate || (await getDefaultFallbackTemplate(account.chatbot_id));
+  if (!fallbackTemplate) {
+    throw new ServiceWindowClosedError(
+      lastInboundAt
+        ? `The 24-hour service window for ${to} closed at ${new Date(lastInboundAt.getTime() + SERVICE_WINDOW_MS).toISOString()}; ` +
+          'send an approved template instead'
+        : `${to} has never messaged this number; send an approved template instead`
+    );
+  }
+
+  await assertTemplateApproved(account, fallbackTemplate);
+  logger.info(`Service window closed for ${to}, sending fallback template ${fallbackTemplate.name}`);
+  return { message: { type: 'template', template: fallbackTemplate }, usedFallbackTemplate: true };
+}
+
+/**
+ * API error for a send the Graph API refused, so callers can tell a closed window or a bad
+ * number from an outage
+ */
+function toSendError(error: unknown): ApiError {
+  if (!(error instanceof GraphApiError)) {
+    return new ApiError(502, errorMessage(error) || 'Failed to send message', 'send_failed');
+  }
+
+  logger.warn('WhatsApp API refused outbound message:', { kind: error.kind, ...error.details, message: error.message });
+  switch (error.kind) {
+    case 'reengagement_required':
+      // Meta's own view of the 24-hour window (e.g. a contact last seen by another instance's store)
+      return new ServiceWindowClosedError(`${error.message}. Send an approved template instead.`);
+    case 'invalid_recipient':
+      return new ApiError(422, error.message, 'invalid_recipient');
+    case 'rate_limited':
+      return new ApiError(429, error.message, 'rate_limited');
+    case 'timeout':
+    case 'network':
+      // Not retried - the message may have been delivered
+      return new ApiError(504, `${error.message}. The message may have been delivered.`, 'send_unconfirmed');
+    default:
+      return new ApiError(502, error.message, 'send_failed');
+  }
+}
+
+/**
+ * Send a message to a contact on behalf of a chatbot and record it in the messages table
+ */
+export async function sendOutboundMessage(params: SendOutboundMessageParams): Promise<SendOutboundMessageResult> {
+  const { chatbotId, to, senderType, senderId, replyToMessageId } = params;
+
+  const account = await findActiveAccountByChatbotId(chatbotId);
+  if (!account) {
+    throw new NotFoundError(`No active WhatsApp account for chatbot ${chatbotId}`);
+  }
+
+  if (!params.ignoreOptOut && (await isContactOptedOut(chatbotId, to))) {
+    throw new ContactOptedOutError(`${to} has opted out of messages from this chatbot`);
+  }
+
+  const { message, usedFallbackTemplate } = await resolveServiceWindow(account, to, params.message, params.fallbackTemplate);
+
+  const payload = buildWhatsAppPayload(to, message, replyToMessageId);
+  let sendResult: SendResult;
+  try {
+    sendResult = await sendWhatsAppPayload({
+      phoneNumberId: account.phone_number_id,
+      accessToken: account.access_token,
+      payload,
+    });
+  } catch (error) {
+    throw toSendError(error);
+  }
+
+  logger.info('Outbound message sent:', {
+    chatbotId,
+    type: message.type,
+    senderType,
+    waMessageId: sendResult.messageId,
+  });
+
+  const uniqueConvId = buildUniqueConvId(to, chatbotId);
+
+  // Human agent activity keeps a handed-off conversation away from the bot
+  if (senderType === 'agent') {
+    await touchHandoff(uniqueConvId, senderId).catch((error) => {
+      logger.error(`Failed to record agent activity for ${uniqueConvId}:`, error);
+    });
+  }
+
+  // The message is already delivered to WhatsApp - a storage failure must not hide the message ID
+  try {
+    const contactId = await ensureOutboundContact(account, to);
+
+    const id = await (await getRepositories()).messages.insert({
+      chatbotId,
+      type: senderType,
+      content: describeOutboundMessage(message),
+      uniqueConvId,
+      metadata: {
+        phoneNumber: to,
+        waMessageId: sendResult.messageId,
+        messageType: message.type,
+        contactId,
+        sentBy: { type: senderType, ...(senderId && { id: senderId }) },
+        ...(replyToMessageId && { replyToMessageId }),
+        ...(message.type === 'template' && { template: message.template }),
+        ...(usedFallbackTemplate && { usedFallbackTemplate }),
+        ...(message.type === 'interactive' && { interactive: message.interactive }),
+        ...(message.type === 'location' && { location: message.location }),
+        ...params.metadata,
+      },
+    });
+
+    return { messageId: sendResult.messageId, id, usedFallbackTemplate };
+  } catch (error) {
+    logger.error(`Failed to store outbound message ${sendResult.messageId}:`, error);
+    return { messageId: sendResult.messageId, usedFallbackTemplate };
+  }
+}
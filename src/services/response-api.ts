@@ -0,0 +1,197 @@
+import axios from 'axios';
+import logger from '../config/logger';
+import { getResponseApiBaseUrl } from '../config/response-api';
+import {
+  responseApiCircuitState,
+  responseApiDuration,
+  responseApiErrorsTotal,
+  responseApiRetriesTotal,
+} from '../config/metrics';
+import { errorMessage, ResponseApiError } from '../utils/errors';
+import { ResponseInteractive } from '../utils/interactive-reply';
+
+// Client configuration (all overridable via environment)
+const TIMEOUT_MS = parseInt(process.env.RESPONSE_API_TIMEOUT_MS || '30000', 10);
+const MAX_RETRIES = parseInt(process.env.RESPONSE_API_MAX_RETRIES || '2', 10);
+const BASE_RETRY_DELAY_MS = parseInt(process.env.RESPONSE_API_RETRY_BASE_DELAY_MS || '500', 10);
+const MAX_RETRY_DELAY_MS = parseInt(process.env.RESPONSE_API_RETRY_MAX_DELAY_MS || '5000', 10);
+// Consecutive failed turns (after retries) that open a chatbot's circuit
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.RESPONSE_API_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+// How long an open circuit refuses calls before letting one trial call through
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.RESPONSE_API_CIRCUIT_COOLDOWN_MS || '30000', 10);
+
+export type CircuitState = 'closed' | 'half_open' | 'open';
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+/**
+ * Answer of the lightning-response `/response` endpoint
+ */
+export interface AiResponse {
+  success: boolean;
+  response: string;
+  // Buttons / list menu for the reply (see utils/interactive-reply.ts)
+  interactive?: ResponseInteractive | null;
+  // Sources of the answer, normalized by utils/citations.ts
+  citations?: unknown;
+}
+
+/**
+ * Body of a `/response` request
+ */
+export type AiRequest = Record<string, unknown>;
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  // Half open: the single trial call is running
+  trialInFlight: boolean;
+}
+
+// Per chatbot and per instance - an outage of one tenant's backend does not affect the others
+const circuits = new Map<string, Circuit>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function circuitFor(chatbotId: string): Circuit {
+  let circuit = circuits.get(chatbotId);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+    circuits.set(chatbotId, circuit);
+  }
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt >= CIRCUIT_COOLDOWN_MS) {
+    setCircuitState(chatbotId, circuit, 'half_open');
+  }
+  return circuit;
+}
+
+function setCircuitState(chatbotId: string, circuit: Circuit, state: CircuitState): void {
+  if (circuit.state !== state) {
+    logger.warn(`Response API circuit for chatbot ${chatbotId} is now ${state}`);
+  }
+  circuit.state = state;
+  responseApiCircuitState.set({ chatbot_id: chatbotId }, CIRCUIT_STATE_VALUES[state]);
+}
+
+/**
+ * Current circuit breaker state of a chatbot (open circuits turn half open after the cooldown)
+ */
+export function getCircuitState(chatbotId: string): CircuitState {
+  return circuitFor(chatbotId).state;
+}
+
+function recordSuccess(chatbotId: string, circuit: Circuit): void {
+  circuit.consecutiveFailures = 0;
+  setCircuitState(chatbotId, circuit, 'closed');
+}
+
+function recordFailure(chatbotId: string, circuit: Circuit): void {
+  circuit.consecutiveFailures++;
+  // A failed trial call re-opens at once
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+    setCircuitState(chatbotId, circuit, 'open');
+  }
+}
+
+function classify(error: unknown): ResponseApiError {
+  if (error instanceof ResponseApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new ResponseApiError(errorMessage(error), 'unknown', false);
+  }
+  if (error.response) {
+    const status = error.response.status;
+    // Overload and server errors pass; other client errors would fail again the same way
+    return new ResponseApiError(error.message, `http_${status}`, status >= 500 || status === 429);
+  }
+  const reason = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network';
+  return new ResponseApiError(error.message, reason, true);
+}
+
+function retryDelayMs(retry: number): number {
+  const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, retry - 1);
+  return Math.min(backoff / 2 + Math.random() * (backoff / 2), MAX_RETRY_DELAY_MS);
+}
+
+async function postOnce(chatbotId: string, request: AiRequest): Promise<AiResponse> {
+  const endTimer = responseApiDuration.startTimer({ chatbot_id: chatbotId });
+  try {
+    const response = await axios.post<Partial<AiResponse> & { error?: string }>(`${getResponseApiBaseUrl()}/response`, request, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: TIMEOUT_MS,
+    });
+
+    if (!response.data?.success || !response.data?.response) {
+      endTimer({ outcome: 'error' });
+      responseApiErrorsTotal.inc({ chatbot_id: chatbotId, reason: 'unsuccessful' });
+      logger.error('Response API returned no answer:', response.data);
+      throw new ResponseApiError(response.data?.error || 'Response API returned no answer', 'unsuccessful', false);
+    }
+
+    endTimer({ outcome: 'success' });
+    return { ...response.data, success: true, response: response.data.response };
+  } catch (error) {
+    if (error instanceof ResponseApiError) {
+      throw error;
+    }
+    const classified = classify(error);
+    endTimer({ outcome: 'error' });
+    responseApiErrorsTotal.inc({ chatbot_id: chatbotId, reason: classified.reason });
+    throw classified;
+  }
+}
+
+/**
+ * Ask the response API for the answer to a turn. Transient failures (timeouts, network errors, 5xx,
+ * 429) are retried with jittered backoff; repeated failures open the chatbot's circuit, which refuses
+ * calls until a trial call after the cooldown succeeds. Throws ResponseApiError.
+ */
+export async function requestAiResponse(chatbotId: string, request: AiRequest): Promise<AiResponse> {
+  const circuit = circuitFor(chatbotId);
+  if (circuit.state === 'open' || (circuit.state === 'half_open' && circuit.trialInFlight)) {
+    responseApiErrorsTotal.inc({ chatbot_id: chatbotId, reason: 'circuit_open' });
+    throw new ResponseApiError(`Response API circuit open for chatbot ${chatbotId}`, 'circuit_open', true);
+  }
+
+  const trial = circuit.state === 'half_open';
+  circuit.trialInFlight = trial;
+  // The trial call decides on its own, without retries
+  const maxRetries = trial ? 0 : MAX_RETRIES;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const answer = await postOnce(chatbotId, request);
+        recordSuccess(chatbotId, circuit);
+        return answer;
+      } catch (error) {
+        const failure = error as ResponseApiError;
+        if (!failure.transient) {
+          // The service answered; it is up
+          recordSuccess(chatbotId, circuit);
+          throw failure;
+        }
+        if (attempt > maxRetries) {
+          recordFailure(chatbotId, circuit);
+          throw failure;
+        }
+
+        const delayMs = retryDelayMs(attempt);
+        responseApiRetriesTotal.inc({ chatbot_id: chatbotId });
+        logger.warn(`Response API call for chatbot ${chatbotId} failed (${failure.reason}), retry ${attempt}/${maxRetries} in ${Math.round(delayMs)}ms`);
+        await sleep(delayMs);
+      }
+    }
+  } finally {
+    if (trial) {
+      circuit.trialInFlight = false;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { errorMessage } from '../utils/errors';
+import { decryptSecret, encryptSecret, hashVerifyToken, isEncryptionConfigured, needsReencryption } from '../utils/secrets';
+
+export interface ReencryptionResult {
+  scanned: number;
+  accessTokens: number;
+  appSecrets: number;
+  verifyTokens: number;
+  failed: number;
+}
+
+/**
+ * Re-encrypt account secrets with the active master key and hash legacy verify tokens.
+ * Encrypts plaintext values, moves values encrypted with older key versions to the active one
+ * and replaces plaintext verify tokens by their hash. Safe to run repeatedly and while the
+ * service is serving traffic (rows are updated compare-and-swap).
+ */
+export async function reencryptAccountSecrets(batchSize = 100): Promise<ReencryptionResult> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+  if (!isEncryptionConfigured()) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS not configured');
+  }
+
+  const result: ReencryptionResult = { scanned: 0, accessTokens: 0, appSecrets: 0, verifyTokens: 0, failed: 0 };
+  let lastId = '';
+
+  for (;;) {
+    const batch = await pool.query(
+      `SELECT id, access_token, app_secret, verify_token FROM whatsapp_accounts
+       WHERE id > $1 ORDER BY id ASC LIMIT $2`,
+      [lastId, batchSize]
+    );
+    if (batch.rows.length === 0) {
+      break;
+    }
+
+    for (const row of batch.rows) {
+      lastId = row.id;
+      result.scanned++;
+
+      try {
+        if (row.access_token && needsReencryption(row.access_token)) {
+          const updated = await pool.query(
+            `UPDATE whatsapp_accounts SET access_token = $1, updated_at = NOW()
+             WHERE id = $2 AND access_token = $3`,
+            [encryptSecret(decryptSecret(row.access_token)), row.id, row.access_token]
+          );
+          result.accessTokens += updated.rowCount || 0;
+        }
+
+        if (row.app_secret && needsReencryption(row.app_secret)) {
+          const updated = await pool.query(
+            `UPDATE whatsapp_accounts SET app_secret = $1, updated_at = NOW()
+             WHERE id = $2 AND app_secret = $3`,
+            [encryptSecret(decryptSecret(row.app_secret)), row.id, row.app_secret]
+          );
+          result.appSecrets += updated.rowCount || 0;
+        }
+
+        if (row.verify_token) {
+          const updated = await pool.query(
+            `UPDATE whatsapp_accounts SET verify_token_hash = $1, verify_token = NULL, updated_at = NOW()
+             WHERE id = $2 AND verify_token = $3`,
+            [hashVerifyToken(row.verify_token), row.id, row.verify_token]
+          );
+          result.verifyTokens += updated.rowCount || 0;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to re-encrypt secrets for account ${row.id}:`, { message: errorMessage(error) });
+      }
+    }
+  }
+
+  logger.info('Account secrets re-encryption finished:', result);
+  return result;
+}
@@ -0,0 +1,181 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { createId } from '@paralleldrive/cuid2';
+import { WhatsAppAccount } from './accounts';
+import { graphRequest } from './graph-client';
+
+export interface WhatsAppTemplate {
+  id: string;
+  waba_id: string;
+  meta_template_id: string | null;
+  name: string;
+  language: string;
+  category: string | null;
+  status: string;
+  rejected_reason: string | null;
+  components: unknown[] | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One page of GET /<waba-id>/message_templates
+interface GraphTemplatePage {
+  data?: Array<{
+    id: string;
+    name: string;
+    language: string;
+    category?: string;
+    status: string;
+    rejected_reason?: string;
+    components?: unknown[];
+  }>;
+  paging?: { next?: string };
+}
+
+const TEMPLATE_COLUMNS =
+  'id, waba_id, meta_template_id, name, language, category, status, rejected_reason, components, created_at, updated_at';
+
+/**
+ * Insert or update a template's approval status. `statusAt` is when the status took effect (the
+ * webhook's event time, now when omitted); a status older than the stored one is not applied.
+ */
+export async function upsertTemplate(params: {
+  wabaId: string;
+  name: string;
+  language: string;
+  status: string;
+  metaTemplateId?: string | null;
+  category?: string | null;
+  rejectedReason?: string | null;
+  components?: unknown[] | null;
+  statusAt?: Date;
+}): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  const isNewer = `(whatsapp_templates.status_updated_at IS NULL
+                    OR EXCLUDED.status_updated_at >= whatsapp_templates.status_updated_at)`;
+
+  await pool.query(
+    `INSERT INTO whatsapp_templates
+     (id, waba_id, meta_template_id, name, language, category, status, rejected_reason, components, status_updated_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, NOW()), NOW(), NOW())
+     ON CONFLICT (waba_id, name, language) DO UPDATE
+       SET meta_template_id = COALESCE(EXCLUDED.meta_template_id, whatsapp_templates.meta_template_id),
+           category = COALESCE(EXCLUDED.category, whatsapp_templates.category),
+           status = CASE WHEN ${isNewer} THEN EXCLUDED.status ELSE whatsapp_templates.status END,
+           rejected_reason = CASE WHEN ${isNewer} THEN EXCLUDED.rejected_reason ELSE whatsapp_templates.rejected_reason END,
+           status_updated_at = CASE WHEN ${isNewer} THEN EXCLUDED.status_updated_at ELSE whatsapp_templates.status_updated_at END,
+           components = COALESCE(EXCLUDED.components, whatsapp_templates.components),
+           updated_at = NOW()`,
+    [
+      createId(),
+      params.wabaId,
+      params.metaTemplateId || null,
+      params.name,
+      params.language,
+      params.category || null,
+      params.status.toUpperCase(),
+      params.rejectedReason || null,
+      params.components ? JSON.stringify(params.components) : null,
+      params.statusAt || null,
+    ]
+  );
+}
+
+/**
+ * Record a template category change (template_category_update webhook)
+ */
+export async function updateTemplateCategory(params: {
+  wabaId: string;
+  metaTemplateId?: string | null;
+  name: string;
+  language: string;
+  category: string;
+}): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  await pool.query(
+    `UPDATE whatsapp_templates
+     SET category = $4, updated_at = NOW()
+     WHERE waba_id = $1 AND ((name = $2 AND language = $3) OR meta_template_id = $5)`,
+    [params.wabaId, params.name, params.language, params.category, params.metaTemplateId || null]
+  );
+}
+
+/**
+ * List templates for a WhatsApp Business Account
+ */
+export async function listTemplates(wabaId: string, status?: string): Promise<WhatsAppTemplate[]> {
+  const pool = await getDbClient();
+  if (!pool) return [];
+
+  const result = await pool.query(
+    `SELECT ${TEMPLATE_COLUMNS} FROM whatsapp_templates
+     WHERE waba_id = $1 ${status ? 'AND status = $2' : ''}
+     ORDER BY name ASC, language ASC`,
+    status ? [wabaId, status.toUpperCase()] : [wabaId]
+  );
+  return result.rows;
+}
+
+/**
+ * Find a template by name and language
+ */
+export async function findTemplate(wabaId: string, name: string, language: string): Promise<WhatsAppTemplate | null> {
+  const pool = await getDbClient();
+  if (!pool) return null;
+
+  const result = await pool.query(
+    `SELECT ${TEMPLATE_COLUMNS} FROM whatsapp_templates
+     WHERE waba_id = $1 AND name = $2 AND language = $3
+     LIMIT 1`,
+    [wabaId, name, language]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Pull all templates of the account's WABA from the Graph API and store them
+ */
+export async function syncTemplates(account: WhatsAppAccount): Promise<number> {
+  // Relative to the Graph API base URL at first, then the absolute `next` cursor URL
+  let path: string | undefined = `/${account.waba_id}/message_templates`;
+  let params: Record<string, string | number> | undefined = {
+    fields: 'id,name,language,category,status,rejected_reason,components',
+    limit: 100,
+  };
+  let count = 0;
+
+  while (path) {
+    const page: GraphTemplatePage | null = await graphRequest({
+      operation: 'list_templates',
+      path,
+      accessToken: account.access_token,
+      params,
+      timeoutMs: 30000,
+    });
+
+    for (const template of page?.data || []) {
+      await upsertTemplate({
+        wabaId: account.waba_id,
+        metaTemplateId: template.id,
+        name: template.name,
+        language: template.language,
+        category: template.category,
+        status: template.status,
+        rejectedReason: template.rejected_reason && template.rejected_reason !== 'NONE' ? template.rejected_reason : null,
+        components: template.components,
+      });
+      count++;
+    }
+
+    // The `next` cursor URL already carries all query parameters
+    path = page?.paging?.next;
+    params = undefined;
+  }
+
+  logger.info(`Synced ${count} template(s) for WABA ${account.waba_id}`);
+  return count;
+}
@@ -1,86 +1,45 @@
 import logger from '../config/logger';
-import axios from 'axios';
 import { getDbClient } from '../config/database';
-import { createId } from '@paralleldrive/cuid2';
-
-// Types for WhatsApp webhook payload
-interface WhatsAppWebhookMessage {
-  from: string;
-  id: string;
-  timestamp: string;
-  type: string;
-  text?: {
-    body: string;
-  };
-  image?: {
-    caption?: string;
-    id: string;
-  };
-  audio?: {
-    id: string;
-  };
-  video?: {
-    caption?: string;
-    id: string;
-  };
-  document?: {
-    filename: string;
-    id: string;
-  };
-  location?: {
-    latitude: number;
-    longitude: number;
-  };
-  button?: {
-    text: string;
-    payload: string;
-  };
-  interactive?: {
-    type: string;
-    button_reply?: {
-      title: string;
-    };
-    list_reply?: {
-      title: string;
-    };
-  };
-  [key: string]: any;
-}
-
-interface WhatsAppWebhookEntry {
-  id: string;
-  changes: Array<{
-    value: {
-      metadata: {
-        phone_number_id: string;
-        display_phone_number: string;
-      };
-      contacts?: Array<{
-        profile: {
-          name: string;
-        };
-        wa_id: string;
-      }>;
-      messages?: WhatsAppWebhookMessage[];
-      statuses?: Array<{
-        id: string;
-        status: string;
-        timestamp: string;
-        recipient_id: string;
-        errors?: Array<{
-          code: number;
-          title: string;
-        }>;
-      }>;
-    };
-    field: string;
-  }>;
-}
-
-interface WhatsAppWebhookPayload {
-  object: string;
-  entry: WhatsAppWebhookEntry[];
-}
+import { aiRepliesTotal, fallbackRepliesTotal, messageStageDuration, messagesReceivedTotal } from '../config/metrics';
+import { claimInboundMessage, completeInboundMessage, releaseInboundMessage } from './idempotency';
+import { ingestInboundMedia, isStoredMedia, MediaReference } from './media';
+import { InboundMessage, normalizeInboundMessage } from './inbound-message';
+import {
+  findActiveAccountsByPhoneNumberId,
+  findActiveAccountByChatbotId,
+  findActiveAccountByVerifyToken,
+  WhatsAppAccount,
+} from './accounts';
+import { safeEqual } from '../utils/secrets';
+import { getRepositories, MessageMetadata } from '../repositories';
+import { errorMessage, GraphApiError, ResponseApiError, WebhookPayloadError } from '../utils/errors';
+import { parseWebhookPayload, WebhookPayload } from '../utils/webhook-payload';
+import { buildWhatsAppPayload, describeOutboundMessage, OutboundMessage } from '../utils/whatsapp-payload';
+import { buildAiReplyMessages } from '../utils/interactive-reply';
+import { citationToString, normalizeCitations } from '../utils/citations';
+import { buildUniqueConvId, getContactLastInboundAt, upsertInboundContact } from './contacts';
+import { SendResult, sendWhatsAppMessage, sendWhatsAppPayload } from './whatsapp-sender';
+import { detectHandoffKeyword, getActiveHandoff, startHandoff, touchHandoff } from './handoff';
+import { isServiceWindowOpen, sendOutboundMessage } from './outbound-messages';
+import { upsertTemplate, updateTemplateCategory } from './templates';
+import { processMessageStatus } from './message-status';
+import { ChatbotSettings, getChatbotSettings } from './chatbot-settings';
+import { buildConversationContext } from './context-builder';
+import { PendingReply, scheduleAggregatedReply } from './message-aggregation';
+import { AiResponse, requestAiResponse } from './response-api';
+import { FallbackKind, fallbackText } from './fallback-replies';
+import { FollowUp, queueFollowUp } from './follow-ups';
+import { detectConsentKeyword, isContactOptedOut, recordConsentChange } from './consent';
+import {
+  buildFeedbackPrompt,
+  FEEDBACK,
+  FeedbackValue,
+  findPendingFeedbackComment,
+  parseFeedbackButtonId,
+  reactionToFeedback,
+  recordFeedbackComment,
+  recordMessageFeedback,
+} from './feedback';
 
 /**
  * Handle webhook verification (GET request)
@@ -101,7 +60,7 @@ export async function handleWebhookVerify(
       throw new Error('Verify token not configured');
     }
     
-    if (verifyToken !== expectedToken) {
+    if (!verifyToken || !safeEqual(verifyToken, expectedToken)) {
       logger.warn('Verify token mismatch');
       throw new Error('Invalid verify token');
     }
@@ -113,86 +72,48 @@ export async function handleWebhookVerify(
   try {
     // Query database for account with matching verify token
     // This allows multiple clients with different verify tokens
-    const result = await pool.query(
-      `SELECT id, chatbot_id, phone_number_id FROM whatsapp_accounts 
-       WHERE verify_token = $1 AND status = 'active' LIMIT 1`,
-      [verifyToken]
-    );
+    const account = verifyToken ? await findActiveAccountByVerifyToken(verifyToken) : null;
 
-    if (result.rows.length === 0) {
-      logger.warn(`No active account found with verify token: ${verifyToken}`);
+    if (!account) {
+      logger.warn('No active account found with the provided verify token');
       throw new Error('Invalid verify token');
     }
 
-    const account = result.rows[0];
     logger.info(`Webhook verification successful for account ID: ${account.id}, chatbot: ${account.chatbot_id}`);
     return challenge;
-  } catch (error: any) {
+  } catch (error) {
     logger.error('Error verifying webhook:', error);
     throw error;
   }
 }
 
+/**
+ * Validate a webhook body. Malformed envelopes are dropped (retrying cannot fix them); malformed
+ * messages and statuses are skipped individually.
+ */
+function readWebhookPayload(body: unknown): WebhookPayload | null {
+  try {
+    const { payload, issues } = parseWebhookPayload(body);
+    if (issues.length > 0) {
+      logger.warn('Skipping malformed webhook items:', { issues });
+    }
+    return payload;
+  } catch (error) {
+    if (error instanceof WebhookPayloadError) {
+      logger.error('Dropping malformed webhook payload:', { issues: error.issues });
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Handle incoming webhook messages (POST request)
  * Processes messages for all clients/users based on phone number ID
  */
-export async function handleWebhookMessage(payload: WhatsAppWebhookPayload): Promise<void> {
-  const pool = await getDbClient();
-  
-  // Fallback to environment variables if no database connection
-  if (!pool) {
-    logger.warn('Database connection not available - using single-user mode with env variables');
-    
-    // Log the complete webhook payload from Meta
-    logger.info('📥 Complete WhatsApp Webhook Payload from Meta:', {
-      payload: JSON.stringify(payload, null, 2)
-    });
-    
-    const account = {
-      id: 'env-account',
-      chatbot_id: process.env.CHATBOT_ID || 'test-chatbot',
-      phone_number_id: process.env.WHATSAPP_PHONE_NUMBER_ID,
-      access_token: process.env.WHATSAPP_ACCESS_TOKEN,
-      waba_id: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID,
-      phone_number: process.env.WHATSAPP_PHONE_NUMBER || process.env.WHATSAPP_DISPLAY_PHONE_NUMBER || 'Unknown'
-    };
-
-    try {
-      for (const entry of payload.entry) {
-        logger.info('📨 Entry Details:', {
-          businessAccountId: entry.id,
-          changesCount: entry.changes.length
-        });
-        
-        for (const change of entry.changes) {
-          const { field, value } = change;
-          
-          logger.info('🔄 Change Details:', {
-            field: field,
-            metadata: value?.metadata,
-            hasMessages: !!value?.messages,
-            hasStatuses: !!value?.statuses,
-            messagesCount: value?.messages?.length || 0,
-            statusesCount: value?.statuses?.length || 0
-          });
-          
-          if (field === 'messages') {
-            const messages = value?.messages;
-            if (messages && messages.length > 0) {
-              for (const message of messages) {
-                await processIncomingMessageSimple(account, message, value?.contacts);
-              }
-            }
-          } else {
-            logger.info(`Webhook field received: ${field}`);
-          }
-        }
-      }
-    } catch (error) {
-      logger.error('Error processing webhook message:', error);
-      throw error;
-    }
+export async function handleWebhookMessage(body: unknown): Promise<void> {
+  const payload = readWebhookPayload(body);
+  if (!payload) {
     return;
   }
 
@@ -201,53 +122,49 @@ export async function handleWebhookMessage(payload: WhatsAppWebhookPayload): Pro
       const businessAccountId = entry.id;
 
       for (const change of entry.changes) {
-        const { field, value } = change;
-        const phoneNumberId = value?.metadata?.phone_number_id;
-
-        if (!phoneNumberId) {
-          logger.warn('No phone number ID in webhook payload');
+        // Template webhooks are scoped to the WABA (entry.id) and carry no phone number metadata
+        if (change.field === 'message_template_status_update') {
+          await handleTemplateStatusUpdate(businessAccountId, change.value, entry.time);
           continue;
         }
+        if (change.field === 'template_category_update') {
+          await handleTemplateCategoryUpdate(businessAccountId, change.value);
+          continue;
+        }
+        if (change.field === 'other') {
+          logger.info(`Unhandled webhook field: ${change.name}`);
+          continue;
+        }
+
+        const { value } = change;
+        const phoneNumberId = value.metadata.phone_number_id;
 
         logger.info(`Processing webhook for phone number ID: ${phoneNumberId}`);
 
+        for (const error of value.errors) {
+          logger.error('WhatsApp reported a webhook error:', { phoneNumberId, ...error });
+        }
+
         // Find account(s) by phone number ID - supports multiple clients
-        const accountResult = await pool.query(
-          `SELECT id, chatbot_id, phone_number_id, access_token, waba_id, phone_number 
-           FROM whatsapp_accounts 
-           WHERE phone_number_id = $1 AND status = 'active'`,
-          [phoneNumberId]
-        );
-
-        if (accountResult.rows.length === 0) {
+        const accounts = await findActiveAccountsByPhoneNumberId(phoneNumberId);
+
+        if (accounts.length === 0) {
           logger.warn(`No active account found for phone number ID: ${phoneNumberId}`);
           continue;
         }
 
         // Process each account (in case multiple chatbots use same phone number)
-        for (const account of accountResult.rows) {
+        for (const account of accounts) {
           logger.info(`Processing for account ID: ${account.id}, chatbot: ${account.chatbot_id}`);
 
-          if (field === 'messages') {
-            // Process incoming messages
-            const messages = value?.messages;
-            if (messages && messages.length > 0) {
-              for (const message of messages) {
-                await processIncomingMessage(account, message, value?.contacts, pool);
-              }
-            }
-
-            // Process message statuses
-            const statuses = value?.statuses;
-            if (statuses && statuses.length > 0) {
-              for (const status of statuses) {
-                await processMessageStatus(account, status, pool);
-              }
-            }
-          } else if (field === 'message_template_status_update') {
-            await handleTemplateStatusUpdate(businessAccountId, value);
-          } else {
-            logger.info(`Unhandled webhook field: ${field}`);
+          // Process incoming messages
+          for (const message of value.messages) {
+            await processIncomingMessageOnce(account, normalizeInboundMessage(message, value.contacts));
+          }
+
+          // Process message statuses
+          for (const status of value.statuses) {
+            await processMessageStatus(account, status);
           }
         }
       }
@@ -259,67 +176,40 @@ export async function handleWebhookMessage(payload: WhatsAppWebhookPayload): Pro
 }
 
 /**
- * Simple message processing without database (for testing)
+ * Process an incoming message exactly once per chatbot, keyed on the WhatsApp message ID.
+ * Redelivered webhooks (and concurrent deliveries on other instances) are skipped.
  */
-async function processIncomingMessageSimple(
-  account: any,
-  message: WhatsAppWebhookMessage,
-  contacts: Array<{ profile: { name: string }; wa_id: string }> | undefined
-): Promise<void> {
-  const from = message.from;
-  const messageId = message.id;
-  const timestamp = new Date(parseInt(message.timestamp) * 1000);
-  const type = message.type;
+async function processIncomingMessageOnce(account: WhatsAppAccount, message: InboundMessage): Promise<void> {
+  const claimed = await claimInboundMessage(account.chatbot_id, message.id);
+  if (!claimed) {
+    return;
+  }
 
-  const contact = contacts?.find((c) => c.wa_id === from);
-  const customerName = contact?.profile?.name || 'Unknown';
+  messagesReceivedTotal.inc({ chatbot_id: account.chatbot_id, type: message.type });
+  const endTimer = messageStageDuration.startTimer({ stage: 'total' });
 
-  let messageContent = '';
-  switch (type) {
-    case 'text':
-      messageContent = message.text?.body || '';
-      break;
-    case 'image':
-      messageContent = message.image?.caption || '[Image]';
-      break;
-    case 'audio':
-      messageContent = '[Voice message]';
-      break;
-    case 'video':
-      messageContent = message.video?.caption || '[Video]';
-      break;
-    case 'document':
-      messageContent = `[Document: ${message.document?.filename || 'document'}]`;
-      break;
-    default:
-      messageContent = `[${type}]`;
+  try {
+    await processIncomingMessage(account, message);
+  } catch (error) {
+    // Let the retried webhook event process this message again
+    await releaseInboundMessage(account.chatbot_id, message.id).catch((releaseError) => {
+      logger.error(`Failed to release claim for message ${message.id}:`, releaseError);
+    });
+    throw error;
+  } finally {
+    endTimer();
   }
 
-  logger.info('✅ Message received (no database):', {
-    from: `${customerName} (${from})`,
-    type,
-    content: messageContent,
-    messageId,
-    timestamp: timestamp.toISOString()
-  });
+  await completeInboundMessage(account.chatbot_id, message.id);
 }
 
 /**
  * Process incoming message for a specific client/chatbot
  */
-async function processIncomingMessage(
-  account: any,
-  message: WhatsAppWebhookMessage,
-  contacts: Array<{ profile: { name: string }; wa_id: string }> | undefined,
-  pool: any
-): Promise<void> {
-  const from = message.from;
+async function processIncomingMessage(account: WhatsAppAccount, message: InboundMessage): Promise<void> {
+  const { from, timestamp, customerName, type, media: inboundMedia, interactiveReply } = message;
   const messageId = message.id;
-  const timestamp = new Date(parseInt(message.timestamp) * 1000);
-  const type = message.type;
-
-  const contact = contacts?.find((c) => c.wa_id === from);
-  const customerName = contact?.profile?.name || 'Unknown';
+  const messageContent = message.content;
 
   logger.info('New message received:', {
     accountId: account.id,
@@ -329,45 +219,15 @@ async function processIncomingMessage(
     messageId,
   });
 
-  let messageContent = '';
-
-  switch (type) {
-    case 'text':
-      messageContent = message.text?.body || '';
-      break;
-    case 'image':
-      messageContent = message.image?.caption || '[Image]';
-      break;
-    case 'audio':
-      messageContent = '[Voice message]';
-      break;
-    case 'video':
-      messageContent = message.video?.caption || '[Video]';
-      break;
-    case 'document':
-      messageContent = `[Document: ${message.document?.filename || 'document'}]`;
-      break;
-    case 'location':
-      messageContent = `[Location: ${message.location?.latitude}, ${message.location?.longitude}]`;
-      break;
-    case 'button':
-      messageContent = message.button?.text || '';
-      break;
-    case 'interactive':
-      const interactiveType = message.interactive?.type;
-      if (interactiveType === 'button_reply') {
-        messageContent = message.interactive?.button_reply?.title || '';
-      } else if (interactiveType === 'list_reply') {
-        messageContent = message.interactive?.list_reply?.title || '';
-      }
-      break;
-    default:
-      messageContent = `[Unsupported message type: ${type}]`;
+  // 👍/👎 reactions on our answers are feedback, not messages
+  if (message.reaction) {
+    await handleReaction(account, message.reaction);
+    return;
   }
 
-  // Only process text/interactive messages for AI responses
-  if (type !== 'text' && type !== 'button' && type !== 'interactive') {
-    logger.info(`Skipping non-text/interactive message: ${type}`);
+  // System notices, unsupported and welcome-request messages get no AI response
+  if (!message.answerable) {
+    logger.info(`Skipping unsupported message: ${type}`, message.details?.errors ? { errors: message.details.errors } : {});
     return;
   }
 
@@ -376,327 +236,661 @@ async function processIncomingMessage(
     return;
   }
 
-  try {
-    // Get or create contact in whatsappContacts table
-    const uniqueConvId = `whatsapp_${from}_${account.chatbot_id}`;
-    
-    let contactResult = await pool.query(
-      `SELECT id FROM whatsapp_contacts 
-       WHERE chatbot_id = $1 AND phone_number = $2 LIMIT 1`,
-      [account.chatbot_id, from]
-    );
-
-    let contactId: string;
-    if (contactResult.rows.length === 0) {
-      // Create new contact - generate ID using createId()
-      const newContactId = createId();
-      const insertResult = await pool.query(
-        `INSERT INTO whatsapp_contacts 
-         (id, chatbot_id, phone_number, display_name, whatsapp_user_metadata, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
-         RETURNING id`,
-        [
-          newContactId,
-          account.chatbot_id,
-          from,
-          customerName,
-          JSON.stringify({
-            wa_id: from,
-            profile: { name: customerName },
-            first_seen_at: timestamp.toISOString(),
-            last_seen_at: timestamp.toISOString(),
-            last_inbound_message_id: messageId,
-            waba_id: account.waba_id,
-            phone_number_id: account.phone_number_id,
-            display_phone_number: account.phone_number || '',
-            source: 'organic',
-            opt_in_status: true,
-          }),
-        ]
-      );
-      contactId = insertResult.rows[0].id;
-    } else {
-      contactId = contactResult.rows[0].id;
-      // Update contact metadata
-      // Cast json to jsonb for jsonb_set operation, then cast back to json
-      await pool.query(
-        `UPDATE whatsapp_contacts 
-         SET display_name = $1, 
-             whatsapp_user_metadata = (
-               jsonb_set(
-                 COALESCE(whatsapp_user_metadata::jsonb, '{}'::jsonb),
-                 '{last_seen_at}',
-                 to_jsonb($2::text)
-               )
-             )::json,
-             updated_at = NOW()
-         WHERE id = $3`,
-        [customerName, timestamp.toISOString(), contactId]
-      );
+  // Download and store inbound media - failures are non-fatal so the customer still gets a reply
+  let media: MediaReference | undefined;
+  let mediaError: string | undefined;
+  if (inboundMedia) {
+    const endTimer = messageStageDuration.startTimer({ stage: 'media_download' });
+    try {
+      media = await ingestInboundMedia({
+        chatbotId: account.chatbot_id,
+        accessToken: account.access_token,
+        ...inboundMedia,
+      });
+    } catch (error) {
+      mediaError = errorMessage(error);
+      logger.error(`Failed to ingest ${inboundMedia.type} media ${inboundMedia.mediaId}:`, { message: mediaError });
+    } finally {
+      endTimer();
     }
+  }
 
-    // Store message in unified messages table
-    const dbMessageType = (type === 'text' || type === 'button' || type === 'interactive') 
-      ? 'text' 
-      : type === 'image' || type === 'video' || type === 'document' 
-        ? type 
-        : 'text';
-
-    await pool.query(
-      `INSERT INTO messages 
-       (id, chatbot_id, channel, type, content, unique_conv_id, channel_message_metadata, created_at)
-       VALUES (gen_random_uuid(), $1, 'WHATSAPP', 'user', $2, $3, $4, $5)`,
-      [
-        account.chatbot_id,
-        messageContent,
-        uniqueConvId,
-        JSON.stringify({
-          phoneNumber: from,
-          waMessageId: messageId,
-          messageType: dbMessageType,
-          timestamp: timestamp.toISOString(),
-          contactId: contactId,
-        }),
-        timestamp,
-      ]
-    );
+  // Storage errors propagate so the queued webhook event is retried
+  // Get or create contact in whatsappContacts table
+  const uniqueConvId = buildUniqueConvId(from, account.chatbot_id);
+  const contactId = await upsertInboundContact(account, {
+    phoneNumber: from,
+    displayName: customerName,
+    timestamp,
+    messageId,
+  });
+
+  const settings = await getChatbotSettings(account.chatbot_id);
+  // Titles of tapped buttons and list rows were written by us, not typed by the customer
+  const consentKeyword = inboundMedia || interactiveReply ? null : detectConsentKeyword(messageContent, settings.consent);
+
+  // Feedback button replies and comments are kept out of the AI conversation
+  const feedbackButton = parseFeedbackButtonId(interactiveReply?.id);
+  const feedbackCommentFor = !consentKeyword && !feedbackButton && type === 'text' && settings.feedback.askComment
+    ? await findPendingFeedbackComment(account.chatbot_id, uniqueConvId)
+    : null;
+
+  // Store message in unified messages table
+  const dbMessageType = inboundMedia ? inboundMedia.type : 'text';
+
+  const { messages } = await getRepositories();
+
+  // A re-claimed (previously abandoned) message may already be stored. created_at is when it is stored:
+  // WhatsApp's timestamp (kept in the metadata) has second precision and another clock than our replies.
+  await messages.insertInbound({
+    chatbotId: account.chatbot_id,
+    type: 'user',
+    content: messageContent,
+    uniqueConvId,
+    waMessageId: messageId,
+    metadata: {
+      phoneNumber: from,
+      waMessageId: messageId,
+      messageType: dbMessageType,
+      timestamp: timestamp.toISOString(),
+      contactId: contactId,
+      ...(message.replyToId && { replyToId: message.replyToId }),
+      ...(interactiveReply && { interactiveReply }),
+      ...message.details,
+      ...((feedbackButton || feedbackCommentFor) && { feedbackFlow: true }),
+      ...(media && { media }),
+      ...(mediaError && inboundMedia && { media: { mediaId: inboundMedia.mediaId, type: inboundMedia.type, error: mediaError } }),
+    },
+  });
+
+  // STOP/START keywords apply regardless of who owns the conversation
+  if (consentKeyword) {
+    const optedIn = consentKeyword.action === 'opt_in';
+    await recordConsentChange(account, {
+      phoneNumber: from,
+      optedIn,
+      source: 'keyword',
+      keyword: consentKeyword.keyword,
+      waMessageId: messageId,
+    });
+    await sendConsentConfirmation(account, from, optedIn ? settings.consent.optInReply : settings.consent.optOutReply);
+    return;
+  }
 
-    // Get chatbot info for API call
-    const chatbotResult = await pool.query(
-      `SELECT id, api_key FROM chatbot WHERE id = $1 LIMIT 1`,
-      [account.chatbot_id]
+  // Opted-out contacts never receive messages (their messages are still stored)
+  if (await isContactOptedOut(account.chatbot_id, from)) {
+    logger.info(`Contact ${from} has opted out, no reply sent`);
+    return;
+  }
+
+  if (feedbackButton) {
+    await handleFeedback(account, from, feedbackButton.waMessageId, feedbackButton.feedback, settings);
+    return;
+  }
+
+  if (feedbackCommentFor) {
+    await recordFeedbackComment(account.chatbot_id, feedbackCommentFor, messageContent);
+    await sendFeedbackMessage(account, from, settings.feedback.thanksText);
+    return;
+  }
+
+  // A human agent owns this conversation - keep the AI silent
+  if (await getActiveHandoff(uniqueConvId)) {
+    // The customer is still talking to the agent - do not time the handoff out mid-conversation
+    await touchHandoff(uniqueConvId);
+    logger.info(`Conversation ${uniqueConvId} is handed off to a human agent, AI reply suppressed`);
+    return;
+  }
+
+  // Like consent keywords, a tapped button or list row is not the customer asking for a human
+  const handoffKeyword = inboundMedia || interactiveReply ? null : detectHandoffKeyword(messageContent);
+  if (handoffKeyword) {
+    await startHandoff({
+      chatbotId: account.chatbot_id,
+      uniqueConvId,
+      phoneNumber: from,
+      triggeredBy: 'keyword',
+      reason: `Customer asked for a human ("${handoffKeyword}")`,
+    });
+    await sendHandoffAcknowledgement(account, from);
+    return;
+  }
+
+  // Bursts of quick messages get one reply, sent once the burst is over - also when several arrive
+  // in one webhook payload
+  if (settings.aggregation.windowMs > 0) {
+    await scheduleAggregatedReply(
+      { chatbotId: account.chatbot_id, uniqueConvId, phoneNumber: from, windowMs: settings.aggregation.windowMs },
+      answerAggregatedReply
     );
+    return;
+  }
+
+  await answerTurn(account, {
+    from,
+    uniqueConvId,
+    contactId,
+    settings,
+    attachments: media ? [media] : [],
+    mergeUserTurns: false,
+    interactiveReply,
+  });
+}
+
+/**
+ * Answer the burst of customer messages a pending reply is owed for (unless a human agent took
+ * over or the customer opted out meanwhile)
+ */
+export async function answerAggregatedReply(reply: PendingReply): Promise<void> {
+  const { chatbot_id: chatbotId, unique_conv_id: uniqueConvId, phone_number: from } = reply;
+
+  const account = await findActiveAccountByChatbotId(chatbotId);
+  if (!account) {
+    logger.warn(`Dropping pending reply for ${uniqueConvId}: no active account for chatbot ${chatbotId}`);
+    return;
+  }
+  if ((await getActiveHandoff(uniqueConvId)) || (await isContactOptedOut(chatbotId, from))) {
+    return;
+  }
+
+  const turn = await collectPendingTurn(chatbotId, uniqueConvId, from);
+  if (!turn) {
+    return;
+  }
+  if (turn.waMessageCount > 1) {
+    logger.info(`Replying to ${turn.waMessageCount} aggregated messages in ${uniqueConvId}`);
+  }
+
+  await answerTurn(account, turn.turn);
+}
+
+/**
+ * The customer messages since the conversation's last reply as one AI turn; null when there are none
+ */
+async function collectPendingTurn(
+  chatbotId: string,
+  uniqueConvId: string,
+  from: string
+): Promise<{ turn: AiTurn; waMessageCount: number } | null> {
+  const { messages } = await getRepositories();
+  const pending = await messages.listPendingUserTurn(chatbotId, uniqueConvId);
+  if (pending.length === 0) {
+    return null;
+  }
 
-    if (chatbotResult.rows.length === 0 || !chatbotResult.rows[0].api_key) {
-      logger.error(`Chatbot not found or API key missing for chatbot ID: ${account.chatbot_id}`);
-      return;
+  const latest = pending[pending.length - 1].channel_message_metadata;
+  return {
+    turn: {
+      from,
+      uniqueConvId,
+      contactId: latest.contactId ?? null,
+      settings: await getChatbotSettings(chatbotId),
+      // Media that failed to download only carries an error
+      attachments: pending.map((message) => message.channel_message_metadata.media).filter(isStoredMedia),
+      mergeUserTurns: true,
+      interactiveReply: latest.interactiveReply,
+    },
+    waMessageCount: pending.length,
+  };
+}
+
+/**
+ * Reply to a customer turn with the AI; unexpected failures get the chatbot's error message unless
+ * part of the answer already reached the customer
+ */
+async function answerTurn(account: WhatsAppAccount, turn: AiTurn): Promise<void> {
+  const { from, settings } = turn;
+  const delivery: AiDelivery = { sent: false };
+
+  try {
+    await replyWithAi(account, turn, delivery);
+  } catch (error) {
+    // Log error safely (handle circular references); code and detail are set by database errors
+    const { code, detail } = (error || {}) as { code?: string; detail?: string };
+    logger.error('Error processing incoming message:', {
+      message: errorMessage(error),
+      stack: error instanceof Error ? error.stack : '',
+      code,
+      detail,
+    });
+    aiRepliesTotal.inc({ chatbot_id: account.chatbot_id, outcome: 'error' });
+    // Try to send error message - an apology after the answer would contradict it
+    if (!delivery.sent) {
+      await sendFallbackMessage(account, from, settings, 'error');
     }
+  }
+}
 
-    const chatbot = chatbotResult.rows[0];
+/**
+ * Customer turn to answer with the AI
+ */
+interface AiTurn {
+  from: string;
+  uniqueConvId: string;
+  contactId: string | null;
+  settings: ChatbotSettings;
+  // Media attached to the turn (downloaded and stored by this service)
+  attachments: MediaReference[];
+  // Merge consecutive customer messages into one turn (aggregation, follow-ups)
+  mergeUserTurns: boolean;
+  interactiveReply?: InboundMessage['interactiveReply'];
+  // Answering a queued follow-up: no fallback messages; response API failures and an undelivered answer are rethrown
+  followUp?: boolean;
+}
 
-    // Call lightning-response API
-    const responseApiUrl = process.env.RESPONSE_API_BASE_URL || 'http://localhost:8030';
-    const uniqueClientId = `whatsapp_${from}_${account.chatbot_id}`;
+// Whether part of the answer reached the customer, set as soon as it is sent
+interface AiDelivery {
+  sent: boolean;
+}
 
-    // Get conversation history from messages table
-    const historyResult = await pool.query(
-      `SELECT content, type FROM messages 
-       WHERE chatbot_id = $1 AND unique_conv_id = $2 AND channel = 'WHATSAPP'
-       ORDER BY created_at ASC 
-       LIMIT 10`,
-      [account.chatbot_id, uniqueConvId]
-    );
+/**
+ * Ask the response API for the answer to the conversation and send it. When no answer comes back,
+ * the customer gets the chatbot's fallback message, and a follow-up is queued if the API was unavailable.
+ */
+async function replyWithAi(account: WhatsAppAccount, turn: AiTurn, delivery: AiDelivery): Promise<void> {
+  const { from, uniqueConvId, contactId, settings, attachments, interactiveReply } = turn;
+  const { accounts, messages } = await getRepositories();
+
+  // Key the response API identifies the chatbot with
+  const apiKey = await accounts.findChatbotApiKey(account.chatbot_id);
+  if (!apiKey) {
+    logger.error(`Chatbot not found or API key missing for chatbot ID: ${account.chatbot_id}`);
+    return;
+  }
 
-    const messagesArray = historyResult.rows.map((msg: any) => ({
-      role: msg.type === 'user' ? 'user' : 'assistant',
-      content: msg.content,
-    }));
-
-    const responseRequest = {
-      query: JSON.stringify(messagesArray),
-      mode: 'default',
-      user: {
-        uniqueClientId: uniqueClientId,
-        converslyWebId: chatbot.api_key,
-        metadata: {
-          platform: 'whatsapp',
-          phoneNumber: from,
-        },
-      },
+  const uniqueClientId = uniqueConvId;
+
+  // Most recent conversation history (including the message just stored)
+  const endContextTimer = messageStageDuration.startTimer({ stage: 'context_build' });
+  const messagesArray = await buildConversationContext(account.chatbot_id, uniqueConvId, settings.context, {
+    mergeUserTurns: turn.mergeUserTurns,
+  });
+  endContextTimer();
+
+  const responseRequest = {
+    query: JSON.stringify(messagesArray),
+    mode: 'default',
+    user: {
+      uniqueClientId: uniqueClientId,
+      converslyWebId: apiKey,
       metadata: {
-        originUrl: 'whatsapp://chat',
+        platform: 'whatsapp',
+        phoneNumber: from,
       },
-      chatbotId: account.chatbot_id,
-    };
-
-    logger.info(`Calling lightning-response for chatbot ${account.chatbot_id}`);
-
-    const startTime = Date.now();
-    const response = await axios.post(
-      `${responseApiUrl}/response`,
-      responseRequest,
-      {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        timeout: 30000,
-      }
-    );
+    },
+    metadata: {
+      originUrl: 'whatsapp://chat',
+    },
+    chatbotId: account.chatbot_id,
+    // Option picked from the previous reply's buttons / list menu
+    ...(interactiveReply && { interactiveReply }),
+    // Media attached to the current turn (downloaded and stored by this service)
+    ...(attachments.length > 0 && { attachments }),
+  };
 
-    const responseData = response.data;
-    const responseTime = Date.now() - startTime;
+  logger.info(`Calling lightning-response for chatbot ${account.chatbot_id}`);
 
-    if (responseData.success && responseData.response) {
-      // Send response back via WhatsApp API
-      const sendResult = await sendWhatsAppMessage({
-        phoneNumberId: account.phone_number_id,
-        accessToken: account.access_token,
-        to: from,
-        message: responseData.response,
-      });
+  // Let the customer know a slow answer is on its way
+  let holdingMessage: Promise<void> | null = null;
+  const holdingTimer = settings.fallback.holdingMessageAfterMs > 0 && !turn.followUp
+    ? setTimeout(() => {
+      holdingMessage = sendFallbackMessage(account, from, settings, 'holding');
+    }, settings.fallback.holdingMessageAfterMs)
+    : null;
 
-      const finalMessageId = sendResult.messageId || `ai_${Date.now()}`;
-
-      // Store AI response in unified messages table
-      await pool.query(
-        `INSERT INTO messages 
-         (id, chatbot_id, channel, type, content, unique_conv_id, citations, channel_message_metadata, created_at)
-         VALUES (gen_random_uuid(), $1, 'WHATSAPP', 'assistant', $2, $3, $4, $5, NOW())`,
-        [
-          account.chatbot_id,
-          responseData.response,
-          uniqueConvId,
-          JSON.stringify(responseData.citations || []),
-          JSON.stringify({
-            phoneNumber: from,
-            waMessageId: finalMessageId,
-            messageType: 'text',
-            responseTimeMs: responseTime,
-            contactId: contactId,
-          }),
-        ]
-      );
-
-      logger.info(`AI response sent successfully for chatbot ${account.chatbot_id}`);
-    } else {
-      logger.error('Failed to get response from lightning-response:', responseData);
-      // Send error message
-      await sendWhatsAppMessage({
-        phoneNumberId: account.phone_number_id,
-        accessToken: account.access_token,
-        to: from,
-        message: 'Sorry, I encountered an error processing your message. Please try again later.',
-      });
+  const startTime = Date.now();
+  let responseData: AiResponse;
+  try {
+    responseData = await requestAiResponse(account.chatbot_id, responseRequest);
+  } catch (error) {
+    const failure = error instanceof ResponseApiError ? error : new ResponseApiError(errorMessage(error), 'unknown', false);
+    if (turn.followUp) {
+      throw failure;
     }
-  } catch (error: any) {
-    // Log error safely (handle circular references)
-    const errorMessage = error?.message || String(error);
-    const errorStack = error?.stack || '';
-    logger.error('Error processing incoming message:', {
-      message: errorMessage,
-      stack: errorStack,
-      code: error?.code,
-      detail: error?.detail,
-    });
-    // Try to send error message
+
+    logger.error(`No answer from lightning-response for chatbot ${account.chatbot_id}:`, { reason: failure.reason, message: failure.message });
+    aiRepliesTotal.inc({ chatbot_id: account.chatbot_id, outcome: failure.transient ? 'error' : 'response_failed' });
+
+    // Answer later instead of asking the customer to write again
+    const followUp = failure.transient && settings.fallback.followUp;
+    if (followUp) {
+      await queueFollowUp({ chatbotId: account.chatbot_id, uniqueConvId, phoneNumber: from, error: failure.message });
+    }
+    await sendFallbackMessage(account, from, settings, followUp ? 'unavailable' : 'error', holdingTimer, holdingMessage);
+    return;
+  }
+  const responseTime = Date.now() - startTime;
+
+  // The holding message goes out before the answer, or not at all
+  if (holdingTimer) clearTimeout(holdingTimer);
+  if (holdingMessage) await holdingMessage;
+
+  // WhatsApp-formatted, split at the text limit; buttons / list menu on the last part when the
+  // response API returned choices
+  const citations = normalizeCitations(responseData.citations, settings.citations.maxCitations);
+  const reply = buildAiReplyMessages(responseData.response, responseData.interactive, {
+    items: citations,
+    rendering: settings.citations,
+  });
+  if (reply.usedTextFallback) {
+    logger.warn(`Choices for chatbot ${account.chatbot_id} exceed WhatsApp limits, sent as text`);
+  }
+
+  let answerWaMessageId: string | undefined;
+  let sendFailed = false;
+  // Failure of the first part: nothing reached the customer
+  let unsentError: unknown = null;
+  const endSendTimer = messageStageDuration.startTimer({ stage: 'reply_send' });
+  for (let i = 0; i < reply.messages.length; i++) {
+    const partMessage = reply.messages[i];
+    // Citations are recorded with the last part of the answer itself
+    const isLastAnswerPart = i === reply.answerPartCount - 1;
+
+    // Send response back via WhatsApp API (throttling and outages are retried by the Graph client)
+    let sendResult: SendResult;
     try {
-      await sendWhatsAppMessage({
+      sendResult = await sendWhatsAppPayload({
         phoneNumberId: account.phone_number_id,
         accessToken: account.access_token,
-        to: from,
-        message: 'Sorry, I encountered an error. Please try again later.',
+        payload: buildWhatsAppPayload(from, partMessage),
       });
-    } catch (sendError: any) {
-      // Log send error safely
-      const sendErrorMessage = sendError?.message || String(sendError);
-      logger.error('Failed to send error message:', {
-        message: sendErrorMessage,
-        code: sendError?.code,
+    } catch (error) {
+      // Later parts would arrive out of context
+      logger.error(`Failed to send AI reply part ${i + 1}/${reply.messages.length}: ${errorMessage(error)}`, {
+        kind: error instanceof GraphApiError ? error.kind : 'unknown',
+        code: error instanceof GraphApiError ? error.details.code : undefined,
       });
+      sendFailed = true;
+      if (i === 0) unsentError = error;
+      break;
     }
+
+    delivery.sent = true;
+    const finalMessageId = sendResult.messageId;
+    if (isLastAnswerPart) {
+      answerWaMessageId = sendResult.messageId;
+    }
+
+    // Store each part in unified messages table
+    await messages.insert({
+      chatbotId: account.chatbot_id,
+      type: 'assistant',
+      content: describeOutboundMessage(partMessage),
+      uniqueConvId,
+      citations: isLastAnswerPart ? citations.map(citationToString) : [],
+      metadata: {
+        phoneNumber: from,
+        waMessageId: finalMessageId,
+        messageType: partMessage.type,
+        responseTimeMs: responseTime,
+        contactId: contactId,
+        ...(reply.messages.length > 1 && { part: i + 1, partCount: reply.messages.length }),
+        ...(partMessage.type === 'interactive' && { interactive: partMessage.interactive }),
+        ...(isLastAnswerPart && reply.usedTextFallback && { options: reply.options }),
+        ...(i >= reply.answerPartCount && { citationsMessage: true }),
+        ...(turn.followUp && { followUp: true }),
+      },
+    });
   }
+  endSendTimer();
+  aiRepliesTotal.inc({ chatbot_id: account.chatbot_id, outcome: sendFailed ? 'send_failed' : 'sent' });
+
+  // A follow-up stays queued until its answer is delivered
+  if (turn.followUp && unsentError) {
+    throw unsentError;
+  }
+
+  // Thumbs-up/down buttons, unless the answer already offers choices
+  if (settings.feedback.buttons && answerWaMessageId && reply.options.length === 0) {
+    await sendFeedbackMessage(account, from, buildFeedbackPrompt(answerWaMessageId, settings.feedback));
+  }
+
+  logger.info(`AI response sent successfully for chatbot ${account.chatbot_id}`);
 }
 
 /**
- * Process message status updates
+ * Answer a conversation queued while the response API was unavailable, with everything the customer
+ * wrote since the last reply. Throws ResponseApiError when the API is still unavailable or refuses the turn.
+ * Returns false when there is nothing left to answer (answered meanwhile, handed off, opted out or
+ * the service window closed). Throws when the answer could not be sent, so the follow-up stays queued.
  */
-async function processMessageStatus(
-  account: any,
-  status: { id: string; status: string; timestamp: string; recipient_id: string; errors?: Array<{ code: number; title: string }> },
-  pool: any
-): Promise<void> {
-  const messageId = status.id;
-  const statusValue = status.status;
+export async function answerFollowUp(followUp: FollowUp): Promise<boolean> {
+  const { chatbot_id: chatbotId, unique_conv_id: uniqueConvId, phone_number: from } = followUp;
 
-  logger.info('Message status update:', {
-    accountId: account.id,
-    messageId,
-    status: statusValue,
-    recipient: status.recipient_id,
-  });
+  const account = await findActiveAccountByChatbotId(chatbotId);
+  if (!account) {
+    logger.warn(`Dropping follow-up for ${uniqueConvId}: no active account for chatbot ${chatbotId}`);
+    return false;
+  }
+  if (await isContactOptedOut(chatbotId, from)) {
+    return false;
+  }
+  if (await getActiveHandoff(uniqueConvId)) {
+    return false;
+  }
+  // Same rule as any outbound message: no free-form reply after the 24-hour service window
+  if (!isServiceWindowOpen(await getContactLastInboundAt(chatbotId, from))) {
+    logger.warn(`Dropping follow-up for ${uniqueConvId}: the 24-hour service window is closed`);
+    return false;
+  }
 
-  if (statusValue === 'failed') {
-    const errorCode = status.errors?.[0]?.code;
-    const errorMessage = status.errors?.[0]?.title;
-    logger.error('  Delivery failed:', errorCode, errorMessage);
+  const pending = await collectPendingTurn(chatbotId, uniqueConvId, from);
+  if (!pending) {
+    return false;
   }
 
-  // Update message status in database (messages table)
+  const delivery: AiDelivery = { sent: false };
   try {
-    await pool.query(
-      `UPDATE messages 
-       SET channel_message_metadata = jsonb_set(
-         COALESCE(channel_message_metadata, '{}'::jsonb),
-         '{status}',
-         to_jsonb($1::text)
-       )
-       WHERE channel = 'WHATSAPP' 
-       AND channel_message_metadata->>'waMessageId' = $2`,
-      [statusValue, messageId]
-    );
+    await replyWithAi(account, { ...pending.turn, followUp: true }, delivery);
   } catch (error) {
-    logger.error(`Error updating message status for ${messageId}:`, error);
+    // Answered already - retrying would send the answer twice
+    if (!delivery.sent) throw error;
+    logger.error(`Follow-up for ${uniqueConvId} answered, but storing the answer failed:`, { message: errorMessage(error) });
+  }
+  return true;
+}
+
+/**
+ * Send the chatbot's (localized) fallback message (best effort, failures are only logged).
+ * For error replies, a pending holding message is cancelled or awaited first.
+ */
+async function sendFallbackMessage(
+  account: WhatsAppAccount,
+  to: string,
+  settings: ChatbotSettings,
+  kind: FallbackKind,
+  holdingTimer: NodeJS.Timeout | null = null,
+  holdingMessage: Promise<void> | null = null
+): Promise<void> {
+  if (holdingTimer) clearTimeout(holdingTimer);
+  if (holdingMessage) await holdingMessage;
+
+  try {
+    await sendWhatsAppMessage({
+      phoneNumberId: account.phone_number_id,
+      accessToken: account.access_token,
+      to,
+      message: fallbackText(settings.fallback, kind),
+    });
+    fallbackRepliesTotal.inc({ chatbot_id: account.chatbot_id, kind });
+  } catch (sendError) {
+    // Log send error safely
+    logger.error(`Failed to send ${kind} fallback message:`, {
+      message: errorMessage(sendError),
+      kind: sendError instanceof GraphApiError ? sendError.kind : undefined,
+    });
   }
 }
 
 /**
- * Send WhatsApp message via API
+ * Let the customer know a human agent will take over
  */
-async function sendWhatsAppMessage(params: {
-  phoneNumberId: string;
-  accessToken: string;
-  to: string;
-  message: string;
-}): Promise<{ success: boolean; messageId?: string; error?: string }> {
+async function sendHandoffAcknowledgement(account: WhatsAppAccount, to: string): Promise<void> {
+  const text = process.env.HANDOFF_ACK_MESSAGE ||
+    'Thanks! A member of our team will reply here shortly.';
+
   try {
-    const url = `https://graph.facebook.com/v18.0/${params.phoneNumberId}/messages`;
-
-    const payload = {
-      messaging_product: 'whatsapp',
-      to: params.to,
-      type: 'text',
-      text: {
-        body: params.message,
-      },
-    };
+    await sendOutboundMessage({
+      chatbotId: account.chatbot_id,
+      to,
+      message: { type: 'text', text },
+      senderType: 'assistant',
+    });
+  } catch (error) {
+    logger.error('Failed to send handoff acknowledgement:', { message: errorMessage(error) });
+  }
+}
 
-    const response = await axios.post(url, payload, {
-      headers: {
-        Authorization: `Bearer ${params.accessToken}`,
-        'Content-Type': 'application/json',
-      },
+/**
+ * Confirm an opt-out / opt-in keyword (the opt-out confirmation is the last message the contact receives)
+ */
+async function sendConsentConfirmation(account: WhatsAppAccount, to: string, text: string): Promise<void> {
+  if (!text) return;
+
+  try {
+    await sendOutboundMessage({
+      chatbotId: account.chatbot_id,
+      to,
+      message: { type: 'text', text },
+      senderType: 'assistant',
+      ignoreOptOut: true,
     });
+  } catch (error) {
+    logger.error('Failed to send consent confirmation:', { message: errorMessage(error) });
+  }
+}
 
-    const messageId = response.data?.messages?.[0]?.id;
-
-    return {
-      success: true,
-      messageId: messageId,
-    };
-  } catch (error: any) {
-    logger.error('Error sending WhatsApp message:', error);
-    if (axios.isAxiosError(error)) {
-      return {
-        success: false,
-        error: error.response?.data?.error?.message || error.message,
-      };
-    }
-    return {
-      success: false,
-      error: 'Unknown error sending message',
-    };
+/**
+ * Record 👍/👎 reactions on assistant messages as feedback
+ */
+async function handleReaction(
+  account: WhatsAppAccount,
+  reaction: { messageId: string; emoji?: string }
+): Promise<void> {
+  const feedback = reactionToFeedback(reaction.emoji);
+  if (feedback === null) {
+    logger.info(`Ignoring reaction ${reaction.emoji || ''} on ${reaction.messageId}`);
+    return;
   }
+
+  await recordMessageFeedback(account.chatbot_id, reaction.messageId, feedback);
 }
 
 /**
- * Handle template status updates
+ * Record a thumbs-up/down button reply and ask for a comment on a thumbs-down (if enabled)
  */
-async function handleTemplateStatusUpdate(businessAccountId: string, value: any): Promise<void> {
-  const { event, message_template_id, message_template_name, message_template_language } = value || {};
+async function handleFeedback(
+  account: WhatsAppAccount,
+  from: string,
+  answerWaMessageId: string,
+  feedback: FeedbackValue,
+  settings: ChatbotSettings
+): Promise<void> {
+  const recorded = await recordMessageFeedback(account.chatbot_id, answerWaMessageId, feedback);
+  if (!recorded) return;
+
+  if (feedback === FEEDBACK.Dislike && settings.feedback.askComment) {
+    await sendFeedbackMessage(account, from, settings.feedback.commentPrompt, { feedbackCommentFor: answerWaMessageId });
+  } else {
+    await sendFeedbackMessage(account, from, settings.feedback.thanksText);
+  }
+}
+
+/**
+ * Send a message of the feedback flow (prompts and thanks are not part of the AI conversation)
+ */
+async function sendFeedbackMessage(
+  account: WhatsAppAccount,
+  to: string,
+  message: string | OutboundMessage,
+  metadata: MessageMetadata = {}
+): Promise<void> {
+  if (!message) return;
+
+  try {
+    await sendOutboundMessage({
+      chatbotId: account.chatbot_id,
+      to,
+      message: typeof message === 'string' ? { type: 'text', text: message } : message,
+      senderType: 'assistant',
+      metadata: { feedbackFlow: true, ...metadata },
+    });
+  } catch (error) {
+    logger.error('Failed to send feedback message:', { message: errorMessage(error) });
+  }
+}
+
+// Non-empty string field of a template webhook value
+function templateField(value: Record<string, unknown>, key: string): string | undefined {
+  const field = value[key];
+  return typeof field === 'string' && field !== '' ? field : undefined;
+}
+
+function templateId(value: Record<string, unknown>): string | null {
+  const id = value.message_template_id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+/**
+ * Handle template status updates. Meta may deliver them out of order, so the entry's event time
+ * (Unix seconds) decides whether the update is still newer than the stored status.
+ */
+async function handleTemplateStatusUpdate(
+  businessAccountId: string,
+  value: Record<string, unknown>,
+  eventTime?: number
+): Promise<void> {
+  const event = templateField(value, 'event');
+  const message_template_name = templateField(value, 'message_template_name');
+  const message_template_language = templateField(value, 'message_template_language');
+  const reason = templateField(value, 'reason');
 
   logger.info('Template status update:', {
     template: message_template_name,
     language: message_template_language,
     event,
   });
+
+  if (!message_template_name || !message_template_language || !event) {
+    logger.warn('Incomplete template status update, ignoring');
+    return;
+  }
+
+  await upsertTemplate({
+    wabaId: businessAccountId,
+    metaTemplateId: templateId(value),
+    name: message_template_name,
+    language: message_template_language,
+    status: event,
+    rejectedReason: reason && reason !== 'NONE' ? reason : null,
+    statusAt: eventTime !== undefined ? new Date(eventTime * 1000) : undefined,
+  });
+}
+
+/**
+ * Handle template category updates
+ */
+async function handleTemplateCategoryUpdate(businessAccountId: string, value: Record<string, unknown>): Promise<void> {
+  const message_template_name = templateField(value, 'message_template_name');
+  const message_template_language = templateField(value, 'message_template_language');
+  const new_category = templateField(value, 'new_category');
+
+  logger.info('Template category update:', {
+    template: message_template_name,
+    language: message_template_language,
+    category: new_category,
+  });
+
+  if (!message_template_name || !message_template_language || !new_category) {
+    logger.warn('Incomplete template category update, ignoring');
+    return;
+  }
+
+  await updateTemplateCategory({
+    wabaId: businessAccountId,
+    metaTemplateId: templateId(value),
+    name: message_template_name,
+    language: message_template_language,
+    category: new_category,
+  });
 }
@@ -0,0 +1,351 @@
+import logger from '../config/logger';
+import { getDbClient } from '../config/database';
+import { webhookQueueDepth } from '../config/metrics';
+import { createId } from '@paralleldrive/cuid2';
+import { handleWebhookMessage } from './webhook-handler';
+import { trackInFlight } from './in-flight';
+import { errorMessage } from '../utils/errors';
+
+// Worker configuration (all overridable via environment)
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_POLL_INTERVAL_MS || '1000', 10);
+const CONCURRENCY = parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '10', 10);
+const BASE_BACKOFF_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '5000', 10);
+const MAX_BACKOFF_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000', 10);
+// A 'processing' event whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_LOCK_TIMEOUT_MS || '300000', 10);
+// Completed events are deleted once processed longer ago than this (dead-lettered events are kept for replay)
+const RETENTION_MS = parseInt(process.env.WEBHOOK_EVENT_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 1000;
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'completed' | 'dead_letter';
+
+/**
+ * Queued event as listed by the admin API (without its payload)
+ */
+export interface WebhookEventSummary {
+  id: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  processed_at: Date | null;
+}
+
+interface ClaimedEvent {
+  id: string;
+  // Raw webhook body, validated when the event is processed
+  payload: unknown;
+  attempts: number;
+  max_attempts: number;
+}
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let purgeTimer: NodeJS.Timeout | null = null;
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Exponential backoff for the given (1-based) attempt number, capped at MAX_BACKOFF_MS
+ */
+export function computeBackoffMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, exponent), MAX_BACKOFF_MS);
+}
+
+/**
+ * Persist an accepted webhook payload before it is processed.
+ * Throws if the event could not be stored so the caller can make Meta redeliver.
+ */
+export async function enqueueWebhookEvent(payload: unknown): Promise<string> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const id = createId();
+  await pool.query(
+    `INSERT INTO webhook_events
+     (id, payload, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+     VALUES ($1, $2, 'pending', 0, $3, NOW(), NOW(), NOW())`,
+    [id, JSON.stringify(payload), MAX_ATTEMPTS]
+  );
+
+  logger.info(`Webhook event queued: ${id}`);
+
+  // Pick it up right away instead of waiting for the next poll tick
+  if (running) {
+    setImmediate(() => {
+      poll().catch((error) => logger.error('Webhook worker poll failed:', error));
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Claim due events (pending, or processing with an expired lock) for this worker
+ */
+async function claimEvents(limit: number): Promise<ClaimedEvent[]> {
+  const pool = await getDbClient();
+  if (!pool || limit <= 0) {
+    return [];
+  }
+
+  const result = await pool.query(
+    `UPDATE webhook_events
+     SET status = 'processing', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM webhook_events
+       WHERE (status = 'pending' AND next_attempt_at <= NOW())
+          OR (status = 'processing' AND locked_at < NOW() - $2 * INTERVAL '1 millisecond')
+       ORDER BY next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, payload, attempts, max_attempts`,
+    [limit, LOCK_TIMEOUT_MS]
+  );
+
+  return result.rows;
+}
+
+async function markCompleted(eventId: string): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  await pool.query(
+    `UPDATE webhook_events
+     SET status = 'completed', processed_at = NOW(), locked_at = NULL, last_error = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [eventId]
+  );
+}
+
+async function markFailed(event: ClaimedEvent, error: unknown): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  const lastError = errorMessage(error);
+
+  if (event.attempts >= event.max_attempts) {
+    await pool.query(
+      `UPDATE webhook_events
+       SET status = 'dead_letter', locked_at = NULL, last_error = $2, updated_at = NOW()
+       WHERE id = $1`,
+      [event.id, lastError]
+    );
+    logger.error(`Webhook event ${event.id} moved to dead letter after ${event.attempts} attempts:`, {
+      error: lastError,
+    });
+    return;
+  }
+
+  const delayMs = computeBackoffMs(event.attempts);
+  await pool.query(
+    `UPDATE webhook_events
+     SET status = 'pending', locked_at = NULL, last_error = $2,
+         next_attempt_at = NOW() + $3 * INTERVAL '1 millisecond', updated_at = NOW()
+     WHERE id = $1`,
+    [event.id, lastError, delayMs]
+  );
+  logger.warn(`Webhook event ${event.id} failed (attempt ${event.attempts}/${event.max_attempts}), retrying in ${delayMs}ms:`, {
+    error: lastError,
+  });
+}
+
+async function processEvent(event: ClaimedEvent): Promise<void> {
+  try {
+    const payload = typeof event.payload === 'string' ? JSON.parse(event.payload) : event.payload;
+    await handleWebhookMessage(payload);
+    await markCompleted(event.id);
+  } catch (error) {
+    try {
+      await markFailed(event, error);
+    } catch (updateError) {
+      // Lock expiry will make the event claimable again
+      logger.error(`Failed to record failure for webhook event ${event.id}:`, updateError);
+    }
+  }
+}
+
+async function poll(): Promise<void> {
+  if (!running || polling) {
+    return;
+  }
+
+  polling = true;
+  try {
+    const events = await claimEvents(CONCURRENCY - inFlight.size);
+
+    for (const event of events) {
+      const task = trackInFlight(
+        'webhook_event',
+        processEvent(event).finally(() => {
+          inFlight.delete(event.id);
+        }),
+        event.id
+      );
+      inFlight.set(event.id, task);
+    }
+  } catch (error) {
+    logger.error('Error claiming webhook events:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+function scheduleNextPoll(): void {
+  if (!running) return;
+
+  pollTimer = setTimeout(async () => {
+    try {
+      await poll();
+    } finally {
+      scheduleNextPoll();
+    }
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Delete completed events processed before the retention cutoff, in batches so a large backlog
+ * never holds one long-running delete. Returns the number of deleted events.
+ */
+export async function purgeCompletedEvents(): Promise<number> {
+  const pool = await getDbClient();
+  if (!pool) return 0;
+
+  let purged = 0;
+  for (;;) {
+    const result = await pool.query(
+      `DELETE FROM webhook_events
+       WHERE id IN (
+         SELECT id FROM webhook_events
+         WHERE status = 'completed' AND processed_at < NOW() - $1 * INTERVAL '1 millisecond'
+         LIMIT $2
+       )`,
+      [RETENTION_MS, PURGE_BATCH_SIZE]
+    );
+    purged += result.rowCount || 0;
+    if ((result.rowCount || 0) < PURGE_BATCH_SIZE) break;
+  }
+
+  if (purged > 0) {
+    logger.info(`Purged ${purged} completed webhook event(s)`);
+  }
+  return purged;
+}
+
+/**
+ * Start the background worker loop that processes queued webhook events
+ */
+export function startWebhookWorker(): void {
+  if (running) return;
+
+  running = true;
+  logger.info(`Webhook worker started (concurrency: ${CONCURRENCY}, max attempts: ${MAX_ATTEMPTS})`);
+  scheduleNextPoll();
+
+  purgeTimer = setInterval(() => {
+    purgeCompletedEvents().catch((error) => logger.error('Error purging completed webhook events:', error));
+  }, PURGE_INTERVAL_MS);
+  purgeTimer.unref();
+}
+
+/**
+ * Stop claiming new events. Events already claimed keep running; shutdown waits for them with
+ * drainInFlight, and any it abandons are reclaimed by another worker once their lock expires.
+ */
+export function stopWebhookWorker(): void {
+  if (!running) return;
+
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+
+  logger.info(`Webhook worker stopped (${inFlight.size} event(s) still in flight)`);
+}
+
+/**
+ * Update the queue depth gauge from webhook_events (no-op without a database)
+ */
+export async function refreshWebhookQueueDepth(): Promise<void> {
+  const pool = await getDbClient();
+  if (!pool) return;
+
+  const result = await pool.query<{ status: WebhookEventStatus; count: number }>(
+    `SELECT status, COUNT(*)::int AS count
+     FROM webhook_events
+     WHERE status <> 'completed'
+     GROUP BY status`
+  );
+
+  const counts = new Map<string, number>(result.rows.map((row) => [row.status, row.count]));
+  const statuses: WebhookEventStatus[] = ['pending', 'processing', 'dead_letter'];
+  for (const status of statuses) {
+    webhookQueueDepth.set({ status }, counts.get(status) || 0);
+  }
+}
+
+/**
+ * List webhook events by status (most recent first)
+ */
+export async function listWebhookEvents(
+  status: WebhookEventStatus,
+  limit = 50
+): Promise<WebhookEventSummary[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const result = await pool.query<WebhookEventSummary>(
+    `SELECT id, status, attempts, max_attempts, next_attempt_at, last_error, created_at, updated_at, processed_at
+     FROM webhook_events
+     WHERE status = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [status, limit]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Move dead-lettered events back to pending so the worker processes them again.
+ * Replays every dead-lettered event only with `{ all: true }`; an empty ID list replays nothing.
+ */
+export async function replayDeadLetterEvents(selection: { eventIds: string[] } | { all: true }): Promise<string[]> {
+  const pool = await getDbClient();
+  if (!pool) {
+    throw new Error('Database connection not available');
+  }
+
+  const eventIds = 'eventIds' in selection ? selection.eventIds : null;
+  if (eventIds && eventIds.length === 0) {
+    return [];
+  }
+
+  const result = await pool.query<{ id: string }>(
+    `UPDATE webhook_events
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(), locked_at = NULL, updated_at = NOW()
+     WHERE status = 'dead_letter' ${eventIds ? 'AND id = ANY($1)' : ''}
+     RETURNING id`,
+    eventIds ? [eventIds] : []
+  );
+
+  const replayed = result.rows.map((row) => row.id);
+  logger.info(`Replaying ${replayed.length} dead-lettered webhook event(s)`);
+  return replayed;
+}
@@ -0,0 +1,56 @@
+import { graphRequest } from './graph-client';
+import { GraphApiError } from '../utils/errors';
+import { WhatsAppPayload } from '../utils/whatsapp-payload';
+
+export interface SendResult {
+  messageId: string;
+}
+
+/**
+ * Send any message payload via the WhatsApp Cloud API `/messages` endpoint.
+ * Throws GraphApiError (after retries for throttling and transient failures).
+ */
+export async function sendWhatsAppPayload(params: {
+  phoneNumberId: string;
+  accessToken: string;
+  payload: WhatsAppPayload;
+}): Promise<SendResult> {
+  const data = await graphRequest<{ messages?: Array<{ id?: string }> } | null>({
+    operation: 'send_message',
+    method: 'POST',
+    path: `/${params.phoneNumberId}/messages`,
+    accessToken: params.accessToken,
+    data: params.payload,
+    phoneNumberId: params.phoneNumberId,
+  });
+
+  const messageId = data?.messages?.[0]?.id;
+  if (!messageId) {
+    throw new GraphApiError('WhatsApp API did not return a message ID', 'unknown');
+  }
+
+  return { messageId };
+}
+
+/**
+ * Send a plain text WhatsApp message
+ */
+export async function sendWhatsAppMessage(params: {
+  phoneNumberId: string;
+  accessToken: string;
+  to: string;
+  message: string;
+}): Promise<SendResult> {
+  return sendWhatsAppPayload({
+    phoneNumberId: params.phoneNumberId,
+    accessToken: params.accessToken,
+    payload: {
+      messaging_product: 'whatsapp',
+      to: params.to,
+      type: 'text',
+      text: {
+        body: params.message,
+      },
+    },
+  });
+}
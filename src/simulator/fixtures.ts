@@ -0,0 +1,232 @@
+import { createId } from '@paralleldrive/cuid2';
+import {
+  WebhookContact,
+  WebhookError,
+  WebhookMessage,
+  WebhookMessageType,
+  WebhookPayload,
+  WebhookStatus,
+} from '../utils/webhook-payload';
+
+/**
+ * Account a fixture webhook is addressed to
+ */
+export interface FixtureAccount {
+  phoneNumberId: string;
+  wabaId: string;
+  displayPhoneNumber?: string;
+}
+
+/**
+ * Customer a fixture message comes from
+ */
+export interface FixtureCustomer {
+  phoneNumber: string;
+  name?: string;
+}
+
+// Media IDs of the fixture media messages; register them with Simulator.addMedia to make them downloadable
+export const FIXTURE_MEDIA = {
+  image: { id: '900000000000001', mimeType: 'image/jpeg' },
+  video: { id: '900000000000002', mimeType: 'video/mp4' },
+  audio: { id: '900000000000003', mimeType: 'audio/ogg' },
+  document: { id: '900000000000004', mimeType: 'application/pdf' },
+  sticker: { id: '900000000000005', mimeType: 'image/webp' },
+} as const;
+
+/**
+ * Unique message ID (inbound messages are deduplicated on it)
+ */
+export function fixtureMessageId(): string {
+  return `wamid.fixture.${createId()}`;
+}
+
+function messageBase(from: string) {
+  return { from, id: fixtureMessageId(), timestamp: String(Math.floor(Date.now() / 1000)) };
+}
+
+type MessageFixtures = { [T in WebhookMessageType]: (from: string) => Extract<WebhookMessage, { type: T }> };
+
+/**
+ * One inbound message of every type, as WhatsApp delivers it
+ */
+export const messageFixtures: MessageFixtures = {
+  text: (from) => ({ ...messageBase(from), type: 'text', text: { body: 'Hi, what are your opening hours?' } }),
+  image: (from) => ({
+    ...messageBase(from),
+    type: 'image',
+    image: { id: FIXTURE_MEDIA.image.id, mime_type: FIXTURE_MEDIA.image.mimeType, caption: 'Is this in stock?' },
+  }),
+  video: (from) => ({
+    ...messageBase(from),
+    type: 'video',
+    video: { id: FIXTURE_MEDIA.video.id, mime_type: FIXTURE_MEDIA.video.mimeType },
+  }),
+  audio: (from) => ({
+    ...messageBase(from),
+    type: 'audio',
+    audio: { id: FIXTURE_MEDIA.audio.id, mime_type: FIXTURE_MEDIA.audio.mimeType, voice: true },
+  }),
+  document: (from) => ({
+    ...messageBase(from),
+    type: 'document',
+    document: { id: FIXTURE_MEDIA.document.id, mime_type: FIXTURE_MEDIA.document.mimeType, filename: 'invoice.pdf' },
+  }),
+  sticker: (from) => ({
+    ...messageBase(from),
+    type: 'sticker',
+    sticker: { id: FIXTURE_MEDIA.sticker.id, mime_type: FIXTURE_MEDIA.sticker.mimeType, animated: false },
+  }),
+  location: (from) => ({
+    ...messageBase(from),
+    type: 'location',
+    location: { latitude: 52.52, longitude: 13.405, name: 'Main Store', address: 'Alexanderplatz 1, Berlin' },
+  }),
+  contacts: (from) => ({
+    ...messageBase(from),
+    type: 'contacts',
+    contacts: [{ name: { formatted_name: 'Jane Doe', first_name: 'Jane' }, phones: [{ phone: '+1 555 0100', type: 'CELL' }] }],
+  }),
+  reaction: (from) => ({
+    ...messageBase(from),
+    type: 'reaction',
+    reaction: { message_id: fixtureMessageId(), emoji: '👍' },
+  }),
+  button: (from) => ({ ...messageBase(from), type: 'button', button: { text: 'Track order', payload: 'track_order' } }),
+  interactive: (from) => ({
+    ...messageBase(from),
+    type: 'interactive',
+    interactive: { type: 'button_reply', button_reply: { id: 'track_order', title: 'Track my order' } },
+  }),
+  order: (from) => ({
+    ...messageBase(from),
+    type: 'order',
+    order: {
+      catalog_id: '100000000000001',
+      text: 'Please deliver before Friday',
+      product_items: [{ product_retailer_id: 'sku_1', quantity: 2, item_price: 19.99, currency: 'EUR' }],
+    },
+  }),
+  system: (from) => ({
+    ...messageBase(from),
+    type: 'system',
+    system: { body: 'Customer changed their number', type: 'user_changed_number', new_wa_id: '15550009999' },
+  }),
+  request_welcome: (from) => ({ ...messageBase(from), type: 'request_welcome' }),
+  unsupported: (from) => ({
+    ...messageBase(from),
+    type: 'unsupported',
+    errors: [{ code: 131051, title: 'Message type unknown', message: 'Message type unknown' }],
+  }),
+};
+
+type StatusFixtures = { [S in WebhookStatus['status']]: (messageId: string, recipientId: string) => WebhookStatus };
+
+function statusBase(messageId: string, recipientId: string) {
+  return { id: messageId, recipient_id: recipientId, timestamp: String(Math.floor(Date.now() / 1000)) };
+}
+
+/**
+ * One delivery status of every kind for an outbound message
+ */
+export const statusFixtures: StatusFixtures = {
+  sent: (messageId, recipientId) => ({
+    ...statusBase(messageId, recipientId),
+    status: 'sent',
+    conversation: { id: createId(), origin: { type: 'service' } },
+    pricing: { billable: true, pricing_model: 'CBP', category: 'service' },
+  }),
+  delivered: (messageId, recipientId) => ({ ...statusBase(messageId, recipientId), status: 'delivered' }),
+  read: (messageId, recipientId) => ({ ...statusBase(messageId, recipientId), status: 'read' }),
+  deleted: (messageId, recipientId) => ({ ...statusBase(messageId, recipientId), status: 'deleted' }),
+  warning: (messageId, recipientId) => ({ ...statusBase(messageId, recipientId), status: 'warning' }),
+  failed: (messageId, recipientId) => ({
+    ...statusBase(messageId, recipientId),
+    status: 'failed',
+    errors: [
+      {
+        code: 131047,
+        title: 'Re-engagement message',
+        message: 'Re-engagement message',
+        error_data: { details: 'Message failed to send because more than 24 hours have passed since the customer last replied' },
+      },
+    ],
+  }),
+};
+
+/**
+ * `messages` webhook for an account
+ */
+export function messagesWebhook(
+  account: FixtureAccount,
+  value: { contacts?: WebhookContact[]; messages?: WebhookMessage[]; statuses?: WebhookStatus[]; errors?: WebhookError[] }
+): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: account.wabaId,
+        changes: [
+          {
+            field: 'messages',
+            value: {
+              messaging_product: 'whatsapp',
+              metadata: { phone_number_id: account.phoneNumberId, display_phone_number: account.displayPhoneNumber || '15550100000' },
+              contacts: value.contacts || [],
+              messages: value.messages || [],
+              statuses: value.statuses || [],
+              errors: value.errors || [],
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Webhook delivering customer messages, with the customer's profile
+ */
+export function inboundWebhook(account: FixtureAccount, customer: FixtureCustomer, ...messages: WebhookMessage[]): WebhookPayload {
+  return messagesWebhook(account, {
+    contacts: [{ wa_id: customer.phoneNumber, profile: { name: customer.name || 'Test Customer' } }],
+    messages,
+  });
+}
+
+/**
+ * Webhook delivering delivery statuses
+ */
+export function statusWebhook(account: FixtureAccount, ...statuses: WebhookStatus[]): WebhookPayload {
+  return messagesWebhook(account, { statuses });
+}
+
+/**
+ * Template review webhook (event: APPROVED, REJECTED, PAUSED, ...)
+ */
+export function templateStatusWebhook(
+  account: FixtureAccount,
+  template: { id: string; name: string; language: string; event: string; reason?: string; time?: number }
+): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: account.wabaId,
+        time: template.time ?? Math.floor(Date.now() / 1000),
+        changes: [
+          {
+            field: 'message_template_status_update',
+            value: {
+              event: template.event,
+              message_template_id: template.id,
+              message_template_name: template.name,
+              message_template_language: template.language,
+              reason: template.reason || 'NONE',
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
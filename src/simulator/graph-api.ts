@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { createId } from '@paralleldrive/cuid2';
+import { SimulatorState } from './state';
+
+function graphError(res: Response, status: number, code: number, message: string, type = 'OAuthException', errorSubcode?: number) {
+  return res.status(status).json({
+    error: {
+      message,
+      type,
+      code,
+      ...(errorSubcode !== undefined && { error_subcode: errorSubcode }),
+      fbtrace_id: createId(),
+    },
+  });
+}
+
+function accessTokenOf(req: Request): string | null {
+  const match = req.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+// Every Graph call carries the account's access token
+function requireAccessToken(req: Request, res: Response, next: NextFunction) {
+  if (!accessTokenOf(req)) {
+    return graphError(res, 401, 190, 'Invalid OAuth access token - Cannot parse access token');
+  }
+  next();
+}
+
+/**
+ * Graph API endpoints the service calls, mounted under /<version> (e.g. /v18.0)
+ */
+export function createGraphApiRouter(state: SimulatorState, getBaseUrl: () => string): Router {
+  const router = Router();
+  router.use(requireAccessToken);
+
+  // Send a message
+  router.post('/:phoneNumberId/messages', (req: Request, res: Response) => {
+    const scripted = state.sendErrors.shift();
+    if (scripted) {
+      return graphError(res, scripted.status, scripted.code, scripted.message, scripted.type, scripted.errorSubcode);
+    }
+
+    const payload = req.body || {};
+    if (payload.messaging_product !== 'whatsapp') {
+      return graphError(res, 400, 100, '(#100) The parameter messaging_product is required.');
+    }
+    if (typeof payload.to !== 'string' || !payload.to) {
+      return graphError(res, 400, 100, '(#100) The parameter to is required.');
+    }
+    if (payload.type && !payload[payload.type]) {
+      return graphError(res, 400, 100, `(#100) Param ${payload.type} is required for type ${payload.type}.`);
+    }
+
+    const id = `wamid.${createId()}`;
+    state.sentMessages.push({
+      id,
+      phoneNumberId: req.params.phoneNumberId,
+      accessToken: accessTokenOf(req) as string,
+      payload,
+      receivedAt: new Date(),
+    });
+
+    const answer = () =>
+      res.status(200).json({
+        messaging_product: 'whatsapp',
+        contacts: [{ input: payload.to, wa_id: payload.to }],
+        messages: [{ id }],
+      });
+    const delayMs = state.sendDelays.shift();
+    if (delayMs) {
+      setTimeout(answer, delayMs);
+    } else {
+      answer();
+    }
+  });
+
+  // Message templates of a WABA
+  router.get('/:wabaId/message_templates', (req: Request, res: Response) => {
+    res.status(200).json({ data: state.templates.get(req.params.wabaId) || [], paging: {} });
+  });
+
+  // Media object (download URL) or phone number (account validation)
+  router.get('/:id', (req: Request, res: Response) => {
+    const media = state.media.get(req.params.id);
+    if (media) {
+      return res.status(200).json({
+        messaging_product: 'whatsapp',
+        id: req.params.id,
+        url: `${getBaseUrl()}/downloads/${encodeURIComponent(req.params.id)}`,
+        mime_type: media.mimeType,
+        sha256: crypto.createHash('sha256').update(media.data).digest('hex'),
+        file_size: media.data.length,
+      });
+    }
+
+    if (/^\d+$/.test(req.params.id)) {
+      return res.status(200).json({
+        id: req.params.id,
+        display_phone_number: '+1 555-010-0000',
+        verified_name: 'Simulator Business',
+        quality_rating: 'GREEN',
+      });
+    }
+
+    return graphError(res, 404, 100, `Unsupported get request. Object with ID '${req.params.id}' does not exist`, 'GraphMethodException', 33);
+  });
+
+  return router;
+}
+
+/**
+ * Media download URLs handed out by the media endpoint (require the access token too)
+ */
+export function createMediaDownloadRouter(state: SimulatorState): Router {
+  const router = Router();
+  router.use(requireAccessToken);
+
+  router.get('/:mediaId', (req: Request, res: Response) => {
+    const media = state.media.get(req.params.mediaId);
+    if (!media) {
+      return res.status(404).send('Not found');
+    }
+    res.setHeader('Content-Type', media.mimeType);
+    res.status(200).send(media.data);
+  });
+
+  return router;
+}
@@ -0,0 +1,156 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { createGraphApiRouter, createMediaDownloadRouter } from './graph-api';
+import { createResponseApiRouter } from './response-api';
+import {
+  createSimulatorState,
+  SimulatedGraphError,
+  SimulatedResponse,
+  SimulatedResponseRequest,
+  SimulatedSend,
+  SimulatorState,
+} from './state';
+
+export * from './state';
+export * from './fixtures';
+
+// Graph API version the simulator is addressed with (any vX.Y path works)
+export const SIMULATOR_GRAPH_API_VERSION = 'v18.0';
+
+/**
+ * Local stand-in for graph.facebook.com (send, media, templates, phone number lookup) and the
+ * lightning-response `/response` endpoint. Point GRAPH_API_BASE_URL at `graphApiBaseUrl` and
+ * RESPONSE_API_BASE_URL at `responseApiBaseUrl`.
+ */
+export class Simulator {
+  private readonly state: SimulatorState = createSimulatorState();
+  private server: http.Server | null = null;
+  private baseUrl = '';
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  get graphApiBaseUrl(): string {
+    return `${this.baseUrl}/${SIMULATOR_GRAPH_API_VERSION}`;
+  }
+
+  get responseApiBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Messages the service sent through the Graph API, oldest first
+  get sentMessages(): SimulatedSend[] {
+    return this.state.sentMessages;
+  }
+
+  // Requests the service made to the response API, oldest first
+  get responseRequests(): SimulatedResponseRequest[] {
+    return this.state.responseRequests;
+  }
+
+  /**
+   * Listen on the given port (0 = any free port)
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<void> {
+    const app = express();
+    app.use(express.json({ limit: '5mb' }));
+
+    app.use('/downloads', createMediaDownloadRouter(this.state));
+    app.use(createResponseApiRouter(this.state));
+
+    // Recorded traffic for manual runs
+    app.get('/__simulator/sent-messages', (req: Request, res: Response) => {
+      res.status(200).json({ data: this.state.sentMessages });
+    });
+    app.get('/__simulator/response-requests', (req: Request, res: Response) => {
+      res.status(200).json({ data: this.state.responseRequests });
+    });
+    app.post('/__simulator/reset', (req: Request, res: Response) => {
+      this.reset();
+      res.status(204).end();
+    });
+
+    app.use('/:version(v\\d+\\.\\d+)', createGraphApiRouter(this.state, () => this.baseUrl));
+
+    const server = http.createServer(app);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${host}:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Answer the next response API request with this reply instead of the echo
+   */
+  queueResponse(response: SimulatedResponse): void {
+    this.state.responseQueue.push(response);
+  }
+
+  /**
+   * Fail the next Graph send with this error
+   */
+  queueSendError(error: SimulatedGraphError): void {
+    this.state.sendErrors.push(error);
+  }
+
+  /**
+   * Accept the next Graph send but answer it only after delayMs (e.g. beyond the client timeout)
+   */
+  queueSendDelay(delayMs: number): void {
+    this.state.sendDelays.push(delayMs);
+  }
+
+  /**
+   * Make a media ID downloadable
+   */
+  addMedia(mediaId: string, data: Buffer, mimeType: string): void {
+    this.state.media.set(mediaId, { data, mimeType });
+  }
+
+  setTemplates(wabaId: string, templates: Record<string, unknown>[]): void {
+    this.state.templates.set(wabaId, templates);
+  }
+
+  /**
+   * Simulate a response API outage (false: /health and /response answer 503) or end it (true)
+   */
+  setResponseApiHealthy(healthy: boolean): void {
+    this.state.responseApiHealthy = healthy;
+  }
+
+  /**
+   * Forget recorded traffic and scripted replies, report healthy again (media and templates are kept)
+   */
+  reset(): void {
+    this.state.responseApiHealthy = true;
+    this.state.sentMessages.length = 0;
+    this.state.responseRequests.length = 0;
+    this.state.responseQueue.length = 0;
+    this.state.sendErrors.length = 0;
+    this.state.sendDelays.length = 0;
+  }
+}
+
+/**
+ * Start a simulator on the given port (0 = any free port)
+ */
+export async function startSimulator(port = 0): Promise<Simulator> {
+  const simulator = new Simulator();
+  await simulator.start(port);
+  return simulator;
+}
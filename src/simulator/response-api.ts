@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { SimulatedResponse, SimulatedResponseRequestBody, SimulatorState } from './state';
+
+/**
+ * Default answer: echo the customer's last turn, so replies can be matched to what was asked
+ */
+function echoResponse(body: SimulatedResponseRequestBody): SimulatedResponse {
+  let history: Array<{ role?: string; content?: string }> = [];
+  try {
+    const parsed = JSON.parse(body.query);
+    history = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    history = [];
+  }
+
+  const lastUserTurn = [...history].reverse().find((message) => message.role === 'user');
+  return {
+    body: {
+      success: true,
+      response: `You said: ${lastUserTurn?.content ?? ''}`,
+    },
+  };
+}
+
+/**
+ * lightning-response `/response` and `/health` endpoints
+ */
+export function createResponseApiRouter(state: SimulatorState): Router {
+  const router = Router();
+
+  router.post('/response', async (req: Request, res: Response) => {
+    const body = req.body || {};
+    state.responseRequests.push({ body, receivedAt: new Date() });
+
+    if (typeof body.query !== 'string' || !body.user?.converslyWebId || !body.chatbotId) {
+      return res.status(400).json({ success: false, error: 'query, user.converslyWebId and chatbotId are required' });
+    }
+
+    // Outage: every request fails until the API is healthy again
+    if (!state.responseApiHealthy) {
+      return res.status(503).json({ success: false, error: 'Service unavailable' });
+    }
+
+    const reply = state.responseQueue.shift() || echoResponse(body);
+    if (reply.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    }
+    res.status(reply.status || 200).json(reply.body);
+  });
+
+  router.get('/health', (req: Request, res: Response) => {
+    if (!state.responseApiHealthy) {
+      return res.status(503).json({ status: 'unavailable' });
+    }
+    res.status(200).json({ status: 'ok' });
+  });
+
+  return router;
+}
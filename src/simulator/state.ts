@@ -0,0 +1,105 @@
+import { MediaReference } from '../services/media';
+
+/**
+ * Body of a Graph `/messages` request as received (the type-specific object is named after `type`)
+ */
+export interface SimulatedSendPayload {
+  messaging_product: string;
+  to: string;
+  type: string;
+  text?: { body: string; preview_url?: boolean };
+  template?: { name: string; language: { code: string }; components?: unknown[] };
+  interactive?: {
+    type: string;
+    action: { buttons?: Array<{ type: string; reply: { id: string; title: string } }>; [key: string]: unknown };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Message accepted by the simulated Graph `/messages` endpoint
+ */
+export interface SimulatedSend {
+  // wamid returned to the service
+  id: string;
+  phoneNumberId: string;
+  accessToken: string;
+  payload: SimulatedSendPayload;
+  receivedAt: Date;
+}
+
+/**
+ * Body of a `/response` request as received
+ */
+export interface SimulatedResponseRequestBody {
+  // JSON-encoded conversation history
+  query: string;
+  chatbotId: string;
+  user: { uniqueClientId: string; converslyWebId: string; metadata?: { phoneNumber?: string } };
+  interactiveReply?: unknown;
+  attachments?: MediaReference[];
+  [key: string]: unknown;
+}
+
+/**
+ * Request received by the simulated response API
+ */
+export interface SimulatedResponseRequest {
+  body: SimulatedResponseRequestBody;
+  receivedAt: Date;
+}
+
+/**
+ * Scripted answer of the simulated response API (the default echoes the customer's last message)
+ */
+export interface SimulatedResponse {
+  status?: number;
+  // Sent as JSON as-is, so malformed answers can be scripted too
+  body: unknown;
+  delayMs?: number;
+}
+
+/**
+ * Scripted error of the simulated Graph `/messages` endpoint, in the Graph API error format
+ */
+export interface SimulatedGraphError {
+  status: number;
+  code: number;
+  message: string;
+  type?: string;
+  errorSubcode?: number;
+}
+
+export interface SimulatedMedia {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface SimulatorState {
+  sentMessages: SimulatedSend[];
+  responseRequests: SimulatedResponseRequest[];
+  media: Map<string, SimulatedMedia>;
+  // Message templates per WABA ID
+  templates: Map<string, Record<string, unknown>[]>;
+  // Consumed in order, one per request
+  responseQueue: SimulatedResponse[];
+  sendErrors: SimulatedGraphError[];
+  // Accepted sends answered only after this many milliseconds (lost acknowledgements)
+  sendDelays: number[];
+  // Response API outage when false: /health and /response answer 503
+  responseApiHealthy: boolean;
+}
+
+export function createSimulatorState(): SimulatorState {
+  return {
+    sentMessages: [],
+    responseRequests: [],
+    media: new Map(),
+    templates: new Map(),
+    responseQueue: [],
+    sendErrors: [],
+    sendDelays: [],
+    responseApiHealthy: true,
+  };
+}
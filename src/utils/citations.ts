@@ -0,0 +1,130 @@
+import { InteractiveContent, WHATSAPP_LIMITS } from './whatsapp-payload';
+
+/**
+ * Citation as returned by the response API: a URL / title string or an object
+ */
+export type RawCitation = string | { title?: string; name?: string; url?: string; link?: string; source?: string };
+
+export interface Citation {
+  title?: string;
+  url?: string;
+}
+
+/**
+ * How citations are shown to the customer (per-chatbot `citations` settings)
+ */
+export interface CitationRendering {
+  mode: 'none' | 'footnotes' | 'message' | 'cta_button';
+  label: string;
+  ctaText: string;
+}
+
+const DEFAULT_LABEL = 'Sources';
+const DEFAULT_CTA_TEXT = 'View source';
+const MAX_TITLE_LENGTH = 100;
+// Longer URLs are dropped rather than shortened - a cut URL does not open
+const MAX_URL_LENGTH = 500;
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value);
+}
+
+function clip(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Deduplication key: URLs compare without fragment, trailing slash and case of the host
+ */
+function citationKey(citation: Citation): string {
+  if (citation.url) {
+    try {
+      const url = new URL(citation.url);
+      url.hash = '';
+      return url.toString().replace(/\/$/, '').toLowerCase();
+    } catch {
+      return citation.url.toLowerCase();
+    }
+  }
+  return (citation.title || '').toLowerCase();
+}
+
+/**
+ * Normalize and deduplicate the response API's citations, keeping their order
+ */
+export function normalizeCitations(raw: unknown, maxCitations: number): Citation[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+
+  for (const item of raw as RawCitation[]) {
+    let citation: Citation;
+    if (typeof item === 'string') {
+      const value = item.trim();
+      citation = isUrl(value) ? { url: value } : { title: value };
+    } else if (item && typeof item === 'object') {
+      const url = (item.url || item.link || item.source || '').trim();
+      const title = (item.title || item.name || '').trim();
+      citation = { ...(title && { title }), ...(isUrl(url) && { url }) };
+    } else {
+      continue;
+    }
+
+    if (citation.url && citation.url.length > MAX_URL_LENGTH) {
+      delete citation.url;
+    }
+    if (citation.title) {
+      citation.title = clip(citation.title.replace(/\s+/g, ' '), MAX_TITLE_LENGTH);
+    }
+    if (!citation.title && !citation.url) continue;
+
+    const key = citationKey(citation);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    citations.push(citation);
+    if (citations.length >= maxCitations) break;
+  }
+
+  return citations;
+}
+
+/**
+ * Value stored in messages.citations (text[])
+ */
+export function citationToString(citation: Citation): string {
+  return citation.url || citation.title || '';
+}
+
+/**
+ * CTA URL button message for the first citation with a URL (null when none has one)
+ */
+export function buildCitationCta(citations: Citation[], rendering: CitationRendering): InteractiveContent | null {
+  const citation = citations.find((item) => item.url);
+  if (!citation?.url) return null;
+
+  const label = rendering.label.trim() || DEFAULT_LABEL;
+  return {
+    type: 'cta_url',
+    body: clip(citation.title ? `${label}: ${citation.title}` : label, WHATSAPP_LIMITS.interactiveBody),
+    displayText: clip(rendering.ctaText.trim() || DEFAULT_CTA_TEXT, WHATSAPP_LIMITS.ctaDisplayText),
+    url: citation.url,
+  };
+}
+
+/**
+ * Numbered citation list ("[1] Title - https://...") of at most maxLength characters;
+ * citations that do not fit are left out
+ */
+export function renderCitationList(citations: Citation[], label: string, maxLength: number = WHATSAPP_LIMITS.textBody): string {
+  let text = `*${label.trim() || DEFAULT_LABEL}*`;
+
+  for (let i = 0; i < citations.length; i++) {
+    const line = `\n[${i + 1}] ${[citations[i].title, citations[i].url].filter(Boolean).join(' - ')}`;
+    if (text.length + line.length > maxLength) break;
+    text += line;
+  }
+
+  return text;
+}
@@ -0,0 +1,149 @@
+/**
+ * Error carrying an HTTP status code, surfaced as-is by the API routes
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Invalid request input (400)
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string) {
+    super(400, message, 'validation_error');
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Requested resource does not exist (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message, 'not_found');
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Free-form message refused because the contact's 24-hour customer service window is closed (422)
+ */
+export class ServiceWindowClosedError extends ApiError {
+  constructor(message: string) {
+    super(422, message, 'service_window_closed');
+    this.name = 'ServiceWindowClosedError';
+  }
+}
+
+/**
+ * Template is unknown or not approved for sending (422)
+ */
+export class TemplateNotApprovedError extends ApiError {
+  constructor(message: string) {
+    super(422, message, 'template_not_approved');
+    this.name = 'TemplateNotApprovedError';
+  }
+}
+
+/**
+ * Contact opted out of messages from this chatbot (422)
+ */
+export class ContactOptedOutError extends ApiError {
+  constructor(message: string) {
+    super(422, message, 'contact_opted_out');
+    this.name = 'ContactOptedOutError';
+  }
+}
+
+/**
+ * Location of a malformed field in a webhook payload, e.g. `entry[0].changes[1].value.messages[2].text.body`
+ */
+export interface PayloadIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Webhook payload that does not match the WhatsApp Cloud API shape (400)
+ */
+export class WebhookPayloadError extends ApiError {
+  constructor(public readonly issues: PayloadIssue[]) {
+    super(400, `Invalid webhook payload: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`, 'invalid_webhook_payload');
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+/**
+ * How a failed Graph API call should be handled:
+ * rate_limited / transient are retried; the others are permanent for this request
+ */
+export type GraphErrorKind =
+  | 'rate_limited'
+  | 'transient'
+  // No response: the request may or may not have reached Meta
+  | 'timeout'
+  | 'network'
+  | 'reengagement_required'
+  | 'invalid_recipient'
+  | 'auth'
+  | 'invalid_request'
+  | 'unknown';
+
+export interface GraphErrorDetails {
+  // HTTP status (absent on timeouts and network errors)
+  status?: number;
+  // Graph `error.code` / `error.error_subcode`
+  code?: number;
+  subcode?: number;
+  fbtraceId?: string;
+  // Requests made, retries included
+  attempts?: number;
+}
+
+/**
+ * Failed Graph API call, classified so callers can react (e.g. fall back to a template on re-engagement)
+ */
+export class GraphApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: GraphErrorKind,
+    public readonly details: GraphErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'GraphApiError';
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'transient';
+  }
+}
+
+/**
+ * Response API call that produced no answer. reason: timeout, network, http_<status>,
+ * unsuccessful (success: false or no response text) or circuit_open (not attempted).
+ * Transient failures (outage, overload) are worth answering later; the others are not.
+ */
+export class ResponseApiError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: string,
+    public readonly transient: boolean
+  ) {
+    super(message);
+    this.name = 'ResponseApiError';
+  }
+}
+
+/**
+ * Message of a caught value (anything can be thrown)
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
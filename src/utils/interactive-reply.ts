@@ -0,0 +1,196 @@
+import { ValidationError } from './errors';
+import {
+  InteractiveContent,
+  ListSection,
+  OutboundMessage,
+  parseOutboundMessage,
+  ReplyButton,
+  WHATSAPP_LIMITS,
+} from './whatsapp-payload';
+import { markdownToWhatsApp, splitMessage } from './whatsapp-format';
+import { buildCitationCta, Citation, CitationRendering, renderCitationList } from './citations';
+
+/**
+ * Choices the response API may return next to its text answer:
+ *   { "type": "button", "buttons": [{ "id": "yes", "title": "Yes" }] }
+ *   { "type": "list", "buttonText": "Options", "sections": [{ "title": "...", "rows": [{ "id", "title", "description" }] }] }
+ * Both accept optional `header` and `footer`; ids default to the option's position.
+ */
+export interface ResponseInteractive {
+  type?: 'button' | 'list';
+  header?: string;
+  footer?: string;
+  buttons?: Array<{ id?: string; title: string }>;
+  buttonText?: string;
+  sections?: Array<{ title?: string; rows: Array<{ id?: string; title: string; description?: string }> }>;
+}
+
+export interface ReplyOption {
+  id: string;
+  title: string;
+  description?: string;
+  // List section the option belongs to
+  section?: string;
+}
+
+const DEFAULT_LIST_BUTTON_TEXT = 'Options';
+
+function clip(text: string | undefined, maxLength: number): string | undefined {
+  if (typeof text !== 'string') return undefined;
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength - 1)}…` : trimmed;
+}
+
+/**
+ * All options of the response's choices, in display order
+ */
+function collectOptions(interactive: ResponseInteractive): ReplyOption[] {
+  // The response API's JSON is not validated: any field may be missing or of the wrong type
+  const raw: Array<{ option?: { id?: unknown; title?: unknown; description?: unknown }; section?: unknown }> =
+    interactive.type === 'list' || (!interactive.buttons && interactive.sections)
+      ? (interactive.sections || []).flatMap((section) =>
+        (section?.rows || []).map((option) => ({ option, section: section?.title })))
+      : (interactive.buttons || []).map((option) => ({ option }));
+
+  return raw
+    .flatMap(({ option, section }) =>
+      typeof option?.title === 'string' && option.title.trim() ? [{ option, title: option.title.trim(), section }] : [])
+    .map(({ option, title, section }, i) => ({
+      id: typeof option.id === 'string' && option.id.trim() ? option.id : `option_${i + 1}`,
+      title,
+      ...(typeof option.description === 'string' && option.description.trim() && { description: option.description.trim() }),
+      ...(typeof section === 'string' && { section }),
+    }));
+}
+
+/**
+ * Plain-text rendering of the choices, used when they cannot be sent as an interactive message
+ */
+function renderTextFallback(body: string, options: ReplyOption[]): string {
+  const lines = options.map((option, i) => `${i + 1}. ${option.title}${option.description ? ` - ${option.description}` : ''}`);
+  return `${body}\n\n${lines.join('\n')}`;
+}
+
+function toInteractive(body: string, interactive: ResponseInteractive, options: ReplyOption[]): InteractiveContent {
+  const header = clip(interactive.header, WHATSAPP_LIMITS.interactiveHeader);
+  const footer = clip(interactive.footer, WHATSAPP_LIMITS.interactiveFooter);
+
+  // Up to three short choices fit as quick-reply buttons, anything else becomes a list menu
+  const fitsButtons = interactive.type !== 'list' &&
+    options.length <= WHATSAPP_LIMITS.maxButtons &&
+    options.every((option) => option.title.length <= WHATSAPP_LIMITS.buttonTitle);
+
+  if (fitsButtons) {
+    const buttons: ReplyButton[] = options.map((option) => ({ id: option.id, title: option.title }));
+    return { type: 'button', body, header, footer, buttons };
+  }
+
+  // A clipped title keeps its full text in the description when there is room
+  const rowFor = (option: ReplyOption) => ({
+    id: option.id,
+    title: clip(option.title, WHATSAPP_LIMITS.listRowTitle) as string,
+    description: clip(
+      option.description || (option.title.length > WHATSAPP_LIMITS.listRowTitle ? option.title : undefined),
+      WHATSAPP_LIMITS.listRowDescription
+    ),
+  });
+
+  // Consecutive options of the same section stay together
+  const sections: ListSection[] = [];
+  for (const option of options) {
+    const current = sections[sections.length - 1];
+    const title = clip(option.section, WHATSAPP_LIMITS.listSectionTitle);
+    if (current && current.title === title) {
+      current.rows.push(rowFor(option));
+    } else {
+      sections.push({ title, rows: [rowFor(option)] });
+    }
+  }
+
+  return {
+    type: 'list',
+    body,
+    header,
+    footer,
+    buttonText: clip(interactive.buttonText, WHATSAPP_LIMITS.listButtonText) || DEFAULT_LIST_BUTTON_TEXT,
+    sections,
+  };
+}
+
+/**
+ * Render an AI answer as a WhatsApp message: interactive buttons / list when the response API
+ * returned choices that fit WhatsApp's limits, otherwise text with the choices numbered
+ */
+export function buildAiReplyMessage(
+  text: string,
+  interactive?: ResponseInteractive | null
+): { message: OutboundMessage; options: ReplyOption[]; usedTextFallback: boolean } {
+  const options = interactive && typeof interactive === 'object' ? collectOptions(interactive) : [];
+  if (options.length === 0) {
+    return { message: { type: 'text', text }, options, usedTextFallback: false };
+  }
+
+  // Ids must be unique for replies to map back to an option
+  const uniqueIds = new Set(options.map((option) => option.id)).size === options.length;
+
+  if (uniqueIds && options.length <= WHATSAPP_LIMITS.maxListRows) {
+    try {
+      const message = parseOutboundMessage({
+        type: 'interactive',
+        interactive: toInteractive(text, interactive as ResponseInteractive, options),
+      });
+      return { message, options, usedTextFallback: false };
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+    }
+  }
+
+  return { message: { type: 'text', text: renderTextFallback(text, options) }, options, usedTextFallback: true };
+}
+
+/**
+ * Full AI reply as ordered WhatsApp messages: Markdown converted to WhatsApp formatting and split
+ * at the text limit, with the choices (if any) attached to the last part and citations rendered
+ * as footnotes, a follow-up message or a CTA URL button
+ */
+export function buildAiReplyMessages(
+  response: string,
+  interactive?: ResponseInteractive | null,
+  citations: { items: Citation[]; rendering: CitationRendering } = { items: [], rendering: { mode: 'none', label: '', ctaText: '' } }
+): { messages: OutboundMessage[]; answerPartCount: number; options: ReplyOption[]; usedTextFallback: boolean } {
+  const { items, rendering } = citations;
+  const mode = items.length > 0 ? rendering.mode : 'none';
+
+  let formatted = markdownToWhatsApp(response) || response;
+  if (mode === 'footnotes') {
+    // A separate paragraph, so splitting never cuts the footnotes off mid-list
+    formatted = `${formatted}\n\n${renderCitationList(items, rendering.label)}`;
+  }
+
+  const parts = splitMessage(formatted);
+
+  // An interactive body is limited to 1024 characters, so the last part may need splitting again
+  const hasChoices = !!interactive && collectOptions(interactive).length > 0;
+  if (hasChoices && parts[parts.length - 1].length > WHATSAPP_LIMITS.interactiveBody) {
+    parts.push(...splitMessage(parts.pop() as string, WHATSAPP_LIMITS.interactiveBody));
+  }
+
+  const last = buildAiReplyMessage(parts.pop() as string, interactive);
+  // Numbered choices can push the text fallback past the text limit - they then continue in further messages
+  const lastParts = last.message.type === 'text' ? splitMessage(last.message.text) : [];
+  const messages: OutboundMessage[] = lastParts.length > 1
+    ? [...parts, ...lastParts].map((text): OutboundMessage => ({ type: 'text', text }))
+    : [...parts.map((text): OutboundMessage => ({ type: 'text', text })), last.message];
+  const answerPartCount = messages.length;
+
+  const cta = mode === 'cta_button' ? buildCitationCta(items, rendering) : null;
+  if (cta) {
+    messages.push({ type: 'interactive', interactive: cta });
+  } else if (mode === 'message' || mode === 'cta_button') {
+    // Without any citation URL a button has nowhere to point
+    messages.push({ type: 'text', text: renderCitationList(items, rendering.label) });
+  }
+
+  return { messages, answerPartCount, options: last.options, usedTextFallback: last.usedTextFallback };
+}
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+
+/**
+ * Envelope encryption for secrets stored at rest (access tokens, app secrets).
+ *
+ * Each value gets its own random data key (AES-256-GCM); the data key is wrapped with a
+ * versioned master key from TOKEN_ENCRYPTION_KEYS. Decryption uses the key version embedded
+ * in the value, so master keys can be rotated without downtime:
+ *   1. add the new key to TOKEN_ENCRYPTION_KEYS and make it active
+ *   2. run the re-encryption routine (npm run secrets:reencrypt)
+ *   3. remove the old key
+ *
+ * Format: enc:v1:<keyVersion>:<wrappedDataKey>:<iv>:<authTag>:<ciphertext> (base64 parts)
+ */
+
+const PREFIX = 'enc';
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+interface MasterKeys {
+  keys: Map<string, Buffer>;
+  activeVersion: string;
+}
+
+let cachedKeys: MasterKeys | null = null;
+let cachedConfig: string | null = null;
+
+/**
+ * Parse TOKEN_ENCRYPTION_KEYS ("k1:<base64 32 bytes>,k2:<base64 32 bytes>").
+ * The active key is TOKEN_ENCRYPTION_ACTIVE_KEY, or the last one listed.
+ */
+function loadMasterKeys(): MasterKeys {
+  const config = `${process.env.TOKEN_ENCRYPTION_KEYS || ''}|${process.env.TOKEN_ENCRYPTION_ACTIVE_KEY || ''}`;
+  if (cachedKeys && cachedConfig === config) {
+    return cachedKeys;
+  }
+
+  const keys = new Map<string, Buffer>();
+  let lastVersion = '';
+
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    const version = trimmed.slice(0, separator);
+    const key = Buffer.from(trimmed.slice(separator + 1), 'base64');
+
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(version)) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS entries must look like "<version>:<base64 key>"');
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Encryption key ${version} must be ${KEY_LENGTH} bytes (base64 encoded)`);
+    }
+
+    keys.set(version, key);
+    lastVersion = version;
+  }
+
+  const activeVersion = process.env.TOKEN_ENCRYPTION_ACTIVE_KEY || lastVersion;
+  if (activeVersion && !keys.has(activeVersion)) {
+    throw new Error(`Active encryption key ${activeVersion} not found in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  cachedKeys = { keys, activeVersion };
+  cachedConfig = config;
+  return cachedKeys;
+}
+
+function aesEncrypt(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function aesDecrypt(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Whether the encryption master key(s) are configured
+ */
+export function isEncryptionConfigured(): boolean {
+  return !!loadMasterKeys().activeVersion;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:${FORMAT_VERSION}:`);
+}
+
+/**
+ * Key version a value is encrypted with (null for plaintext values)
+ */
+export function getKeyVersion(value: string): string | null {
+  return isEncrypted(value) ? value.split(':')[2] : null;
+}
+
+/**
+ * Encrypt a secret with a fresh data key wrapped by the active master key
+ */
+export function encryptSecret(plaintext: string): string {
+  const { keys, activeVersion } = loadMasterKeys();
+  if (!activeVersion) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS not configured');
+  }
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const value = aesEncrypt(dataKey, Buffer.from(plaintext, 'utf8'));
+  const wrapped = aesEncrypt(keys.get(activeVersion) as Buffer, dataKey);
+  const wrappedKey = Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]);
+
+  return [
+    PREFIX,
+    FORMAT_VERSION,
+    activeVersion,
+    wrappedKey.toString('base64'),
+    value.iv.toString('base64'),
+    value.tag.toString('base64'),
+    value.ciphertext.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a stored secret. Plaintext (not yet migrated) values are returned unchanged.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const parts = value.split(':');
+  if (parts.length !== 7) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  const [, , version, wrappedKeyB64, ivB64, tagB64, ciphertextB64] = parts;
+  const masterKey = loadMasterKeys().keys.get(version);
+  if (!masterKey) {
+    throw new Error(`Encryption key ${version} not available`);
+  }
+
+  const wrappedKey = Buffer.from(wrappedKeyB64, 'base64');
+  const dataKey = aesDecrypt(
+    masterKey,
+    wrappedKey.subarray(0, IV_LENGTH),
+    wrappedKey.subarray(IV_LENGTH, IV_LENGTH + 16),
+    wrappedKey.subarray(IV_LENGTH + 16)
+  );
+
+  return aesDecrypt(
+    dataKey,
+    Buffer.from(ivB64, 'base64'),
+    Buffer.from(tagB64, 'base64'),
+    Buffer.from(ciphertextB64, 'base64')
+  ).toString('utf8');
+}
+
+/**
+ * Whether a stored value should be (re-)encrypted with the active master key
+ */
+export function needsReencryption(value: string): boolean {
+  const { activeVersion } = loadMasterKeys();
+  return !!activeVersion && getKeyVersion(value) !== activeVersion;
+}
+
+/**
+ * One-way hash of a webhook verify token (stored instead of the token itself)
+ */
+export function hashVerifyToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && crypto.timingSafeEqual(aBuf, bBuf);
+}
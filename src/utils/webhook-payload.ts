@@ -0,0 +1,615 @@
+import { PayloadIssue, WebhookPayloadError } from './errors';
+
+/**
+ * Error object in webhooks (failed statuses, unsupported messages, change-level errors)
+ */
+export interface WebhookError {
+  code: number;
+  title: string;
+  message?: string;
+  error_data?: { details?: string };
+  href?: string;
+}
+
+export interface WebhookMetadata {
+  phone_number_id: string;
+  display_phone_number?: string;
+}
+
+export interface WebhookContact {
+  wa_id: string;
+  profile?: { name?: string };
+}
+
+interface MessageBase {
+  from: string;
+  id: string;
+  // Unix seconds
+  timestamp: string;
+  // Set when the customer replied to (or forwarded) a message
+  context?: { from?: string; id?: string; forwarded?: boolean; frequently_forwarded?: boolean };
+  // Click-to-WhatsApp ad the conversation started from
+  referral?: Record<string, unknown>;
+}
+
+export interface WebhookMediaObject {
+  id: string;
+  mime_type?: string;
+  sha256?: string;
+  caption?: string;
+}
+
+export interface SharedContact {
+  name: { formatted_name: string; first_name?: string; last_name?: string };
+  phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+  emails?: Array<{ email?: string; type?: string }>;
+  org?: { company?: string; department?: string; title?: string };
+}
+
+export interface OrderItem {
+  product_retailer_id: string;
+  quantity: number;
+  item_price: number;
+  currency: string;
+}
+
+export type WebhookInteractive =
+  | { type: 'button_reply'; button_reply: { id: string; title: string } }
+  | { type: 'list_reply'; list_reply: { id: string; title: string; description?: string } }
+  // WhatsApp Flow submission; response_json is the flow's JSON response as a string
+  | { type: 'nfm_reply'; nfm_reply: { name?: string; body?: string; response_json: string } };
+
+/**
+ * Inbound message of a `messages` webhook, discriminated on `type`
+ */
+export type WebhookMessage = MessageBase & (
+  | { type: 'text'; text: { body: string } }
+  | { type: 'image'; image: WebhookMediaObject }
+  | { type: 'video'; video: WebhookMediaObject }
+  | { type: 'audio'; audio: WebhookMediaObject & { voice?: boolean } }
+  | { type: 'document'; document: WebhookMediaObject & { filename?: string } }
+  | { type: 'sticker'; sticker: WebhookMediaObject & { animated?: boolean } }
+  | { type: 'location'; location: { latitude: number; longitude: number; name?: string; address?: string; url?: string } }
+  | { type: 'contacts'; contacts: SharedContact[] }
+  | { type: 'reaction'; reaction: { message_id: string; emoji?: string } }
+  | { type: 'button'; button: { text: string; payload?: string } }
+  | { type: 'interactive'; interactive: WebhookInteractive }
+  | { type: 'order'; order: { catalog_id: string; text?: string; product_items: OrderItem[] } }
+  | { type: 'system'; system: { body: string; type?: string; wa_id?: string; new_wa_id?: string } }
+  | { type: 'request_welcome' }
+  // Also used for types this service does not know yet (originalType holds the type WhatsApp sent)
+  | { type: 'unsupported'; errors: WebhookError[]; originalType?: string }
+);
+
+export type WebhookMessageType = WebhookMessage['type'];
+
+interface StatusBase {
+  id: string;
+  recipient_id: string;
+  // Unix seconds
+  timestamp: string;
+  conversation?: { id: string; origin?: { type: string }; expiration_timestamp?: string };
+  pricing?: { billable?: boolean; pricing_model?: string; category?: string };
+  biz_opaque_callback_data?: string;
+}
+
+/**
+ * Delivery status of an outbound message, discriminated on `status`
+ */
+export type WebhookStatus = StatusBase & (
+  | { status: 'sent' | 'delivered' | 'read' | 'deleted' | 'warning' }
+  | { status: 'failed'; errors: WebhookError[] }
+);
+
+export interface MessagesChangeValue {
+  messaging_product?: string;
+  metadata: WebhookMetadata;
+  contacts: WebhookContact[];
+  messages: WebhookMessage[];
+  statuses: WebhookStatus[];
+  errors: WebhookError[];
+}
+
+export type WebhookChange =
+  | { field: 'messages'; value: MessagesChangeValue }
+  // Template webhooks are validated by their handlers
+  | { field: 'message_template_status_update'; value: Record<string, unknown> }
+  | { field: 'template_category_update'; value: Record<string, unknown> }
+  | { field: 'other'; name: string; value: unknown };
+
+export interface WebhookEntry {
+  // WhatsApp Business Account ID
+  id: string;
+  // Unix time (seconds) the change happened - sent with template webhooks
+  time?: number;
+  changes: WebhookChange[];
+}
+
+export interface WebhookPayload {
+  object: 'whatsapp_business_account';
+  entry: WebhookEntry[];
+}
+
+export interface ParsedWebhookPayload {
+  payload: WebhookPayload;
+  // Messages, statuses and contacts that were dropped because they are malformed
+  issues: PayloadIssue[];
+}
+
+const STATUS_VALUES = ['sent', 'delivered', 'read', 'failed', 'deleted', 'warning'] as const;
+
+function isStatusValue(value: unknown): value is WebhookStatus['status'] {
+  return (STATUS_VALUES as readonly unknown[]).includes(value);
+}
+
+function invalid(path: string, message: string): never {
+  throw new WebhookPayloadError([{ path, message }]);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function requireObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    invalid(path, 'must be an object');
+  }
+  return value;
+}
+
+function optionalObject(value: unknown, path: string): Record<string, unknown> | undefined {
+  return value === undefined || value === null ? undefined : requireObject(value, path);
+}
+
+function requireArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    invalid(path, 'must be an array');
+  }
+  return value;
+}
+
+function optionalArray(value: unknown, path: string): unknown[] {
+  return value === undefined || value === null ? [] : requireArray(value, path);
+}
+
+function requireString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    invalid(path, 'must be a string');
+  }
+  return value;
+}
+
+function requireId(value: unknown, path: string): string {
+  const id = requireString(value, path);
+  if (id.trim() === '') {
+    invalid(path, 'must not be empty');
+  }
+  return id;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : requireString(value, path);
+}
+
+function optionalBoolean(value: unknown, path: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    invalid(path, 'must be a boolean');
+  }
+  return value;
+}
+
+function requireNumber(value: unknown, path: string): number {
+  // Some numeric fields arrive as strings
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    invalid(path, 'must be a number');
+  }
+  return number;
+}
+
+function requireTimestamp(value: unknown, path: string): string {
+  const timestamp = typeof value === 'number' ? String(value) : value;
+  if (typeof timestamp !== 'string' || !/^\d+$/.test(timestamp)) {
+    invalid(path, 'must be a Unix timestamp');
+  }
+  return timestamp;
+}
+
+/**
+ * Parse each item of a list, dropping (and recording) the malformed ones
+ */
+function parseItems<T>(
+  items: unknown[],
+  path: string,
+  parse: (item: unknown, path: string) => T,
+  issues: PayloadIssue[]
+): T[] {
+  const parsed: T[] = [];
+  items.forEach((item, i) => {
+    try {
+      parsed.push(parse(item, `${path}[${i}]`));
+    } catch (error) {
+      if (!(error instanceof WebhookPayloadError)) throw error;
+      issues.push(...error.issues);
+    }
+  });
+  return parsed;
+}
+
+function parseError(value: unknown, path: string): WebhookError {
+  const error = requireObject(value, path);
+  const errorData = optionalObject(error.error_data, `${path}.error_data`);
+  return {
+    code: requireNumber(error.code, `${path}.code`),
+    title: optionalString(error.title, `${path}.title`) || '',
+    message: optionalString(error.message, `${path}.message`),
+    ...(errorData && { error_data: { details: optionalString(errorData.details, `${path}.error_data.details`) } }),
+    href: optionalString(error.href, `${path}.href`),
+  };
+}
+
+function parseErrors(value: unknown, path: string): WebhookError[] {
+  return optionalArray(value, path).map((error, i) => parseError(error, `${path}[${i}]`));
+}
+
+function parseMedia(value: unknown, path: string): WebhookMediaObject {
+  const media = requireObject(value, path);
+  return {
+    id: requireId(media.id, `${path}.id`),
+    mime_type: optionalString(media.mime_type, `${path}.mime_type`),
+    sha256: optionalString(media.sha256, `${path}.sha256`),
+    caption: optionalString(media.caption, `${path}.caption`),
+  };
+}
+
+function parseSharedContact(value: unknown, path: string): SharedContact {
+  const contact = requireObject(value, path);
+  const name = requireObject(contact.name, `${path}.name`);
+  const org = optionalObject(contact.org, `${path}.org`);
+
+  return {
+    name: {
+      formatted_name: requireString(name.formatted_name, `${path}.name.formatted_name`),
+      first_name: optionalString(name.first_name, `${path}.name.first_name`),
+      last_name: optionalString(name.last_name, `${path}.name.last_name`),
+    },
+    phones: optionalArray(contact.phones, `${path}.phones`).map((item, i) => {
+      const phonePath = `${path}.phones[${i}]`;
+      const phone = requireObject(item, phonePath);
+      return {
+        phone: optionalString(phone.phone, `${phonePath}.phone`),
+        wa_id: optionalString(phone.wa_id, `${phonePath}.wa_id`),
+        type: optionalString(phone.type, `${phonePath}.type`),
+      };
+    }),
+    emails: optionalArray(contact.emails, `${path}.emails`).map((item, i) => {
+      const emailPath = `${path}.emails[${i}]`;
+      const email = requireObject(item, emailPath);
+      return {
+        email: optionalString(email.email, `${emailPath}.email`),
+        type: optionalString(email.type, `${emailPath}.type`),
+      };
+    }),
+    ...(org && {
+      org: {
+        company: optionalString(org.company, `${path}.org.company`),
+        department: optionalString(org.department, `${path}.org.department`),
+        title: optionalString(org.title, `${path}.org.title`),
+      },
+    }),
+  };
+}
+
+function parseInteractive(value: unknown, path: string): WebhookInteractive {
+  const interactive = requireObject(value, path);
+
+  switch (interactive.type) {
+    case 'button_reply': {
+      const reply = requireObject(interactive.button_reply, `${path}.button_reply`);
+      return {
+        type: 'button_reply',
+        button_reply: {
+          id: requireId(reply.id, `${path}.button_reply.id`),
+          title: requireString(reply.title, `${path}.button_reply.title`),
+        },
+      };
+    }
+    case 'list_reply': {
+      const reply = requireObject(interactive.list_reply, `${path}.list_reply`);
+      return {
+        type: 'list_reply',
+        list_reply: {
+          id: requireId(reply.id, `${path}.list_reply.id`),
+          title: requireString(reply.title, `${path}.list_reply.title`),
+          description: optionalString(reply.description, `${path}.list_reply.description`),
+        },
+      };
+    }
+    case 'nfm_reply': {
+      const reply = requireObject(interactive.nfm_reply, `${path}.nfm_reply`);
+      return {
+        type: 'nfm_reply',
+        nfm_reply: {
+          name: optionalString(reply.name, `${path}.nfm_reply.name`),
+          body: optionalString(reply.body, `${path}.nfm_reply.body`),
+          response_json: requireString(reply.response_json, `${path}.nfm_reply.response_json`),
+        },
+      };
+    }
+    default:
+      return invalid(`${path}.type`, 'must be "button_reply", "list_reply" or "nfm_reply"');
+  }
+}
+
+/**
+ * Validate one inbound message. Unknown message types are kept as `unsupported`.
+ */
+export function parseWebhookMessage(value: unknown, path = 'message'): WebhookMessage {
+  const message = requireObject(value, path);
+  const context = optionalObject(message.context, `${path}.context`);
+  const referral = optionalObject(message.referral, `${path}.referral`);
+  const type = requireId(message.type, `${path}.type`);
+
+  const base: MessageBase = {
+    from: requireId(message.from, `${path}.from`),
+    id: requireId(message.id, `${path}.id`),
+    timestamp: requireTimestamp(message.timestamp, `${path}.timestamp`),
+    ...(context && {
+      context: {
+        from: optionalString(context.from, `${path}.context.from`),
+        id: optionalString(context.id, `${path}.context.id`),
+        forwarded: optionalBoolean(context.forwarded, `${path}.context.forwarded`),
+        frequently_forwarded: optionalBoolean(context.frequently_forwarded, `${path}.context.frequently_forwarded`),
+      },
+    }),
+    ...(referral && { referral }),
+  };
+
+  switch (type) {
+    case 'text': {
+      const text = requireObject(message.text, `${path}.text`);
+      return { ...base, type, text: { body: requireString(text.body, `${path}.text.body`) } };
+    }
+    case 'image':
+      return { ...base, type, image: parseMedia(message.image, `${path}.image`) };
+    case 'video':
+      return { ...base, type, video: parseMedia(message.video, `${path}.video`) };
+    case 'audio': {
+      const audio = requireObject(message.audio, `${path}.audio`);
+      return {
+        ...base,
+        type,
+        audio: { ...parseMedia(audio, `${path}.audio`), voice: optionalBoolean(audio.voice, `${path}.audio.voice`) },
+      };
+    }
+    case 'document': {
+      const document = requireObject(message.document, `${path}.document`);
+      return {
+        ...base,
+        type,
+        document: {
+          ...parseMedia(document, `${path}.document`),
+          filename: optionalString(document.filename, `${path}.document.filename`),
+        },
+      };
+    }
+    case 'sticker': {
+      const sticker = requireObject(message.sticker, `${path}.sticker`);
+      return {
+        ...base,
+        type,
+        sticker: {
+          ...parseMedia(sticker, `${path}.sticker`),
+          animated: optionalBoolean(sticker.animated, `${path}.sticker.animated`),
+        },
+      };
+    }
+    case 'location': {
+      const location = requireObject(message.location, `${path}.location`);
+      return {
+        ...base,
+        type,
+        location: {
+          latitude: requireNumber(location.latitude, `${path}.location.latitude`),
+          longitude: requireNumber(location.longitude, `${path}.location.longitude`),
+          name: optionalString(location.name, `${path}.location.name`),
+          address: optionalString(location.address, `${path}.location.address`),
+          url: optionalString(location.url, `${path}.location.url`),
+        },
+      };
+    }
+    case 'contacts': {
+      const contacts = requireArray(message.contacts, `${path}.contacts`);
+      if (contacts.length === 0) {
+        invalid(`${path}.contacts`, 'must not be empty');
+      }
+      return { ...base, type, contacts: contacts.map((contact, i) => parseSharedContact(contact, `${path}.contacts[${i}]`)) };
+    }
+    case 'reaction': {
+      const reaction = requireObject(message.reaction, `${path}.reaction`);
+      return {
+        ...base,
+        type,
+        reaction: {
+          message_id: requireId(reaction.message_id, `${path}.reaction.message_id`),
+          // Omitted when the reaction is removed
+          emoji: optionalString(reaction.emoji, `${path}.reaction.emoji`),
+        },
+      };
+    }
+    case 'button': {
+      const button = requireObject(message.button, `${path}.button`);
+      return {
+        ...base,
+        type,
+        button: {
+          text: requireString(button.text, `${path}.button.text`),
+          payload: optionalString(button.payload, `${path}.button.payload`),
+        },
+      };
+    }
+    case 'interactive':
+      return { ...base, type, interactive: parseInteractive(message.interactive, `${path}.interactive`) };
+    case 'order': {
+      const order = requireObject(message.order, `${path}.order`);
+      return {
+        ...base,
+        type,
+        order: {
+          catalog_id: requireId(order.catalog_id, `${path}.order.catalog_id`),
+          text: optionalString(order.text, `${path}.order.text`),
+          product_items: requireArray(order.product_items, `${path}.order.product_items`).map((value, i) => {
+            const itemPath = `${path}.order.product_items[${i}]`;
+            const item = requireObject(value, itemPath);
+            return {
+              product_retailer_id: requireId(item.product_retailer_id, `${itemPath}.product_retailer_id`),
+              quantity: requireNumber(item.quantity, `${itemPath}.quantity`),
+              item_price: requireNumber(item.item_price, `${itemPath}.item_price`),
+              currency: requireString(item.currency, `${itemPath}.currency`),
+            };
+          }),
+        },
+      };
+    }
+    case 'system': {
+      const system = requireObject(message.system, `${path}.system`);
+      return {
+        ...base,
+        type,
+        system: {
+          body: requireString(system.body, `${path}.system.body`),
+          type: optionalString(system.type, `${path}.system.type`),
+          wa_id: optionalString(system.wa_id, `${path}.system.wa_id`),
+          new_wa_id: optionalString(system.new_wa_id, `${path}.system.new_wa_id`),
+        },
+      };
+    }
+    case 'request_welcome':
+      return { ...base, type };
+    case 'unsupported':
+      return { ...base, type, errors: parseErrors(message.errors, `${path}.errors`) };
+    default:
+      return { ...base, type: 'unsupported', errors: parseErrors(message.errors, `${path}.errors`), originalType: type };
+  }
+}
+
+/**
+ * Validate one delivery status update
+ */
+export function parseWebhookStatus(value: unknown, path = 'status'): WebhookStatus {
+  const status = requireObject(value, path);
+  const conversation = optionalObject(status.conversation, `${path}.conversation`);
+  const origin = optionalObject(conversation?.origin, `${path}.conversation.origin`);
+  const pricing = optionalObject(status.pricing, `${path}.pricing`);
+
+  const base: StatusBase = {
+    id: requireId(status.id, `${path}.id`),
+    recipient_id: requireId(status.recipient_id, `${path}.recipient_id`),
+    timestamp: requireTimestamp(status.timestamp, `${path}.timestamp`),
+    ...(conversation && {
+      conversation: {
+        id: requireString(conversation.id, `${path}.conversation.id`),
+        ...(origin && { origin: { type: requireString(origin.type, `${path}.conversation.origin.type`) } }),
+        expiration_timestamp: optionalString(conversation.expiration_timestamp, `${path}.conversation.expiration_timestamp`),
+      },
+    }),
+    ...(pricing && {
+      pricing: {
+        billable: optionalBoolean(pricing.billable, `${path}.pricing.billable`),
+        pricing_model: optionalString(pricing.pricing_model, `${path}.pricing.pricing_model`),
+        category: optionalString(pricing.category, `${path}.pricing.category`),
+      },
+    }),
+    biz_opaque_callback_data: optionalString(status.biz_opaque_callback_data, `${path}.biz_opaque_callback_data`),
+  };
+
+  const statusValue = status.status;
+  if (!isStatusValue(statusValue)) {
+    invalid(`${path}.status`, `must be one of: ${STATUS_VALUES.join(', ')}`);
+  }
+
+  return statusValue === 'failed'
+    ? { ...base, status: 'failed', errors: parseErrors(status.errors, `${path}.errors`) }
+    : { ...base, status: statusValue };
+}
+
+function parseContact(value: unknown, path: string): WebhookContact {
+  const contact = requireObject(value, path);
+  const profile = optionalObject(contact.profile, `${path}.profile`);
+  return {
+    wa_id: requireId(contact.wa_id, `${path}.wa_id`),
+    ...(profile && { profile: { name: optionalString(profile.name, `${path}.profile.name`) } }),
+  };
+}
+
+function parseChange(value: unknown, path: string, issues: PayloadIssue[]): WebhookChange {
+  const change = requireObject(value, path);
+  const field = requireId(change.field, `${path}.field`);
+
+  if (field === 'message_template_status_update' || field === 'template_category_update') {
+    return { field, value: requireObject(change.value, `${path}.value`) };
+  }
+  if (field !== 'messages') {
+    return { field: 'other', name: field, value: change.value };
+  }
+
+  const valuePath = `${path}.value`;
+  const changeValue = requireObject(change.value, valuePath);
+  const metadata = requireObject(changeValue.metadata, `${valuePath}.metadata`);
+
+  return {
+    field,
+    value: {
+      messaging_product: optionalString(changeValue.messaging_product, `${valuePath}.messaging_product`),
+      metadata: {
+        phone_number_id: requireId(metadata.phone_number_id, `${valuePath}.metadata.phone_number_id`),
+        display_phone_number: optionalString(metadata.display_phone_number, `${valuePath}.metadata.display_phone_number`),
+      },
+      contacts: parseItems(optionalArray(changeValue.contacts, `${valuePath}.contacts`), `${valuePath}.contacts`, parseContact, issues),
+      messages: parseItems(
+        optionalArray(changeValue.messages, `${valuePath}.messages`),
+        `${valuePath}.messages`,
+        parseWebhookMessage,
+        issues
+      ),
+      statuses: parseItems(
+        optionalArray(changeValue.statuses, `${valuePath}.statuses`),
+        `${valuePath}.statuses`,
+        parseWebhookStatus,
+        issues
+      ),
+      errors: parseItems(optionalArray(changeValue.errors, `${valuePath}.errors`), `${valuePath}.errors`, parseError, issues),
+    },
+  };
+}
+
+/**
+ * Validate a WhatsApp Business Account webhook body.
+ *
+ * Throws WebhookPayloadError when the envelope (entries, changes, metadata) is malformed. Malformed
+ * messages, statuses and contacts are dropped individually and reported in `issues`, so one bad
+ * item does not hold back the rest of the batch.
+ */
+export function parseWebhookPayload(body: unknown): ParsedWebhookPayload {
+  const root = requireObject(body, 'body');
+  if (root.object !== 'whatsapp_business_account') {
+    invalid('object', 'must be "whatsapp_business_account"');
+  }
+
+  const issues: PayloadIssue[] = [];
+  const entry = requireArray(root.entry, 'entry').map((item, i) => {
+    const path = `entry[${i}]`;
+    const entryObject = requireObject(item, path);
+    return {
+      id: requireId(entryObject.id, `${path}.id`),
+      // Only used to order template updates, so an unusable value is dropped rather than rejected
+      ...(typeof entryObject.time === 'number' && Number.isFinite(entryObject.time) && { time: entryObject.time }),
+      changes: requireArray(entryObject.changes, `${path}.changes`).map((change, j) =>
+        parseChange(change, `${path}.changes[${j}]`, issues)
+      ),
+    };
+  });
+
+  return { payload: { object: 'whatsapp_business_account', entry }, issues };
+}
@@ -3,13 +3,13 @@ import logger from '../config/logger';
 
 /**
  * Verify webhook signature from WhatsApp/Meta
- * @param payload - Raw request body as string
+ * @param payload - Raw request body (exact bytes as received)
  * @param signature - Signature from x-hub-signature-256 header
  * @param appSecret - Facebook App Secret
  * @returns true if signature is valid
  */
 export function verifyWebhookSignature(
-  payload: string,
+  payload: Buffer | string,
   signature: string,
   appSecret: string
 ): boolean {
@@ -0,0 +1,153 @@
+import { WHATSAPP_LIMITS } from './whatsapp-payload';
+
+// Placeholders keep converted spans away from later rules (control characters never occur in AI text)
+const CODE_PLACEHOLDER = '\u0000';
+const BOLD_MARK = '\u0001';
+
+function isTableRow(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line);
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/.test(line);
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Tables have no WhatsApp equivalent: each data row becomes a bullet of "header: value" pairs
+ */
+function flattenTables(lines: string[]): string[] {
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!(isTableRow(lines[i]) && i + 1 < lines.length && isTableSeparator(lines[i + 1]))) {
+      output.push(lines[i]);
+      continue;
+    }
+
+    const headers = tableCells(lines[i]);
+    i += 2;
+    for (; i < lines.length && isTableRow(lines[i]); i++) {
+      const cells = tableCells(lines[i]);
+      const pairs = cells
+        .map((cell, index) => (headers[index] ? `${headers[index]}: ${cell}` : cell))
+        .filter((pair, index) => cells[index] !== '' && pair);
+      output.push(`• ${pairs.join(', ')}`);
+    }
+    i--;
+  }
+
+  return output;
+}
+
+function convertInline(text: string): string {
+  return text
+    // Images and links: WhatsApp only auto-links bare URLs
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_m, alt: string, url: string) => (alt ? `${alt} (${url})` : url))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_m, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    // Bold first, so its asterisks are not read as italics
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, `${BOLD_MARK}$1${BOLD_MARK}`)
+    .replace(/__(?=\S)([\s\S]*?\S)__/g, `${BOLD_MARK}$1${BOLD_MARK}`)
+    .replace(/(^|[^*\w])\*(?=\S)([^*\n]*?\S)\*(?!\*)/g, '$1_$2_')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '~$1~')
+    .replace(new RegExp(BOLD_MARK, 'g'), '*');
+}
+
+/**
+ * Convert Markdown from the response API to WhatsApp formatting:
+ * *bold*, _italic_, ~strike~, ```monospace```, bullets instead of tables and headings
+ */
+export function markdownToWhatsApp(markdown: string): string {
+  const codeSpans: string[] = [];
+  const keep = (code: string) => {
+    codeSpans.push(code);
+    return `${CODE_PLACEHOLDER}${codeSpans.length - 1}${CODE_PLACEHOLDER}`;
+  };
+
+  let text = markdown
+    .replace(/\r\n/g, '\n')
+    // Fenced code blocks keep their content verbatim (language tag dropped)
+    .replace(/```[^\n`]*\n([\s\S]*?)```/g, (_m, code: string) => keep('```' + code.replace(/\n$/, '') + '```'))
+    .replace(/`([^`\n]+)`/g, (_m, code: string) => keep('```' + code + '```'));
+
+  const lines = flattenTables(text.split('\n')).map((line) => {
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      return `${BOLD_MARK}${heading[1].replace(/\*\*|__/g, '')}${BOLD_MARK}`;
+    }
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      return '';
+    }
+    // Unordered list markers become bullets (nested items keep their indentation)
+    return line.replace(/^(\s*)[-*+]\s+/, '$1• ');
+  });
+
+  text = convertInline(lines.join('\n'))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return text.replace(new RegExp(`${CODE_PLACEHOLDER}(\\d+)${CODE_PLACEHOLDER}`, 'g'), (_m, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Hard-split a single piece that exceeds the limit, preferring whitespace
+ */
+function splitHard(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const space = rest.lastIndexOf(' ', maxLength);
+    const cut = space > maxLength / 2 ? space : maxLength;
+    parts.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Pack pieces into chunks of at most maxLength, joined with the separator
+ */
+function pack(pieces: string[], separator: string, maxLength: number, splitPiece: (piece: string) => string[]): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    if (piece.length <= maxLength) {
+      current = piece;
+    } else {
+      const parts = splitPiece(piece);
+      current = parts.pop() || '';
+      chunks.push(...parts);
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Split a text into ordered messages of at most maxLength characters, on paragraph
+ * boundaries first, then sentences, then words
+ */
+export function splitMessage(text: string, maxLength: number = WHATSAPP_LIMITS.textBody): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const splitSentences = (paragraph: string) =>
+    pack(paragraph.split(/(?<=[.!?])\s+/), ' ', maxLength, (sentence) => splitHard(sentence, maxLength));
+  const splitLines = (block: string) =>
+    pack(block.split('\n'), '\n', maxLength, splitSentences);
+
+  return pack(text.split(/\n{2,}/), '\n\n', maxLength, splitLines);
+}
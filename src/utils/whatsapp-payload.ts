@@ -0,0 +1,371 @@
+import { ValidationError } from './errors';
+
+// WhatsApp Cloud API limits for outbound messages
+export const WHATSAPP_LIMITS = {
+  textBody: 4096,
+  mediaCaption: 1024,
+  interactiveBody: 1024,
+  interactiveHeader: 60,
+  interactiveFooter: 60,
+  maxButtons: 3,
+  buttonTitle: 20,
+  buttonId: 256,
+  listButtonText: 20,
+  maxListSections: 10,
+  maxListRows: 10,
+  listSectionTitle: 24,
+  listRowTitle: 24,
+  listRowDescription: 72,
+  listRowId: 200,
+  ctaDisplayText: 20,
+} as const;
+
+export const OUTBOUND_MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'] as const;
+
+export type OutboundMediaType = (typeof OUTBOUND_MEDIA_TYPES)[number];
+
+export interface ReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface ListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ListSection {
+  title?: string;
+  rows: ListRow[];
+}
+
+export type InteractiveContent =
+  | { type: 'button'; body: string; header?: string; footer?: string; buttons: ReplyButton[] }
+  | { type: 'list'; body: string; header?: string; footer?: string; buttonText: string; sections: ListSection[] }
+  | { type: 'cta_url'; body: string; header?: string; footer?: string; displayText: string; url: string };
+
+export interface TemplateContent {
+  name: string;
+  language: string;
+  // Header/body/button parameters, passed to the Graph API as-is
+  components?: unknown[];
+}
+
+/**
+ * Outbound message accepted by the messaging API
+ */
+export type OutboundMessage =
+  | { type: 'text'; text: string; previewUrl?: boolean }
+  | { type: OutboundMediaType; media: { id?: string; link?: string; caption?: string; filename?: string } }
+  | { type: 'template'; template: TemplateContent }
+  | { type: 'interactive'; interactive: InteractiveContent }
+  | { type: 'location'; location: { latitude: number; longitude: number; name?: string; address?: string } };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Missing or non-object values read as an empty object, so each field reports its own error
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function isOutboundMediaType(type: unknown): type is OutboundMediaType {
+  return (OUTBOUND_MEDIA_TYPES as readonly unknown[]).includes(type);
+}
+
+function requireString(value: unknown, field: string, maxLength?: number): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ValidationError(`${field} is required`);
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    throw new ValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return requireString(value, field, maxLength);
+}
+
+function validateInteractive(value: unknown): InteractiveContent {
+  if (!isRecord(value)) {
+    throw new ValidationError('interactive is required');
+  }
+  const interactive = value;
+
+  const body = requireString(interactive.body, 'interactive.body', WHATSAPP_LIMITS.interactiveBody);
+  const header = optionalString(interactive.header, 'interactive.header', WHATSAPP_LIMITS.interactiveHeader);
+  const footer = optionalString(interactive.footer, 'interactive.footer', WHATSAPP_LIMITS.interactiveFooter);
+
+  if (interactive.type === 'button') {
+    const buttons = interactive.buttons;
+    if (!Array.isArray(buttons) || buttons.length === 0 || buttons.length > WHATSAPP_LIMITS.maxButtons) {
+      throw new ValidationError(`interactive.buttons must contain 1-${WHATSAPP_LIMITS.maxButtons} buttons`);
+    }
+    return {
+      type: 'button',
+      body,
+      header,
+      footer,
+      buttons: buttons.map((item: unknown, i) => {
+        const button = asRecord(item);
+        return {
+          id: requireString(button.id, `interactive.buttons[${i}].id`, WHATSAPP_LIMITS.buttonId),
+          title: requireString(button.title, `interactive.buttons[${i}].title`, WHATSAPP_LIMITS.buttonTitle),
+        };
+      }),
+    };
+  }
+
+  if (interactive.type === 'list') {
+    const sections = interactive.sections;
+    if (!Array.isArray(sections) || sections.length === 0 || sections.length > WHATSAPP_LIMITS.maxListSections) {
+      throw new ValidationError(`interactive.sections must contain 1-${WHATSAPP_LIMITS.maxListSections} sections`);
+    }
+    const rowsOf = (section: unknown): unknown[] => {
+      const rows = asRecord(section).rows;
+      return Array.isArray(rows) ? rows : [];
+    };
+    const totalRows = sections.reduce((sum: number, section: unknown) => sum + rowsOf(section).length, 0);
+    if (totalRows === 0 || totalRows > WHATSAPP_LIMITS.maxListRows) {
+      throw new ValidationError(`interactive list must contain 1-${WHATSAPP_LIMITS.maxListRows} rows in total`);
+    }
+    return {
+      type: 'list',
+      body,
+      header,
+      footer,
+      buttonText: requireString(interactive.buttonText, 'interactive.buttonText', WHATSAPP_LIMITS.listButtonText),
+      sections: sections.map((section: unknown, i) => {
+        const title = asRecord(section).title;
+        return {
+          title: sections.length > 1
+            ? requireString(title, `interactive.sections[${i}].title`, WHATSAPP_LIMITS.listSectionTitle)
+            : optionalString(title, `interactive.sections[${i}].title`, WHATSAPP_LIMITS.listSectionTitle),
+          rows: rowsOf(section).map((item, j) => {
+            const row = asRecord(item);
+            return {
+              id: requireString(row.id, `interactive.sections[${i}].rows[${j}].id`, WHATSAPP_LIMITS.listRowId),
+              title: requireString(row.title, `interactive.sections[${i}].rows[${j}].title`, WHATSAPP_LIMITS.listRowTitle),
+              description: optionalString(
+                row.description,
+                `interactive.sections[${i}].rows[${j}].description`,
+                WHATSAPP_LIMITS.listRowDescription
+              ),
+            };
+          }),
+        };
+      }),
+    };
+  }
+
+  if (interactive.type === 'cta_url') {
+    const url = requireString(interactive.url, 'interactive.url', 2000);
+    if (!/^https?:\/\//i.test(url)) {
+      throw new ValidationError('interactive.url must be an http(s) URL');
+    }
+    return {
+      type: 'cta_url',
+      body,
+      header,
+      footer,
+      displayText: requireString(interactive.displayText, 'interactive.displayText', WHATSAPP_LIMITS.ctaDisplayText),
+      url,
+    };
+  }
+
+  throw new ValidationError('interactive.type must be "button", "list" or "cta_url"');
+}
+
+/**
+ * Validate an outbound message from an API request body
+ */
+export function parseOutboundMessage(value: unknown): OutboundMessage {
+  const body = asRecord(value);
+  const type = body.type;
+
+  if (isOutboundMediaType(type)) {
+    const media = asRecord(body.media);
+    if (!media.id && !media.link) {
+      throw new ValidationError('media.id or media.link is required');
+    }
+    if (media.caption !== undefined && (type === 'audio' || type === 'sticker')) {
+      throw new ValidationError(`${type} messages do not support captions`);
+    }
+    return {
+      type,
+      media: {
+        id: optionalString(media.id || undefined, 'media.id', 256),
+        link: optionalString(media.link || undefined, 'media.link', 2000),
+        caption: optionalString(media.caption, 'media.caption', WHATSAPP_LIMITS.mediaCaption),
+        filename: type === 'document' ? optionalString(media.filename, 'media.filename', 240) : undefined,
+      },
+    };
+  }
+
+  switch (type) {
+    case 'text':
+      return {
+        type,
+        text: requireString(body.text, 'text', WHATSAPP_LIMITS.textBody),
+        previewUrl: body.previewUrl === true,
+      };
+    case 'template': {
+      const template = asRecord(body.template);
+      if (template.components !== undefined && !Array.isArray(template.components)) {
+        throw new ValidationError('template.components must be an array');
+      }
+      return {
+        type,
+        template: {
+          name: requireString(template.name, 'template.name', 512),
+          language: requireString(template.language, 'template.language', 15),
+          components: template.components,
+        },
+      };
+    }
+    case 'interactive':
+      return { type, interactive: validateInteractive(body.interactive) };
+    case 'location': {
+      const location = asRecord(body.location);
+      const latitude = Number(location.latitude);
+      const longitude = Number(location.longitude);
+      if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+        throw new ValidationError('location.latitude and location.longitude must be valid coordinates');
+      }
+      return {
+        type,
+        location: {
+          latitude,
+          longitude,
+          name: optionalString(location.name, 'location.name', 1000),
+          address: optionalString(location.address, 'location.address', 1000),
+        },
+      };
+    }
+    default:
+      throw new ValidationError(
+        'type must be one of: text, image, video, audio, document, sticker, template, interactive, location'
+      );
+  }
+}
+
+function buildInteractive(interactive: InteractiveContent): Record<string, unknown> {
+  const common = {
+    ...(interactive.header && { header: { type: 'text', text: interactive.header } }),
+    body: { text: interactive.body },
+    ...(interactive.footer && { footer: { text: interactive.footer } }),
+  };
+
+  if (interactive.type === 'button') {
+    return {
+      type: 'button',
+      ...common,
+      action: {
+        buttons: interactive.buttons.map((button) => ({
+          type: 'reply',
+          reply: { id: button.id, title: button.title },
+        })),
+      },
+    };
+  }
+
+  if (interactive.type === 'cta_url') {
+    return {
+      type: 'cta_url',
+      ...common,
+      action: {
+        name: 'cta_url',
+        parameters: { display_text: interactive.displayText, url: interactive.url },
+      },
+    };
+  }
+
+  return {
+    type: 'list',
+    ...common,
+    action: {
+      button: interactive.buttonText,
+      sections: interactive.sections.map((section) => ({
+        ...(section.title && { title: section.title }),
+        rows: section.rows.map((row) => ({
+          id: row.id,
+          title: row.title,
+          ...(row.description && { description: row.description }),
+        })),
+      })),
+    },
+  };
+}
+
+// Body of a Graph API `/messages` request
+export type WhatsAppPayload = Record<string, unknown>;
+
+/**
+ * Build the WhatsApp Cloud API `/messages` payload for an outbound message
+ */
+export function buildWhatsAppPayload(
+  to: string,
+  message: OutboundMessage,
+  replyToMessageId?: string
+): WhatsAppPayload {
+  const payload: WhatsAppPayload = {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to,
+    type: message.type,
+    ...(replyToMessageId && { context: { message_id: replyToMessageId } }),
+  };
+
+  switch (message.type) {
+    case 'text':
+      payload.text = { body: message.text, preview_url: message.previewUrl || false };
+      break;
+    case 'template':
+      payload.template = {
+        name: message.template.name,
+        language: { code: message.template.language },
+        ...(message.template.components && { components: message.template.components }),
+      };
+      break;
+    case 'interactive':
+      payload.interactive = buildInteractive(message.interactive);
+      break;
+    case 'location':
+      payload.location = message.location;
+      break;
+    default:
+      payload[message.type] = {
+        ...(message.media.id ? { id: message.media.id } : { link: message.media.link }),
+        ...(message.media.caption && { caption: message.media.caption }),
+        ...(message.media.filename && { filename: message.media.filename }),
+      };
+  }
+
+  return payload;
+}
+
+/**
+ * Human-readable content stored in `messages.content` for an outbound message
+ */
+export function describeOutboundMessage(message: OutboundMessage): string {
+  switch (message.type) {
+    case 'text':
+      return message.text;
+    case 'template':
+      return `[Template: ${message.template.name}]`;
+    case 'interactive':
+      return message.interactive.body;
+    case 'location':
+      return `[Location: ${message.location.latitude}, ${message.location.longitude}]`;
+    default: {
+      const label = message.type.charAt(0).toUpperCase() + message.type.slice(1);
+      return message.media.caption || `[${label}${message.media.filename ? `: ${message.media.filename}` : ''}]`;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+// Loaded before the service modules, which read part of their configuration on import.
+// Tests run without a database: storage is in memory, outbound calls go to the simulator.
+delete process.env.DATABASE_URL;
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.WEBHOOK_SIGNATURE_MODE = 'strict';
+process.env.ADMIN_API_KEY = 'e2e-admin-api-key';
+process.env.MESSAGE_AGGREGATION_WINDOW_MS = '0';
+// Graph API retries back off for milliseconds instead of seconds
+process.env.GRAPH_API_RETRY_BASE_DELAY_MS = '10';
+// Sends time out after a second (lost acknowledgements)
+process.env.GRAPH_API_TIMEOUT_MS = '1000';
+// Response API retries back off for milliseconds; open circuits allow a trial call after 200ms
+process.env.RESPONSE_API_RETRY_BASE_DELAY_MS = '10';
+process.env.RESPONSE_API_CIRCUIT_COOLDOWN_MS = '200';
+// Settings defaults come from the environment; tests change it between cases
+process.env.CHATBOT_SETTINGS_CACHE_TTL_MS = '0';
+// Readiness results are not cached, so dependency changes show up immediately
+process.env.HEALTH_CHECK_CACHE_TTL_MS = '0';
+
+// App secret of webhooks that refer to no known account (accounts in the tests have their own)
+export const GLOBAL_APP_SECRET = 'e2e-global-app-secret';
+process.env.FACEBOOK_APP_SECRET = GLOBAL_APP_SECRET;
@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { account, fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import { FixtureCustomer, inboundWebhook, messageFixtures } from '../../src/simulator';
+
+const AUTHORIZATION = { Authorization: `Bearer ${process.env.ADMIN_API_KEY}` };
+
+describe('Graph API client', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  async function sendText(customer: FixtureCustomer) {
+    await env.openServiceWindow(customer);
+    return env.http.post(
+      `/accounts/${account.chatbot_id}/messages`,
+      { to: customer.phoneNumber, type: 'text', text: 'Hello' },
+      { headers: AUTHORIZATION }
+    );
+  }
+
+  it('retries a throttled reply until it is delivered', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueSendError({ status: 429, code: 130429, message: 'Rate limit hit', type: 'OAuthException' });
+    env.simulator.queueSendError({ status: 400, code: 131056, message: '(Business Account, Consumer Account) pair rate limit hit' });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.text(customer.phoneNumber)));
+
+    const [sent] = await waitFor(() => env.sentTo(customer).length === 1 && env.sentTo(customer));
+    assert.match(sent.payload.text?.body ?? '', /^You said:/);
+    await waitFor(async () => (await env.conversation(customer)).length === 2);
+
+    const { data: metrics } = await env.http.get('/metrics');
+    assert.match(metrics, /whatsapp_graph_api_retries_total\{operation="send_message",kind="rate_limited"[^}]*\} 2/);
+  });
+
+  it('retries server errors', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueSendError({ status: 500, code: 1, message: 'An unknown error occurred' });
+
+    const response = await sendText(customer);
+
+    assert.equal(response.status, 200);
+    assert.equal(env.sentTo(customer).length, 1);
+  });
+
+  it('does not repeat a send that timed out', async () => {
+    const customer = env.newCustomer();
+    // Delivered, but acknowledged after GRAPH_API_TIMEOUT_MS
+    env.simulator.queueSendDelay(1500);
+
+    const response = await sendText(customer);
+
+    assert.equal(response.status, 504);
+    assert.equal(response.data.code, 'send_unconfirmed');
+    assert.equal(env.sentTo(customer).length, 1);
+  });
+
+  it('does not retry when the customer service window is closed', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueSendError({ status: 400, code: 131047, message: 'Re-engagement message' });
+
+    const response = await sendText(customer);
+
+    assert.equal(response.status, 422);
+    assert.equal(response.data.code, 'service_window_closed');
+    assert.equal(env.sentTo(customer).length, 0);
+  });
+
+  it('reports invalid recipients', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueSendError({ status: 400, code: 131026, message: 'Message undeliverable' });
+
+    const response = await sendText(customer);
+
+    assert.equal(response.status, 422);
+    assert.equal(response.data.code, 'invalid_recipient');
+    assert.equal(env.sentTo(customer).length, 0);
+  });
+
+  it('gives up when throttling outlasts the retries', async () => {
+    const customer = env.newCustomer();
+    for (let i = 0; i < 4; i++) {
+      env.simulator.queueSendError({ status: 400, code: 80007, message: 'Rate limit issues' });
+    }
+
+    const response = await sendText(customer);
+
+    assert.equal(response.status, 429);
+    assert.equal(response.data.code, 'rate_limited');
+    assert.equal(env.sentTo(customer).length, 0);
+  });
+
+  it('adds GRAPH_API_VERSION to a base URL without a version', async () => {
+    const customer = env.newCustomer();
+    process.env.GRAPH_API_BASE_URL = env.simulator.url;
+    process.env.GRAPH_API_VERSION = 'v19.0';
+    try {
+      const response = await sendText(customer);
+      assert.equal(response.status, 200);
+      assert.equal(env.sentTo(customer).length, 1);
+    } finally {
+      process.env.GRAPH_API_BASE_URL = env.simulator.graphApiBaseUrl;
+      delete process.env.GRAPH_API_VERSION;
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { GLOBAL_APP_SECRET } from './env';
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import app from '../../src/app';
+import {
+  createInMemoryRepositories,
+  InMemoryAccount,
+  Repositories,
+  setRepositories,
+  StoredMessage,
+} from '../../src/repositories';
+import { buildUniqueConvId } from '../../src/services/contacts';
+import { MediaStorage, StoredMediaObject, setMediaStorage } from '../../src/services/media-storage';
+import { FixtureAccount, FixtureCustomer, Simulator, startSimulator } from '../../src/simulator';
+
+export { GLOBAL_APP_SECRET };
+
+export const APP_SECRET = 'e2e-app-secret';
+
+export const account: InMemoryAccount = {
+  id: 'acc_e2e',
+  chatbot_id: 'chatbot_e2e',
+  phone_number_id: '100000000000001',
+  access_token: 'e2e-access-token',
+  waba_id: '200000000000001',
+  phone_number: '15550100000',
+  verify_token: 'e2e-verify-token',
+  app_secret: APP_SECRET,
+  api_key: 'e2e-chatbot-api-key',
+};
+
+export const fixtureAccount: FixtureAccount = {
+  phoneNumberId: account.phone_number_id,
+  wabaId: account.waba_id,
+  displayPhoneNumber: account.phone_number,
+};
+
+/**
+ * Keeps downloaded media in memory instead of MEDIA_STORAGE_DIR
+ */
+export class InMemoryMediaStorage implements MediaStorage {
+  readonly name = 'memory';
+  readonly objects = new Map<string, Buffer>();
+
+  async save(key: string, data: Buffer): Promise<StoredMediaObject> {
+    this.objects.set(key, data);
+    return { storageKey: key };
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const data = this.objects.get(key);
+    if (!data) {
+      throw new Error(`Media not found: ${key}`);
+    }
+    return data;
+  }
+}
+
+export interface TestEnvironment {
+  simulator: Simulator;
+  repositories: Repositories;
+  media: InMemoryMediaStorage;
+  // Client for the service, never throws on HTTP error statuses
+  http: AxiosInstance;
+  // POST /webhook signed with the account's app secret (secret null = unsigned)
+  postWebhook(payload: unknown, options?: { secret?: string | null }): Promise<AxiosResponse>;
+  // A customer no other test has used, so conversations do not mix
+  newCustomer(name?: string): FixtureCustomer;
+  // Record an inbound message from the customer at `at` without sending one (opens the 24-hour service window)
+  openServiceWindow(customer: FixtureCustomer, at?: Date): Promise<void>;
+  // Stored messages of a customer's conversation, oldest first
+  conversation(customer: FixtureCustomer): Promise<StoredMessage[]>;
+  // Messages the service sent to a customer through the Graph API
+  sentTo(customer: FixtureCustomer): Simulator['sentMessages'];
+  // Response API requests made for a customer
+  responseRequestsFor(customer: FixtureCustomer): Simulator['responseRequests'];
+  close(): Promise<void>;
+}
+
+export function signPayload(body: string, secret: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type Truthy<T> = Exclude<T, false | null | undefined | 0 | ''>;
+
+/**
+ * Poll until the check returns a truthy value (webhooks are processed after the 200 is returned)
+ */
+export async function waitFor<T>(check: () => T | Promise<T>, timeoutMs = 5000): Promise<Truthy<T>> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) {
+      return result as Truthy<T>;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await delay(20);
+  }
+}
+
+let customerSequence = 0;
+
+/**
+ * Start the simulator and the service (in-memory storage) on free ports
+ */
+export async function startTestEnvironment(): Promise<TestEnvironment> {
+  const simulator = await startSimulator();
+  process.env.GRAPH_API_BASE_URL = simulator.graphApiBaseUrl;
+  process.env.RESPONSE_API_BASE_URL = simulator.responseApiBaseUrl;
+
+  const repositories = createInMemoryRepositories([account]);
+  setRepositories(repositories);
+
+  const media = new InMemoryMediaStorage();
+  setMediaStorage(media);
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  const client = axios.create({
+    baseURL: `http://127.0.0.1:${port}`,
+    validateStatus: () => true,
+  });
+
+  return {
+    simulator,
+    repositories,
+    media,
+    http: client,
+
+    postWebhook(payload, options = {}) {
+      const body = JSON.stringify(payload);
+      const secret = options.secret === undefined ? APP_SECRET : options.secret;
+      return client.post('/webhook', body, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret && { 'x-hub-signature-256': signPayload(body, secret) }),
+        },
+      });
+    },
+
+    newCustomer(name = 'Test Customer') {
+      customerSequence++;
+      return { phoneNumber: `4915100${String(customerSequence).padStart(5, '0')}`, name };
+    },
+
+    async openServiceWindow(customer, at = new Date()) {
+      await repositories.contacts.upsertInbound(account, {
+        phoneNumber: customer.phoneNumber,
+        displayName: customer.name || '',
+        timestamp: at,
+        messageId: `wamid.window-${customer.phoneNumber}`,
+      });
+    },
+
+    async conversation(customer) {
+      const messages = await repositories.messages.listRecent(
+        account.chatbot_id,
+        buildUniqueConvId(customer.phoneNumber, account.chatbot_id),
+        { limit: 100, includeAgentMessages: true }
+      );
+      return messages.reverse();
+    },
+
+    sentTo(customer) {
+      return simulator.sentMessages.filter((sent) => sent.payload.to === customer.phoneNumber);
+    },
+
+    responseRequestsFor(customer) {
+      return simulator.responseRequests.filter(
+        (request) => request.body.user?.metadata?.phoneNumber === customer.phoneNumber
+      );
+    },
+
+    async close() {
+      setRepositories(null);
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await simulator.stop();
+    },
+  };
+}
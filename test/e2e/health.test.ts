@@ -0,0 +1,96 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestEnvironment, TestEnvironment } from './harness';
+import { markShuttingDown } from '../../src/services/health';
+
+describe('health probes', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('keeps the basic status endpoint', async () => {
+    const response = await env.http.get('/health');
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.status, 'OK');
+  });
+
+  it('reports liveness without checking dependencies', async () => {
+    env.simulator.setResponseApiHealthy(false);
+    try {
+      const response = await env.http.get('/health/live');
+      assert.equal(response.status, 200);
+      assert.equal(response.data.status, 'alive');
+    } finally {
+      env.simulator.setResponseApiHealthy(true);
+    }
+  });
+
+  it('is ready when the response API is reachable', async () => {
+    const response = await env.http.get('/health/ready');
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.status, 'ready');
+    assert.equal(response.data.checks.database.status, 'skipped');
+    assert.equal(response.data.checks.response_api.status, 'up');
+    assert.equal(typeof response.data.checks.response_api.latencyMs, 'number');
+    assert.equal(response.data.checks.graph_api.status, 'skipped');
+  });
+
+  it('stays ready when the response API fails', async () => {
+    env.simulator.setResponseApiHealthy(false);
+    try {
+      const response = await env.http.get('/health/ready');
+      assert.equal(response.status, 200);
+      assert.equal(response.data.status, 'ready');
+      assert.equal(response.data.checks.response_api.status, 'down');
+      assert.equal(response.data.checks.response_api.critical, false);
+      assert.equal(response.data.checks.response_api.error, 'HTTP 503');
+    } finally {
+      env.simulator.setResponseApiHealthy(true);
+    }
+  });
+
+  it('is not ready when a critical response API fails', async () => {
+    env.simulator.setResponseApiHealthy(false);
+    process.env.HEALTH_CHECK_RESPONSE_API_CRITICAL = 'true';
+    try {
+      const response = await env.http.get('/health/ready');
+      assert.equal(response.status, 503);
+      assert.equal(response.data.status, 'not_ready');
+      assert.equal(response.data.checks.response_api.critical, true);
+    } finally {
+      delete process.env.HEALTH_CHECK_RESPONSE_API_CRITICAL;
+      env.simulator.setResponseApiHealthy(true);
+    }
+  });
+
+  it('reports the Graph API as non-critical when its check is enabled', async () => {
+    process.env.HEALTH_CHECK_GRAPH_API = 'true';
+    try {
+      const response = await env.http.get('/health/ready');
+      assert.equal(response.status, 200);
+      assert.equal(response.data.checks.graph_api.critical, false);
+      assert.equal(response.data.checks.graph_api.status, 'up');
+    } finally {
+      delete process.env.HEALTH_CHECK_GRAPH_API;
+    }
+  });
+
+  // Irreversible for this process - keep last
+  it('is not ready once shutdown has started', async () => {
+    markShuttingDown();
+
+    const ready = await env.http.get('/health/ready');
+    assert.equal(ready.status, 503);
+    assert.equal(ready.data.status, 'shutting_down');
+
+    assert.equal((await env.http.get('/health/live')).status, 200);
+  });
+});
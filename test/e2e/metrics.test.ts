@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { account, fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import { inboundWebhook, messageFixtures } from '../../src/simulator';
+
+function sample(metrics: string, name: string, labels: Record<string, string>): number | undefined {
+  const line = metrics
+    .split('\n')
+    .find(
+      (candidate) =>
+        candidate.startsWith(`${name}{`) &&
+        Object.entries(labels).every(([label, value]) => candidate.includes(`${label}="${value}"`))
+    );
+  return line ? Number(line.slice(line.lastIndexOf(' ') + 1)) : undefined;
+}
+
+describe('GET /metrics', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('counts webhooks, messages, replies and upstream calls', async () => {
+    const customer = env.newCustomer();
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.text(customer.phoneNumber)));
+    await waitFor(async () => (await env.conversation(customer)).length === 2);
+
+    const response = await env.http.get('/metrics');
+    assert.equal(response.status, 200);
+    assert.match(String(response.headers['content-type']), /^text\/plain/);
+
+    const metrics: string = response.data;
+    const chatbot = { chatbot_id: account.chatbot_id };
+    assert.equal(sample(metrics, 'whatsapp_webhooks_received_total', { outcome: 'accepted' }), 1);
+    assert.equal(sample(metrics, 'whatsapp_messages_received_total', { ...chatbot, type: 'text' }), 1);
+    assert.equal(sample(metrics, 'whatsapp_ai_replies_total', { ...chatbot, outcome: 'sent' }), 1);
+    assert.equal(sample(metrics, 'whatsapp_response_api_duration_seconds_count', { ...chatbot, outcome: 'success' }), 1);
+    assert.equal(
+      sample(metrics, 'whatsapp_graph_api_duration_seconds_count', { operation: 'send_message', outcome: 'success' }),
+      1
+    );
+    assert.equal(sample(metrics, 'whatsapp_message_stage_duration_seconds_count', { stage: 'total' }), 1);
+  });
+
+  it('counts response API failures by reason', async () => {
+    const customer = env.newCustomer();
+    // The first call and both retries
+    for (let i = 0; i < 3; i++) {
+      env.simulator.queueResponse({ status: 503, body: { success: false, error: 'overloaded' } });
+    }
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.text(customer.phoneNumber)));
+    await waitFor(() => env.sentTo(customer).length > 0);
+
+    const { data: metrics } = await env.http.get('/metrics');
+    assert.equal(sample(metrics, 'whatsapp_response_api_errors_total', { chatbot_id: account.chatbot_id, reason: 'http_503' }), 3);
+    assert.equal(sample(metrics, 'whatsapp_response_api_retries_total', { chatbot_id: account.chatbot_id }), 2);
+    assert.equal(sample(metrics, 'whatsapp_ai_replies_total', { chatbot_id: account.chatbot_id, outcome: 'error' }), 1);
+  });
+
+  it('requires METRICS_API_KEY when it is set', async () => {
+    process.env.METRICS_API_KEY = 'e2e-metrics-key';
+    try {
+      assert.equal((await env.http.get('/metrics')).status, 401);
+      const response = await env.http.get('/metrics', { headers: { Authorization: 'Bearer e2e-metrics-key' } });
+      assert.equal(response.status, 200);
+    } finally {
+      delete process.env.METRICS_API_KEY;
+    }
+  });
+});
@@ -0,0 +1,124 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { account, fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import { inboundWebhook, messageFixtures } from '../../src/simulator';
+
+const AUTHORIZATION = { Authorization: `Bearer ${process.env.ADMIN_API_KEY}` };
+
+describe('POST /accounts/:chatbotId/messages', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('requires the API key', async () => {
+    const response = await env.http.post(`/accounts/${account.chatbot_id}/messages`, {
+      to: '4915100099999',
+      type: 'text',
+      text: 'Hi',
+    });
+
+    assert.equal(response.status, 401);
+  });
+
+  it('sends an agent message and stores it in the conversation', async () => {
+    const customer = env.newCustomer();
+    await env.openServiceWindow(customer);
+
+    const response = await env.http.post(
+      `/accounts/${account.chatbot_id}/messages`,
+      { to: customer.phoneNumber, senderType: 'agent', senderId: 'agent-42', type: 'text', text: 'An agent will call you today.' },
+      { headers: AUTHORIZATION }
+    );
+
+    assert.equal(response.status, 200);
+    const [sent] = env.sentTo(customer);
+    assert.equal(response.data.messageId, sent.id);
+    assert.equal(sent.payload.text?.body, 'An agent will call you today.');
+
+    const [stored] = await env.conversation(customer);
+    assert.equal(stored.type, 'agent');
+    assert.equal(stored.channel_message_metadata.waMessageId, sent.id);
+  });
+
+  it('sends agent replies as part of the AI conversation history', async () => {
+    const customer = env.newCustomer();
+    await env.openServiceWindow(customer);
+
+    await env.http.post(
+      `/accounts/${account.chatbot_id}/messages`,
+      { to: customer.phoneNumber, type: 'text', text: 'Your order has shipped.' },
+      { headers: AUTHORIZATION }
+    );
+    const reply = { ...messageFixtures.text(customer.phoneNumber), timestamp: String(Math.ceil(Date.now() / 1000)) };
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, reply));
+
+    await waitFor(() => env.responseRequestsFor(customer).length > 0);
+    const [request] = env.responseRequestsFor(customer);
+    assert.deepEqual(JSON.parse(request.body.query), [
+      { role: 'agent', content: 'Your order has shipped.' },
+      { role: 'user', content: 'Hi, what are your opening hours?' },
+    ]);
+  });
+
+  it('refuses free-form messages outside the 24-hour service window', async () => {
+    const customer = env.newCustomer();
+    await env.openServiceWindow(customer, new Date(Date.now() - 25 * 60 * 60 * 1000));
+
+    const response = await env.http.post(
+      `/accounts/${account.chatbot_id}/messages`,
+      { to: customer.phoneNumber, type: 'text', text: 'Are you still interested?' },
+      { headers: AUTHORIZATION }
+    );
+
+    assert.equal(response.status, 422);
+    assert.equal(response.data.code, 'service_window_closed');
+    assert.equal(env.sentTo(customer).length, 0);
+  });
+
+  it("sends the chatbot's fallback template when the service window is closed", async () => {
+    const customer = env.newCustomer();
+    process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE = 'reengagement';
+    process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE_LANGUAGE = 'de';
+    let response;
+    try {
+      response = await env.http.post(
+        `/accounts/${account.chatbot_id}/messages`,
+        { to: customer.phoneNumber, type: 'text', text: 'Your order has shipped.' },
+        { headers: AUTHORIZATION }
+      );
+    } finally {
+      delete process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE;
+      delete process.env.SERVICE_WINDOW_FALLBACK_TEMPLATE_LANGUAGE;
+    }
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.usedFallbackTemplate, true);
+    const [sent] = env.sentTo(customer);
+    assert.equal(sent.payload.type, 'template');
+    assert.deepEqual(sent.payload.template, { name: 'reengagement', language: { code: 'de' } });
+  });
+
+  it('refuses to message contacts who opted out', async () => {
+    const customer = env.newCustomer();
+    await env.postWebhook(
+      inboundWebhook(fixtureAccount, customer, { ...messageFixtures.text(customer.phoneNumber), text: { body: 'STOP' } })
+    );
+    await waitFor(() => env.sentTo(customer).length === 1);
+
+    const response = await env.http.post(
+      `/accounts/${account.chatbot_id}/messages`,
+      { to: customer.phoneNumber, type: 'text', text: 'We miss you!' },
+      { headers: AUTHORIZATION }
+    );
+
+    assert.equal(response.status, 422);
+    assert.equal(response.data.code, 'contact_opted_out');
+    assert.equal(env.sentTo(customer).length, 1);
+  });
+});
@@ -0,0 +1,227 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { account, delay, fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import { FixtureCustomer, inboundWebhook, messageFixtures } from '../../src/simulator';
+import { FALLBACK_MESSAGES } from '../../src/services/fallback-replies';
+import { listFollowUps } from '../../src/services/follow-ups';
+import { sweepFollowUps } from '../../src/services/follow-up-worker';
+import { getCircuitState } from '../../src/services/response-api';
+import { getRepositories } from '../../src/repositories';
+
+describe('response API resilience', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  async function ask(customer: FixtureCustomer, text = 'Hi, what are your opening hours?', secondsAgo = 0) {
+    const message = {
+      ...messageFixtures.text(customer.phoneNumber),
+      text: { body: text },
+      timestamp: String(Math.floor(Date.now() / 1000) - secondsAgo),
+    };
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+  }
+
+  function sentTexts(customer: FixtureCustomer): Array<string | undefined> {
+    return env.sentTo(customer).map((sent) => sent.payload.text?.body);
+  }
+
+  it('retries transient failures', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({ status: 502, body: { success: false } });
+
+    await ask(customer);
+
+    await waitFor(() => env.sentTo(customer).length === 1);
+    assert.deepEqual(sentTexts(customer), ['You said: Hi, what are your opening hours?']);
+    assert.equal(env.responseRequestsFor(customer).length, 2);
+  });
+
+  it("sends the chatbot's fallback message in its language", async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({ body: { success: false, error: 'No answer' } });
+    process.env.FALLBACK_LANGUAGE = 'de';
+    try {
+      await ask(customer);
+      await waitFor(() => env.sentTo(customer).length === 1);
+    } finally {
+      delete process.env.FALLBACK_LANGUAGE;
+    }
+
+    assert.deepEqual(sentTexts(customer), [FALLBACK_MESSAGES.de.error]);
+    // Not retried, not queued
+    assert.equal(env.responseRequestsFor(customer).length, 1);
+    assert.equal((await listFollowUps(100)).length, 0);
+  });
+
+  it('does not apologize after the answer was delivered', async () => {
+    const customer = env.newCustomer();
+    const { messages } = await getRepositories();
+    const insert = messages.insert;
+    // Storing the answer fails once it has been sent
+    messages.insert = async (message) => {
+      if (message.type === 'assistant') throw new Error('connection terminated');
+      return insert.call(messages, message);
+    };
+    try {
+      await ask(customer);
+      await waitFor(() => env.sentTo(customer).length === 1);
+      await delay(100);
+    } finally {
+      messages.insert = insert;
+    }
+
+    assert.deepEqual(sentTexts(customer), ['You said: Hi, what are your opening hours?']);
+  });
+
+  it('sends a holding message ahead of a slow answer', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({ body: { success: true, response: 'Here you go' }, delayMs: 300 });
+    process.env.FALLBACK_HOLDING_MESSAGE = 'One moment please…';
+    process.env.FALLBACK_HOLDING_MESSAGE_AFTER_MS = '50';
+    try {
+      await ask(customer);
+      await waitFor(() => env.sentTo(customer).length === 2);
+    } finally {
+      delete process.env.FALLBACK_HOLDING_MESSAGE;
+      delete process.env.FALLBACK_HOLDING_MESSAGE_AFTER_MS;
+    }
+
+    assert.deepEqual(sentTexts(customer), ['One moment please…', 'Here you go']);
+    // The holding message is not part of the conversation
+    await waitFor(async () => (await env.conversation(customer)).length === 2);
+    assert.deepEqual((await env.conversation(customer)).map((message) => message.type), ['user', 'assistant']);
+  });
+
+  it('answers once the response API recovers', async () => {
+    const customer = env.newCustomer();
+    env.simulator.setResponseApiHealthy(false);
+
+    await ask(customer, 'Is my order on its way?', 5);
+    await waitFor(() => env.sentTo(customer).length === 1);
+    assert.deepEqual(sentTexts(customer), [FALLBACK_MESSAGES.en.unavailable]);
+
+    const [followUp] = await listFollowUps(100);
+    assert.equal(followUp.phone_number, customer.phoneNumber);
+
+    await ask(customer, 'Hello?');
+    await waitFor(() => env.sentTo(customer).length === 2);
+
+    env.simulator.setResponseApiHealthy(true);
+    await sweepFollowUps();
+
+    assert.equal(env.sentTo(customer).length, 3);
+    const [request] = env.responseRequestsFor(customer).slice(-1);
+    assert.deepEqual(JSON.parse(request.body.query), [{ role: 'user', content: 'Is my order on its way?\nHello?' }]);
+    assert.deepEqual((await env.conversation(customer)).map((message) => message.type), ['user', 'user', 'assistant']);
+    assert.equal((await listFollowUps(100)).length, 0);
+  });
+
+  it('keeps a follow-up queued until its answer is delivered', async () => {
+    const customer = env.newCustomer();
+    env.simulator.setResponseApiHealthy(false);
+    await ask(customer);
+    await waitFor(() => env.sentTo(customer).length === 1);
+
+    env.simulator.setResponseApiHealthy(true);
+    // Outlasts the Graph client's own retries
+    for (let i = 0; i < 4; i++) {
+      env.simulator.queueSendError({ status: 503, code: 131016, message: 'Service unavailable' });
+    }
+    await sweepFollowUps();
+
+    const [followUp] = await listFollowUps(100);
+    assert.equal(followUp.unique_conv_id, env.responseRequestsFor(customer)[0].body.user.uniqueClientId);
+    assert.equal(followUp.attempts, 1);
+    assert.equal(followUp.claimed_at, null);
+    assert.equal(env.sentTo(customer).length, 1);
+
+    await sweepFollowUps();
+    assert.equal(env.sentTo(customer).length, 2);
+    assert.equal((await listFollowUps(100)).length, 0);
+  });
+
+  it('drops a follow-up WhatsApp will not deliver', async () => {
+    const customer = env.newCustomer();
+    env.simulator.setResponseApiHealthy(false);
+    await ask(customer);
+    await waitFor(() => env.sentTo(customer).length === 1);
+
+    env.simulator.setResponseApiHealthy(true);
+    env.simulator.queueSendError({ status: 400, code: 131026, message: 'Message undeliverable' });
+    await sweepFollowUps();
+    const requests = env.responseRequestsFor(customer).length;
+
+    assert.equal((await listFollowUps(100)).length, 0);
+    await sweepFollowUps();
+    assert.equal(env.sentTo(customer).length, 1);
+    assert.equal(env.responseRequestsFor(customer).length, requests);
+  });
+
+  it('drops a follow-up the response API refuses without an error message', async () => {
+    const customer = env.newCustomer();
+    env.simulator.setResponseApiHealthy(false);
+    await ask(customer);
+    await waitFor(() => env.sentTo(customer).length === 1);
+
+    env.simulator.setResponseApiHealthy(true);
+    env.simulator.queueResponse({ body: { success: false, error: 'No answer' } });
+    await sweepFollowUps();
+
+    assert.equal((await listFollowUps(100)).length, 0);
+    assert.deepEqual(sentTexts(customer), [FALLBACK_MESSAGES.en.unavailable]);
+  });
+
+  it('drops a follow-up once the service window has closed', async () => {
+    const customer = env.newCustomer();
+    env.simulator.setResponseApiHealthy(false);
+    await ask(customer);
+    await waitFor(() => env.sentTo(customer).length === 1);
+    env.simulator.setResponseApiHealthy(true);
+    const requests = env.responseRequestsFor(customer).length;
+
+    await env.openServiceWindow(customer, new Date(Date.now() - 25 * 60 * 60 * 1000));
+    await sweepFollowUps();
+
+    assert.equal(env.sentTo(customer).length, 1);
+    assert.equal(env.responseRequestsFor(customer).length, requests);
+    assert.equal((await listFollowUps(100)).length, 0);
+  });
+
+  it('stops calling a failing response API and resumes after a successful trial call', async () => {
+    env.simulator.setResponseApiHealthy(false);
+    const customers = Array.from({ length: 6 }, () => env.newCustomer());
+
+    // Five failed turns open the circuit
+    for (const customer of customers.slice(0, 5)) {
+      await ask(customer);
+      await waitFor(() => env.sentTo(customer).length === 1);
+    }
+    assert.equal(getCircuitState(account.chatbot_id), 'open');
+
+    const refused = customers[5];
+    await ask(refused);
+    await waitFor(() => env.sentTo(refused).length === 1);
+    assert.equal(env.responseRequestsFor(refused).length, 0);
+
+    // Still open: the sweep leaves the follow-ups queued
+    await sweepFollowUps();
+    assert.equal((await listFollowUps(100)).length, 6);
+
+    env.simulator.setResponseApiHealthy(true);
+    await delay(250);
+    await sweepFollowUps();
+
+    assert.equal(getCircuitState(account.chatbot_id), 'closed');
+    for (const customer of customers) {
+      assert.equal(env.sentTo(customer).length, 2);
+    }
+    assert.equal((await listFollowUps(100)).length, 0);
+  });
+});
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import { inboundWebhook, messageFixtures } from '../../src/simulator';
+import { drainInFlight, getInFlightTasks } from '../../src/services/in-flight';
+
+describe('shutdown drain', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('waits for in-flight webhook processing to finish', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({ body: { success: true, response: 'Slow answer' }, delayMs: 300 });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.text(customer.phoneNumber)));
+    assert.equal(getInFlightTasks().length, 1);
+
+    const result = await drainInFlight(5000);
+    assert.equal(result.drained, true);
+    assert.deepEqual(result.abandoned, []);
+    assert.equal(env.sentTo(customer)[0]?.payload.text?.body, 'Slow answer');
+  });
+
+  it('reports work still running at the drain timeout as abandoned', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({ body: { success: true, response: 'Too late' }, delayMs: 1000 });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.text(customer.phoneNumber)));
+    const result = await drainInFlight(50);
+
+    assert.equal(result.drained, false);
+    assert.equal(result.abandoned.length, 1);
+    assert.equal(result.abandoned[0].kind, 'webhook');
+
+    const { data: metrics } = await env.http.get('/metrics');
+    assert.match(metrics, /whatsapp_shutdown_abandoned_tasks_total\{kind="webhook"[^}]*\} 1/);
+
+    // Let it finish before the environment closes
+    await waitFor(() => getInFlightTasks().length === 0);
+  });
+});
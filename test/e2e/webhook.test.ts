@@ -0,0 +1,393 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { account, APP_SECRET, delay, GLOBAL_APP_SECRET, fixtureAccount, startTestEnvironment, TestEnvironment, waitFor } from './harness';
+import {
+  FIXTURE_MEDIA,
+  inboundWebhook,
+  messageFixtures,
+  statusFixtures,
+  statusWebhook,
+  templateStatusWebhook,
+} from '../../src/simulator';
+import { getContactConsent } from '../../src/services/consent';
+import { buildUniqueConvId } from '../../src/services/contacts';
+import { getActiveHandoff } from '../../src/services/handoff';
+import { isStoredMedia } from '../../src/services/media';
+import { WebhookMessage, WebhookMessageType, WebhookStatus } from '../../src/utils/webhook-payload';
+
+function textMessage(from: string, body: string): WebhookMessage {
+  return { ...messageFixtures.text(from), text: { body } };
+}
+
+describe('POST /webhook', () => {
+  let env: TestEnvironment;
+
+  before(async () => {
+    env = await startTestEnvironment();
+    for (const media of Object.values(FIXTURE_MEDIA)) {
+      env.simulator.addMedia(media.id, crypto.randomBytes(256), media.mimeType);
+    }
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  it('answers a text message through the response API and stores both turns', async () => {
+    const customer = env.newCustomer('Ada');
+    const message = textMessage(customer.phoneNumber, 'What are your opening hours?');
+
+    const response = await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+    assert.equal(response.status, 200);
+
+    const [sent] = await waitFor(() => env.sentTo(customer).length > 0 && env.sentTo(customer));
+    assert.equal(sent.phoneNumberId, account.phone_number_id);
+    assert.equal(sent.accessToken, account.access_token);
+    assert.equal(sent.payload.text?.body, 'You said: What are your opening hours?');
+
+    const [request] = env.responseRequestsFor(customer);
+    assert.equal(request.body.chatbotId, account.chatbot_id);
+    assert.equal(request.body.user.converslyWebId, account.api_key);
+    assert.deepEqual(JSON.parse(request.body.query), [{ role: 'user', content: 'What are your opening hours?' }]);
+
+    const stored = await waitFor(async () => {
+      const messages = await env.conversation(customer);
+      return messages.length === 2 && messages;
+    });
+    assert.equal(stored[0].type, 'user');
+    assert.equal(stored[0].channel_message_metadata.waMessageId, message.id);
+    assert.equal(stored[1].type, 'assistant');
+    assert.equal(stored[1].content, 'You said: What are your opening hours?');
+    assert.equal(stored[1].channel_message_metadata.waMessageId, sent.id);
+  });
+
+  it('sends the earlier turns as conversation history', async () => {
+    const customer = env.newCustomer();
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Hello')));
+    await waitFor(() => env.sentTo(customer).length === 1);
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Do you deliver?')));
+    await waitFor(() => env.sentTo(customer).length === 2);
+
+    const requests = env.responseRequestsFor(customer);
+    assert.deepEqual(JSON.parse(requests[1].body.query), [
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'You said: Hello' },
+      { role: 'user', content: 'Do you deliver?' },
+    ]);
+  });
+
+  it('processes a redelivered message once', async () => {
+    const customer = env.newCustomer();
+    const payload = inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Only once please'));
+
+    assert.equal((await env.postWebhook(payload)).status, 200);
+    assert.equal((await env.postWebhook(payload)).status, 200);
+
+    await waitFor(() => env.sentTo(customer).length > 0);
+    await delay(200);
+    assert.equal(env.responseRequestsFor(customer).length, 1);
+    assert.equal(env.sentTo(customer).length, 1);
+    assert.equal((await env.conversation(customer)).filter((message) => message.type === 'user').length, 1);
+  });
+
+  it('rejects unsigned and wrongly signed payloads', async () => {
+    const customer = env.newCustomer();
+    const payload = inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Let me in'));
+
+    assert.equal((await env.postWebhook(payload, { secret: null })).status, 401);
+    assert.equal((await env.postWebhook(payload, { secret: `not-${APP_SECRET}` })).status, 401);
+
+    await delay(100);
+    assert.equal(env.responseRequestsFor(customer).length, 0);
+    assert.deepEqual(await env.conversation(customer), []);
+  });
+
+  it('rejects malformed envelopes with 400', async () => {
+    const response = await env.postWebhook(
+      { object: 'whatsapp_business_account', entry: { id: account.waba_id } },
+      { secret: GLOBAL_APP_SECRET }
+    );
+
+    assert.equal(response.status, 400);
+    assert.equal(response.data.code, 'invalid_webhook_payload');
+    assert.deepEqual(response.data.issues, [{ path: 'entry', message: 'must be an array' }]);
+  });
+
+  it('downloads inbound media and forwards it as an attachment', async () => {
+    const customer = env.newCustomer();
+    const message = messageFixtures.image(customer.phoneNumber);
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+    await waitFor(() => env.sentTo(customer).length > 0);
+
+    const [request] = env.responseRequestsFor(customer);
+    const [attachment] = request.body.attachments || [];
+    assert.equal(attachment.mediaId, FIXTURE_MEDIA.image.id);
+    assert.equal(attachment.mimeType, FIXTURE_MEDIA.image.mimeType);
+    assert.equal(attachment.caption, 'Is this in stock?');
+
+    const stored = await env.media.read(attachment.storageKey);
+    assert.equal(attachment.sha256, crypto.createHash('sha256').update(stored).digest('hex'));
+
+    const [inbound] = await env.conversation(customer);
+    assert.equal(inbound.content, 'Is this in stock?');
+    const { media } = inbound.channel_message_metadata;
+    assert.ok(isStoredMedia(media));
+    assert.equal(media.storageKey, attachment.storageKey);
+  });
+
+  it('serves stored media to the chatbot API key and rejects other keys', async () => {
+    const customer = env.newCustomer();
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.image(customer.phoneNumber)));
+    await waitFor(() => env.sentTo(customer).length > 0);
+
+    const [request] = env.responseRequestsFor(customer);
+    const [attachment] = request.body.attachments || [];
+    assert.ok(attachment.storageKey.startsWith(`${account.chatbot_id}/`));
+
+    const served = await env.http.get(`/media/${attachment.storageKey}`, {
+      headers: { Authorization: `Bearer ${account.api_key}` },
+      responseType: 'arraybuffer',
+    });
+    assert.equal(served.status, 200);
+    assert.ok(Buffer.from(served.data).equals(await env.media.read(attachment.storageKey)));
+
+    const wrongKey = await env.http.get(`/media/${attachment.storageKey}`, { headers: { 'x-api-key': 'not-the-key' } });
+    assert.equal(wrongKey.status, 401);
+
+    const missingKey = await env.http.get(`/media/${attachment.storageKey}`);
+    assert.equal(missingKey.status, 401);
+
+    // The chatbot key does not reach media of another chatbot through its own prefix
+    const escaped = await env.http.get(`/media/${account.chatbot_id}/..%2Fother_chatbot%2Ffile.jpg`, {
+      headers: { Authorization: `Bearer ${account.api_key}` },
+    });
+    assert.equal(escaped.status, 400);
+  });
+
+  it('forwards the option picked from interactive buttons', async () => {
+    const customer = env.newCustomer();
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, messageFixtures.interactive(customer.phoneNumber)));
+    await waitFor(() => env.sentTo(customer).length > 0);
+
+    const [request] = env.responseRequestsFor(customer);
+    assert.deepEqual(request.body.interactiveReply, { type: 'button_reply', id: 'track_order', title: 'Track my order' });
+  });
+
+  it('sends interactive choices returned by the response API as buttons', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueResponse({
+      body: {
+        success: true,
+        response: 'How would you like to continue?',
+        interactive: { type: 'button', buttons: [{ id: 'track', title: 'Track order' }, { id: 'agent', title: 'Agent' }] },
+      },
+    });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Help')));
+    const [sent] = await waitFor(() => env.sentTo(customer).length > 0 && env.sentTo(customer));
+
+    assert.equal(sent.payload.type, 'interactive');
+    assert.equal(sent.payload.interactive?.type, 'button');
+    assert.deepEqual(
+      sent.payload.interactive?.action.buttons?.map((button) => button.reply.id),
+      ['track', 'agent']
+    );
+  });
+
+  it('sends too many long choices as numbered text within the text limit', async () => {
+    const customer = env.newCustomer();
+    const titles = Array.from({ length: 12 }, (_, i) => `Option ${i + 1} ${'x'.repeat(400)}`);
+    env.simulator.queueResponse({
+      body: {
+        success: true,
+        response: 'Pick one:',
+        interactive: { type: 'button', buttons: titles.map((title, i) => ({ id: `option_${i}`, title })) },
+      },
+    });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Options?')));
+    // The numbered choices continue over several messages - wait for the last one
+    const sent = await waitFor(() =>
+      env.sentTo(customer).some((message) => message.payload.text?.body?.includes('12. Option 12')) && env.sentTo(customer));
+
+    const texts = sent.map((message) => message.payload.text?.body ?? '');
+    assert.ok(texts.every((text) => text.length > 0 && text.length <= 4096));
+    assert.ok(texts[0].startsWith('Pick one:'));
+    assert.deepEqual(texts.join('\n').match(/^\d+\. Option \d+/gm), titles.map((title, i) => `${i + 1}. ${title.slice(0, title.indexOf(' x'))}`));
+  });
+
+  it('does not hand off when a tapped button is titled like a handoff request', async () => {
+    const customer = env.newCustomer();
+    const message = {
+      ...messageFixtures.interactive(customer.phoneNumber),
+      interactive: { type: 'button_reply' as const, button_reply: { id: 'contact', title: 'Talk to a human' } },
+    };
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+    const [sent] = await waitFor(() => env.sentTo(customer).length === 1 && env.sentTo(customer));
+
+    assert.match(sent.payload.text?.body ?? '', /^You said: Talk to a human/);
+    assert.equal(await getActiveHandoff(buildUniqueConvId(customer.phoneNumber, account.chatbot_id)), null);
+  });
+
+  it('confirms STOP and START and stays silent while opted out', async () => {
+    const customer = env.newCustomer();
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'STOP')));
+    const [optOut] = await waitFor(() => env.sentTo(customer).length === 1 && env.sentTo(customer));
+    assert.match(optOut.payload.text?.body ?? '', /unsubscribed/);
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Are you there?')));
+    await waitFor(async () => (await env.conversation(customer)).length === 3);
+    await delay(100);
+    assert.equal(env.sentTo(customer).length, 1);
+    assert.equal(env.responseRequestsFor(customer).length, 0);
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'START')));
+    const sent = await waitFor(() => env.sentTo(customer).length === 2 && env.sentTo(customer));
+    assert.match(sent[1].payload.text?.body ?? '', /subscribed again/);
+  });
+
+  it('does not treat a tapped button titled like a keyword as an opt-out', async () => {
+    const customer = env.newCustomer();
+    const message = {
+      ...messageFixtures.interactive(customer.phoneNumber),
+      interactive: { type: 'button_reply' as const, button_reply: { id: 'cancel_order', title: 'Cancel' } },
+    };
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+    const [sent] = await waitFor(() => env.sentTo(customer).length === 1 && env.sentTo(customer));
+
+    assert.match(sent.payload.text?.body ?? '', /^You said: Cancel/);
+    assert.equal((await getContactConsent(account.chatbot_id, customer.phoneNumber)).optedIn, true);
+  });
+
+  it('answers a burst of messages in one webhook payload once', async () => {
+    const customer = env.newCustomer();
+    process.env.MESSAGE_AGGREGATION_WINDOW_MS = '200';
+    try {
+      const response = await env.postWebhook(
+        inboundWebhook(
+          fixtureAccount,
+          customer,
+          textMessage(customer.phoneNumber, 'Hi'),
+          textMessage(customer.phoneNumber, 'Where is my order?')
+        )
+      );
+      // Acknowledged without waiting for the aggregation window
+      assert.equal(response.status, 200);
+      await waitFor(() => env.sentTo(customer).length === 1);
+    } finally {
+      process.env.MESSAGE_AGGREGATION_WINDOW_MS = '0';
+    }
+
+    await delay(300);
+    assert.equal(env.sentTo(customer).length, 1);
+    const requests = env.responseRequestsFor(customer);
+    assert.equal(requests.length, 1);
+    const [turn] = JSON.parse(requests[0].body.query);
+    assert.equal(turn.role, 'user');
+    assert.equal(turn.content, 'Hi\nWhere is my order?');
+  });
+
+  it('answers messages of separate payloads within the window once, in order', async () => {
+    const customer = env.newCustomer();
+    process.env.MESSAGE_AGGREGATION_WINDOW_MS = '300';
+    try {
+      // Same second: WhatsApp's timestamps cannot order them
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      for (const body of ['Hello', 'I ordered a lamp', 'It arrived broken']) {
+        const message = { ...textMessage(customer.phoneNumber, body), timestamp };
+        assert.equal((await env.postWebhook(inboundWebhook(fixtureAccount, customer, message))).status, 200);
+      }
+      await waitFor(() => env.sentTo(customer).length === 1);
+    } finally {
+      process.env.MESSAGE_AGGREGATION_WINDOW_MS = '0';
+    }
+
+    await delay(400);
+    assert.equal(env.sentTo(customer).length, 1);
+    const requests = env.responseRequestsFor(customer);
+    assert.equal(requests.length, 1);
+    const query = JSON.parse(requests[0].body.query);
+    assert.deepEqual(query, [{ role: 'user', content: 'Hello\nI ordered a lamp\nIt arrived broken' }]);
+  });
+
+  it('hands off only on explicit requests for a human', async () => {
+    const customer = env.newCustomer();
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Is there a travel agent fee?')));
+    await waitFor(() => env.sentTo(customer).length === 1);
+    assert.equal(env.sentTo(customer)[0].payload.text?.body, 'You said: Is there a travel agent fee?');
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Can I speak to an agent please?')));
+    await waitFor(() => env.sentTo(customer).length === 2);
+    assert.equal(env.sentTo(customer)[1].payload.text?.body, 'Thanks! A member of our team will reply here shortly.');
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Hello?')));
+    await waitFor(async () => (await env.conversation(customer)).some((message) => message.content === 'Hello?'));
+    await delay(100);
+    assert.equal(env.sentTo(customer).length, 2);
+    assert.equal(env.responseRequestsFor(customer).length, 1);
+  });
+
+  it('does not store an answer the Graph API rejected', async () => {
+    const customer = env.newCustomer();
+    env.simulator.queueSendError({ status: 400, code: 131026, message: 'Message undeliverable' });
+
+    await env.postWebhook(inboundWebhook(fixtureAccount, customer, textMessage(customer.phoneNumber, 'Hello?')));
+    await waitFor(() => env.responseRequestsFor(customer).length > 0);
+    await delay(100);
+
+    assert.equal(env.sentTo(customer).length, 0);
+    const stored = await env.conversation(customer);
+    assert.deepEqual(stored.map((message) => message.type), ['user']);
+  });
+
+  it('accepts every inbound message type and stores the answerable ones', async () => {
+    const unanswered: WebhookMessageType[] = ['reaction', 'system', 'request_welcome', 'unsupported'];
+
+    for (const [type, fixture] of Object.entries(messageFixtures) as Array<[WebhookMessageType, (from: string) => WebhookMessage]>) {
+      const customer = env.newCustomer();
+      const message = fixture(customer.phoneNumber);
+
+      const response = await env.postWebhook(inboundWebhook(fixtureAccount, customer, message));
+      assert.equal(response.status, 200, `${type} webhook`);
+
+      if (unanswered.includes(type)) {
+        await delay(50);
+        assert.deepEqual(await env.conversation(customer), [], `${type} is not stored`);
+        assert.equal(env.responseRequestsFor(customer).length, 0, `${type} is not answered`);
+        continue;
+      }
+
+      const [inbound] = await waitFor(async () => {
+        const messages = await env.conversation(customer);
+        return messages.length > 0 && messages;
+      });
+      assert.equal(inbound.channel_message_metadata.waMessageId, message.id, `${type} is stored`);
+      await waitFor(() => env.sentTo(customer).length > 0);
+    }
+  });
+
+  it('accepts every delivery status and template webhook without sending anything', async () => {
+    const sentBefore = env.simulator.sentMessages.length;
+    const statuses = Object.values(statusFixtures).map((fixture) => fixture('wamid.outbound', '491510000000')) as WebhookStatus[];
+
+    assert.equal((await env.postWebhook(statusWebhook(fixtureAccount, ...statuses))).status, 200);
+    assert.equal(
+      (await env.postWebhook(
+        templateStatusWebhook(fixtureAccount, { id: '300000000000001', name: 'order_update', language: 'en_US', event: 'APPROVED' })
+      )).status,
+      200
+    );
+
+    await delay(100);
+    assert.equal(env.simulator.sentMessages.length, sentBefore);
+  });
+});